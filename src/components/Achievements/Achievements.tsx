@@ -0,0 +1,172 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { DataManager } from '../../data/DataManager';
+import { Achievement, GameificationService } from '../../services/GameificationService';
+import './Achievements.css';
+
+type AchievementFilter = 'all' | 'unlocked' | 'locked';
+
+const FILTERS: { id: AchievementFilter; label: string }[] = [
+  { id: 'all', label: 'All' },
+  { id: 'unlocked', label: 'Unlocked' },
+  { id: 'locked', label: 'In Progress' }
+];
+
+const formatDate = (date?: Date) =>
+  date ? date.toLocaleDateString('en', { year: 'numeric', month: 'short', day: 'numeric' }) : '';
+
+const formatValue = (achievement: Achievement, value: number): string => {
+  switch (achievement.unit) {
+    case 'percent': return `${value}%`;
+    case 'days': return `${value} ${value === 1 ? 'day' : 'days'}`;
+    case 'duration': {
+      const minutes = Math.floor(value / 60000);
+      return minutes < 60 ? `${minutes}m` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+    }
+    default: return value.toLocaleString();
+  }
+};
+
+export const Achievements: React.FC = () => {
+  const navigate = useNavigate();
+  const [achievements, setAchievements] = useState<Achievement[]>([]);
+  const [filter, setFilter] = useState<AchievementFilter>('all');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const load = () => setAchievements(GameificationService.getAchievements());
+    const unsubscribe = GameificationService.subscribe(load);
+
+    // Word-list rules need the words loaded; then catch up on anything already earned
+    DataManager.loadWords().then(() => {
+      GameificationService.refreshAchievements();
+      load();
+      setLoading(false);
+    });
+
+    return unsubscribe;
+  }, []);
+
+  // Tiers of one rule share a card
+  const series = useMemo(() => {
+    const groups = new Map<string, Achievement[]>();
+    achievements.forEach(achievement => {
+      groups.set(achievement.series, [...(groups.get(achievement.series) || []), achievement]);
+    });
+    return Array.from(groups.values());
+  }, [achievements]);
+
+  const visibleSeries = series.filter(tiers => {
+    if (filter === 'unlocked') return tiers.some(tier => tier.unlocked);
+    if (filter === 'locked') return tiers.some(tier => !tier.unlocked);
+    return true;
+  });
+
+  const unlockedCount = achievements.filter(a => a.unlocked).length;
+  const pointsEarned = achievements.filter(a => a.unlocked).reduce((sum, a) => sum + a.points, 0);
+
+  if (loading) {
+    return (
+      <div className="achievements-loading">
+        <div className="loading-spinner"></div>
+        <p>Loading achievements...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="achievements">
+      <div className="achievements-header">
+        <button className="back-button" onClick={() => navigate('/')}>
+          ← Back to Dashboard
+        </button>
+        <h1>
+          <span className="icon">🏆</span>
+          Achievements
+        </h1>
+        <p className="subtitle">
+          {unlockedCount} of {achievements.length} unlocked · {pointsEarned.toLocaleString()} XP earned
+        </p>
+      </div>
+
+      <div className="achievements-filters">
+        {FILTERS.map(option => (
+          <button
+            key={option.id}
+            className={`achievements-filter ${filter === option.id ? 'active' : ''}`}
+            onClick={() => setFilter(option.id)}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {visibleSeries.length === 0 ? (
+        <p className="achievements-empty">
+          {filter === 'unlocked' ? 'Nothing unlocked yet - keep studying!' : 'Everything here is unlocked. Impressive!'}
+        </p>
+      ) : (
+        <div className="achievements-grid">
+          {visibleSeries.map(tiers => {
+            const next = tiers.find(tier => !tier.unlocked);
+            const latest = [...tiers].reverse().find(tier => tier.unlocked);
+            const secret = tiers[0].hidden && !latest;
+            const shown = next || tiers[tiers.length - 1];
+            const progress = next ? Math.min(100, (next.progress / next.requirement) * 100) : 100;
+
+            return (
+              <div
+                key={shown.series}
+                className={`achievement-card ${next ? '' : 'complete'} ${secret ? 'secret' : ''}`}
+              >
+                <div className="achievement-card-icon">{secret ? '❔' : shown.icon}</div>
+                <div className="achievement-card-body">
+                  <div className="achievement-card-title">
+                    <h3>{secret ? 'Secret Achievement' : shown.name}</h3>
+                    <span className="achievement-card-points">+{shown.points} XP</span>
+                  </div>
+                  <p className="achievement-card-description">
+                    {secret ? 'Keep studying to discover it.' : shown.description}
+                  </p>
+
+                  {tiers.length > 1 && (
+                    <div className="achievement-tiers">
+                      {tiers.map(tier => (
+                        <span
+                          key={tier.id}
+                          className={`achievement-tier ${tier.unlocked ? 'unlocked' : ''}`}
+                          title={tier.unlocked
+                            ? `${tier.name} - unlocked ${formatDate(tier.unlockedAt)}`
+                            : `${tier.name} - ${formatValue(tier, tier.requirement)}`}
+                        >
+                          {tier.tier}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+
+                  {next && !secret && (
+                    <div className="achievement-progress">
+                      <div className="achievement-progress-bar">
+                        <div className="achievement-progress-fill" style={{ width: `${progress}%` }} />
+                      </div>
+                      <span className="achievement-progress-text">
+                        {formatValue(next, Math.min(next.progress, next.requirement))} / {formatValue(next, next.requirement)}
+                      </span>
+                    </div>
+                  )}
+
+                  {latest && (
+                    <p className="achievement-unlocked-at">
+                      {next ? `${latest.name} unlocked` : 'Unlocked'} {formatDate(latest.unlockedAt)}
+                    </p>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,7 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { DataManager } from '../../data/DataManager';
-import { WordRecord } from '../../types';
+import { DeckManager } from '../../data/DeckManager';
+import { Deck, WordRecord } from '../../types';
 import './BrowseFlashcards.css';
 
 export const BrowseFlashcards: React.FC = () => {
@@ -11,11 +12,19 @@ export const BrowseFlashcards: React.FC = () => {
   const [currentIndex, setCurrentIndex] = useState(0);
   const [isFlipped, setIsFlipped] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [decks, setDecks] = useState<Deck[]>([]);
+  const [showDeckPanel, setShowDeckPanel] = useState(false);
+  const [newDeckName, setNewDeckName] = useState('');
+  const [deckError, setDeckError] = useState<string | null>(null);
 
   useEffect(() => {
     loadWordsForLetter();
   }, [letter]);
 
+  useEffect(() => {
+    setDecks(DeckManager.getDecks());
+  }, []);
+
   const loadWordsForLetter = async () => {
     setLoading(true);
     try {
@@ -55,7 +64,31 @@ export const BrowseFlashcards: React.FC = () => {
     setIsFlipped(!isFlipped);
   };
 
+  const toggleWordInDeck = (deck: Deck, wordId: string) => {
+    if (deck.wordIds.includes(wordId)) {
+      DeckManager.removeWords(deck.id, [wordId]);
+    } else {
+      DeckManager.addWords(deck.id, [wordId]);
+    }
+    setDecks(DeckManager.getDecks());
+  };
+
+  const handleCreateDeck = (e: React.FormEvent, wordId: string) => {
+    e.preventDefault();
+    try {
+      DeckManager.createDeck(newDeckName, { wordIds: [wordId] });
+      setNewDeckName('');
+      setDeckError(null);
+      setDecks(DeckManager.getDecks());
+    } catch (error) {
+      setDeckError(error instanceof Error ? error.message : 'Could not create deck');
+    }
+  };
+
   const handleKeyPress = (e: KeyboardEvent) => {
+    // Don't hijack typing in the deck name field
+    if (e.target instanceof HTMLInputElement) return;
+
     if (e.key === 'ArrowRight' || e.key === ' ') {
       e.preventDefault();
       if (isFlipped) {
@@ -101,6 +134,8 @@ export const BrowseFlashcards: React.FC = () => {
   }
 
   const currentWord = words[currentIndex];
+  const currentWordId = DataManager.getWordId(currentWord);
+  const deckCount = decks.filter(deck => deck.wordIds.includes(currentWordId)).length;
 
   return (
     <div className="browse-flashcards">
@@ -175,6 +210,42 @@ export const BrowseFlashcards: React.FC = () => {
           {isFlipped ? 'Hide Meaning' : 'Show Meaning'}
         </button>
 
+        <button
+          className={`deck-toggle-button ${showDeckPanel ? 'active' : ''}`}
+          onClick={() => setShowDeckPanel(!showDeckPanel)}
+        >
+          ▤ Add to Deck{deckCount > 0 ? ` (${deckCount})` : ''}
+        </button>
+
+        {showDeckPanel && (
+          <div className="deck-panel">
+            {decks.length === 0 && (
+              <p className="deck-panel-empty">No decks yet — create one below.</p>
+            )}
+            {decks.map(deck => (
+              <label key={deck.id} className="deck-panel-option">
+                <input
+                  type="checkbox"
+                  checked={deck.wordIds.includes(currentWordId)}
+                  onChange={() => toggleWordInDeck(deck, currentWordId)}
+                />
+                <span>{deck.name}</span>
+                <span className="deck-panel-count">{deck.wordIds.length}</span>
+              </label>
+            ))}
+            <form className="deck-panel-create" onSubmit={(e) => handleCreateDeck(e, currentWordId)}>
+              <input
+                type="text"
+                placeholder="New deck name"
+                value={newDeckName}
+                onChange={(e) => setNewDeckName(e.target.value)}
+              />
+              <button type="submit" disabled={!newDeckName.trim()}>Create</button>
+            </form>
+            {deckError && <p className="deck-panel-error">{deckError}</p>}
+          </div>
+        )}
+
         <div className="nav-buttons">
           <button
             className="nav-button"
@@ -191,6 +262,14 @@ export const BrowseFlashcards: React.FC = () => {
             🏠
           </button>
 
+          <button
+            className="nav-button"
+            title="Edit this word"
+            onClick={() => navigate(`/words/${currentWordId}`)}
+          >
+            ✎
+          </button>
+
           <button
             className="nav-button next"
             onClick={handleNext}
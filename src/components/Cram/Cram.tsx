@@ -0,0 +1,313 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { DataManager } from "../../data/DataManager";
+import { DeckManager } from "../../data/DeckManager";
+import { CramSession, CramSource, CramState } from "../../services/CramSession";
+import { ProgressTracker } from "../../services/ProgressTracker";
+import { Deck, Quality, WordRecord } from "../../types";
+import { Flashcard } from "../Flashcard/Flashcard";
+import "./Cram.css";
+
+const LETTERS = "ABCDEFGHIJKLMNOPQRSTUVWXYZ".split("");
+const TARGETS = [1, 2, 3, 5];
+
+// `/cram?deck=<id>` or `/cram?letter=q` preselects the word set
+const getInitialSource = (searchParams: URLSearchParams): CramSource => {
+  const deckId = searchParams.get("deck");
+  const letter = searchParams.get("letter");
+  if (deckId) return { type: "deck", deckId };
+  if (letter) return { type: "letter", letter: letter.charAt(0) };
+  return { type: "weak" };
+};
+
+export const Cram: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const [words, setWords] = useState<WordRecord[]>([]);
+  const [decks, setDecks] = useState<Deck[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [source, setSource] = useState<CramSource>(() => getInitialSource(searchParams));
+  const [target, setTarget] = useState(3);
+  const [cram, setCram] = useState<CramState | null>(null);
+  const [cardStartTime, setCardStartTime] = useState(Date.now());
+  const [showMeaning, setShowMeaning] = useState(false);
+
+  useEffect(() => {
+    DataManager.loadWords().then((loadedWords) => {
+      setWords(loadedWords);
+      setDecks(DeckManager.getDecks());
+      setLoading(false);
+    });
+  }, []);
+
+  const selectedWords = useMemo(
+    () => CramSession.selectWords(source, words),
+    [source, words]
+  );
+  const wordsById = useMemo(
+    () => new Map(words.map((word) => [DataManager.getWordId(word), word])),
+    [words]
+  );
+
+  const startCram = (wordIds: string[]) => {
+    setCram(CramSession.start(wordIds, target));
+    setCardStartTime(Date.now());
+    setShowMeaning(false);
+  };
+
+  const handleQualitySelect = (quality: Quality) => {
+    if (!cram || cram.queue.length === 0) return;
+
+    CramSession.recordAnswer(
+      cram.queue[0],
+      quality,
+      Date.now() - cardStartTime,
+      source.type === "deck" ? source.deckId : undefined
+    );
+    setCram(CramSession.answer(cram, quality >= 3));
+    setCardStartTime(Date.now());
+    setShowMeaning(false);
+  };
+
+  const selectSourceType = (type: CramSource["type"]) => {
+    if (type === "deck") setSource({ type, deckId: decks[0]?.id || "" });
+    else if (type === "letter") setSource({ type, letter: "a" });
+    else setSource({ type });
+  };
+
+  if (loading) {
+    return (
+      <div className="cram-loading">
+        <div className="loading-spinner"></div>
+        <p>Loading words...</p>
+      </div>
+    );
+  }
+
+  if (!cram) {
+    return (
+      <div className="cram">
+        <div className="cram-header">
+          <button className="back-button" onClick={() => navigate("/")}>
+            ← Back to Dashboard
+          </button>
+          <h1>
+            <span className="icon">⚡</span>
+            Cram
+          </h1>
+          <p className="subtitle">
+            Drill a set of words in a loop until you know them cold. Cramming
+            counts towards your daily goal, but doesn't change your review
+            schedule or earn XP.
+          </p>
+        </div>
+
+        <div className="cram-setup">
+          <h2>What to cram</h2>
+          <div className="cram-source-options">
+            {([
+              ["deck", "▤ A Deck"],
+              ["letter", "Aa A Letter"],
+              ["weak", "💪 Weak Words"],
+            ] as const).map(([type, label]) => (
+              <button
+                key={type}
+                className={`cram-option ${source.type === type ? "active" : ""}`}
+                onClick={() => selectSourceType(type)}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {source.type === "deck" &&
+            (decks.length > 0 ? (
+              <select
+                className="cram-deck-select"
+                value={source.deckId}
+                onChange={(e) => setSource({ type: "deck", deckId: e.target.value })}
+              >
+                {!decks.some((deck) => deck.id === source.deckId) && (
+                  <option value="">Choose a deck</option>
+                )}
+                {decks.map((deck) => (
+                  <option key={deck.id} value={deck.id}>
+                    {deck.name}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <p className="cram-hint">
+                You don't have any decks yet.{" "}
+                <button className="cram-link" onClick={() => navigate("/decks")}>
+                  Create one
+                </button>
+              </p>
+            ))}
+
+          {source.type === "letter" && (
+            <div className="cram-letters">
+              {LETTERS.map((letter) => (
+                <button
+                  key={letter}
+                  className={`cram-letter ${
+                    source.letter.toUpperCase() === letter ? "active" : ""
+                  }`}
+                  onClick={() => setSource({ type: "letter", letter: letter.toLowerCase() })}
+                >
+                  {letter}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {source.type === "weak" && (
+            <p className="cram-hint">
+              Every word you've studied with accuracy below{" "}
+              {Math.round(CramSession.WEAK_ACCURACY * 100)}%.
+            </p>
+          )}
+
+          <h2>Correct answers in a row</h2>
+          <div className="cram-source-options">
+            {TARGETS.map((count) => (
+              <button
+                key={count}
+                className={`cram-option ${target === count ? "active" : ""}`}
+                onClick={() => setTarget(count)}
+              >
+                {count}×
+              </button>
+            ))}
+          </div>
+
+          <button
+            className="cram-start"
+            disabled={selectedWords.length === 0}
+            onClick={() => startCram(selectedWords.map((word) => DataManager.getWordId(word)))}
+          >
+            {selectedWords.length > 0
+              ? `Start Cramming ${selectedWords.length} ${selectedWords.length === 1 ? "Word" : "Words"}`
+              : "No words in this set"}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const cards = Object.values(cram.cards);
+  const doneCount = cards.length - cram.queue.length;
+
+  if (CramSession.isFinished(cram)) {
+    const hardest = cards
+      .filter((card) => card.misses > 0)
+      .sort((a, b) => b.misses - a.misses)
+      .slice(0, 5);
+
+    return (
+      <div className="cram-complete">
+        <h2>🎓 Cram Complete!</h2>
+        <div className="cram-summary">
+          <div className="cram-stat">
+            <span className="cram-stat-value">{cards.length}</span>
+            <span className="cram-stat-label">Words</span>
+          </div>
+          <div className="cram-stat">
+            <span className="cram-stat-value">{cram.answered}</span>
+            <span className="cram-stat-label">Answers</span>
+          </div>
+          <div className="cram-stat">
+            <span className="cram-stat-value">
+              {Math.round((cram.correct / cram.answered) * 100)}%
+            </span>
+            <span className="cram-stat-label">Accuracy</span>
+          </div>
+        </div>
+
+        {hardest.length > 0 && (
+          <div className="cram-hardest">
+            <h3>Toughest words</h3>
+            <ul>
+              {hardest.map((card) => (
+                <li key={card.wordId}>
+                  <span>{wordsById.get(card.wordId)?.word || card.wordId}</span>
+                  <span className="cram-misses">
+                    {card.misses} {card.misses === 1 ? "miss" : "misses"}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="cram-buttons">
+          <button className="cram-button secondary" onClick={() => navigate("/")}>
+            🏠 Back to Dashboard
+          </button>
+          <button className="cram-button" onClick={() => startCram(Object.keys(cram.cards))}>
+            Cram Again
+          </button>
+          <button className="cram-button" onClick={() => setCram(null)}>
+            Choose Other Words
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const currentCard = cram.cards[cram.queue[0]];
+  const currentWord = wordsById.get(currentCard.wordId);
+  const currentProgress = ProgressTracker.getProgressForWord(currentCard.wordId);
+
+  if (!currentWord) return null;
+
+  return (
+    <div className="cram-session">
+      <div className="cram-session-header">
+        <h2>
+          <span className="emoji">⚡</span>
+          Cram
+          <button className="cram-stop" onClick={() => setCram(null)}>
+            Stop
+          </button>
+        </h2>
+        <div className="cram-progress">
+          <div className="cram-progress-bar">
+            <div
+              className="cram-progress-fill"
+              style={{ width: `${(doneCount / cards.length) * 100}%` }}
+            />
+          </div>
+          <span className="cram-progress-text">
+            {doneCount} of {cards.length} words done
+          </span>
+        </div>
+        <div className="cram-streak" title="Correct in a row for this word">
+          {Array.from({ length: cram.target }, (_, i) => (
+            <span
+              key={i}
+              className={`cram-streak-pip ${i < currentCard.streak ? "filled" : ""}`}
+            />
+          ))}
+        </div>
+      </div>
+
+      <Flashcard
+        word={currentWord}
+        onQualitySelect={handleQualitySelect}
+        onNext={() => {}}
+        onPrevious={() => {}}
+        canGoNext={false}
+        canGoPrevious={false}
+        currentIndex={doneCount}
+        totalCount={cards.length}
+        showMeaning={showMeaning}
+        setShowMeaning={setShowMeaning}
+        masteryLevel={currentProgress?.masteryLevel || 0}
+        accuracy={currentProgress?.accuracy || 0}
+        repetitions={currentProgress?.repetitions || 0}
+        totalSeen={currentProgress?.totalSeen || 0}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,295 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { DataManager } from '../../data/DataManager';
+import { DeckManager } from '../../data/DeckManager';
+import { ProgressTracker } from '../../services/ProgressTracker';
+import { Deck } from '../../types';
+import './Decks.css';
+
+interface DeckStats {
+  total: number;
+  due: number;
+  newCards: number;
+  studied: number;
+}
+
+export const Decks: React.FC = () => {
+  const navigate = useNavigate();
+  const [decks, setDecks] = useState<Deck[]>([]);
+  const [deckStats, setDeckStats] = useState<Record<string, DeckStats>>({});
+  const [newDeckName, setNewDeckName] = useState('');
+  const [renamingDeckId, setRenamingDeckId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [settingsDeckId, setSettingsDeckId] = useState<string | null>(null);
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadDecks();
+  }, []);
+
+  const loadDecks = async () => {
+    try {
+      const allWords = await DataManager.loadWords();
+      const allProgress = ProgressTracker.getUserProgress();
+      const progressById = new Map(allProgress.map(p => [p.wordId, p]));
+      const loadedDecks = DeckManager.getDecks();
+      const now = new Date();
+
+      const stats: Record<string, DeckStats> = {};
+      loadedDecks.forEach(deck => {
+        const deckWordIds = DeckManager.getDeckWords(deck, allWords).map(w => DataManager.getWordId(w));
+        const deckProgress = deckWordIds
+          .map(id => progressById.get(id))
+          .filter(p => p !== undefined);
+
+        stats[deck.id] = {
+          total: deckWordIds.length,
+          due: deckProgress.filter(p => p.nextReview <= now).length,
+          newCards: deckWordIds.length - deckProgress.length,
+          studied: deckProgress.length
+        };
+      });
+
+      setDecks(loadedDecks);
+      setDeckStats(stats);
+    } catch (error) {
+      console.error('Error loading decks:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runDeckAction = (action: () => void) => {
+    try {
+      action();
+      setError(null);
+      loadDecks();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Something went wrong');
+    }
+  };
+
+  const handleCreateDeck = (e: React.FormEvent) => {
+    e.preventDefault();
+    runDeckAction(() => {
+      DeckManager.createDeck(newDeckName);
+      setNewDeckName('');
+    });
+  };
+
+  const handleRename = (deckId: string) => {
+    runDeckAction(() => {
+      DeckManager.renameDeck(deckId, renameValue);
+      setRenamingDeckId(null);
+    });
+  };
+
+  const handleDelete = (deckId: string) => {
+    runDeckAction(() => {
+      DeckManager.deleteDeck(deckId);
+      setConfirmDeleteId(null);
+    });
+  };
+
+  const handleSettingChange = (deckId: string, changes: Partial<Deck>) => {
+    runDeckAction(() => {
+      DeckManager.updateDeck(deckId, changes);
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="decks-loading">
+        <div className="loading-spinner"></div>
+        <p>Loading decks...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="decks">
+      <div className="decks-header">
+        <button className="back-button" onClick={() => navigate('/')}>
+          ← Back to Dashboard
+        </button>
+        <h1>
+          <span className="icon">🗂️</span>
+          My Decks
+        </h1>
+        <p className="subtitle">
+          Group words into collections and study them on their own schedule
+        </p>
+      </div>
+
+      <form className="create-deck" onSubmit={handleCreateDeck}>
+        <input
+          type="text"
+          placeholder="New deck name, e.g. GRE Core or My Hard Words"
+          value={newDeckName}
+          onChange={(e) => setNewDeckName(e.target.value)}
+        />
+        <button type="submit" disabled={!newDeckName.trim()}>
+          ＋ Create Deck
+        </button>
+      </form>
+
+      {error && <p className="decks-error">{error}</p>}
+
+      {decks.length === 0 ? (
+        <div className="decks-empty">
+          <p>No decks yet. Create one above, then add words to it while browsing.</p>
+          <button className="browse-link" onClick={() => navigate('/browse')}>
+            📚 Browse Words
+          </button>
+        </div>
+      ) : (
+        <div className="decks-grid">
+          {decks.map(deck => {
+            const stats = deckStats[deck.id] || { total: 0, due: 0, newCards: 0, studied: 0 };
+
+            return (
+              <div key={deck.id} className="deck-card">
+                <div className="deck-card-header">
+                  {renamingDeckId === deck.id ? (
+                    <div className="deck-rename">
+                      <input
+                        type="text"
+                        value={renameValue}
+                        autoFocus
+                        onChange={(e) => setRenameValue(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') handleRename(deck.id);
+                          if (e.key === 'Escape') setRenamingDeckId(null);
+                        }}
+                      />
+                      <button onClick={() => handleRename(deck.id)}>Save</button>
+                      <button className="secondary" onClick={() => setRenamingDeckId(null)}>Cancel</button>
+                    </div>
+                  ) : (
+                    <h3>{deck.name}</h3>
+                  )}
+                  <div className="deck-menu">
+                    <button
+                      title="Rename"
+                      onClick={() => {
+                        setRenamingDeckId(deck.id);
+                        setRenameValue(deck.name);
+                      }}
+                    >
+                      ✎
+                    </button>
+                    <button
+                      title="Deck settings"
+                      onClick={() => setSettingsDeckId(settingsDeckId === deck.id ? null : deck.id)}
+                    >
+                      ⚙
+                    </button>
+                    <button title="Export" onClick={() => navigate(`/words/export?deck=${deck.id}`)}>
+                      ⇩
+                    </button>
+                    <button title="Delete" onClick={() => setConfirmDeleteId(deck.id)}>
+                      🗑
+                    </button>
+                  </div>
+                </div>
+
+                <div className="deck-stats">
+                  <span><strong>{stats.total}</strong> words</span>
+                  <span className="due"><strong>{stats.due}</strong> due</span>
+                  <span className="new"><strong>{stats.newCards}</strong> new</span>
+                </div>
+
+                {settingsDeckId === deck.id && (
+                  <div className="deck-settings">
+                    <label>
+                      New cards per session
+                      <input
+                        type="number"
+                        min="1"
+                        max="100"
+                        value={deck.newCardLimit}
+                        onChange={(e) => {
+                          const value = parseInt(e.target.value);
+                          if (value > 0) handleSettingChange(deck.id, { newCardLimit: value });
+                        }}
+                      />
+                    </label>
+                    <label>
+                      Due cards per session
+                      <input
+                        type="number"
+                        min="1"
+                        max="500"
+                        placeholder="All"
+                        value={deck.reviewLimit ?? ''}
+                        onChange={(e) => {
+                          const value = parseInt(e.target.value);
+                          handleSettingChange(deck.id, { reviewLimit: value > 0 ? value : undefined });
+                        }}
+                      />
+                    </label>
+                    <label>
+                      Maximum interval (days)
+                      <input
+                        type="number"
+                        min="1"
+                        max="36500"
+                        placeholder="None"
+                        value={deck.maxInterval ?? ''}
+                        onChange={(e) => {
+                          const value = parseInt(e.target.value);
+                          handleSettingChange(deck.id, { maxInterval: value > 0 ? value : undefined });
+                        }}
+                      />
+                    </label>
+                  </div>
+                )}
+
+                {confirmDeleteId === deck.id && (
+                  <div className="deck-confirm">
+                    <p>Delete "{deck.name}"? Your word progress is kept.</p>
+                    <button className="danger" onClick={() => handleDelete(deck.id)}>Delete</button>
+                    <button className="secondary" onClick={() => setConfirmDeleteId(null)}>Cancel</button>
+                  </div>
+                )}
+
+                <div className="deck-actions">
+                  <button
+                    className="study-due"
+                    disabled={stats.due === 0}
+                    onClick={() => navigate(`/decks/${deck.id}/due`)}
+                  >
+                    ◉ Due
+                  </button>
+                  <button
+                    className="study-new"
+                    disabled={stats.newCards === 0}
+                    onClick={() => navigate(`/decks/${deck.id}/new`)}
+                  >
+                    ★ New
+                  </button>
+                  <button
+                    className="study-weak"
+                    disabled={stats.studied === 0}
+                    onClick={() => navigate(`/decks/${deck.id}/weak`)}
+                  >
+                    ♦ Weak
+                  </button>
+                  <button
+                    className="study-cram"
+                    disabled={deck.wordIds.length === 0}
+                    onClick={() => navigate(`/cram?deck=${deck.id}`)}
+                  >
+                    ⚡ Cram
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
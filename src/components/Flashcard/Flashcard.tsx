@@ -1,6 +1,9 @@
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import { useNavigate } from "react-router-dom";
+import { useSettings } from "../../contexts/SettingsContext";
+import { TestGrading, TypedAnswerGrade } from "../../services/TestGrading";
 import { Quality, WordRecord } from "../../types";
+import { diffCharacters } from "../../utils/fuzzyMatch";
 import "./Flashcard.css";
 
 interface FlashcardProps {
@@ -37,13 +40,40 @@ export const Flashcard: React.FC<FlashcardProps> = ({
   totalSeen = 0,
 }) => {
   const [isFlipped, setIsFlipped] = useState(false);
+  const [typedAnswer, setTypedAnswer] = useState("");
+  const [grade, setGrade] = useState<TypedAnswerGrade | null>(null);
   const navigate = useNavigate();
+  const { showMeaningFirst, autoRevealTime, autoAdvanceTime, answerMode } = useSettings().flashcardSettings;
+  const typed = answerMode === "typed";
 
   // Reset flip state when word changes
   useEffect(() => {
     setIsFlipped(false);
+    setTypedAnswer("");
+    setGrade(null);
   }, [word]);
 
+  // Auto reveal: show the answer once the card has been up for autoRevealTime
+  // seconds. Not in typed mode, where the answer stays hidden until it's checked.
+  useEffect(() => {
+    if (typed || autoRevealTime <= 0 || isFlipped) return;
+    const timer = setTimeout(() => setIsFlipped(true), autoRevealTime * 1000);
+    return () => clearTimeout(timer);
+  }, [word, isFlipped, autoRevealTime, typed]);
+
+  // Auto advance: once the answer is showing, move on after autoAdvanceTime
+  // seconds. A typed answer takes its suggested rating; a card left unrated
+  // counts as Hard, since the user never confirmed remembering it.
+  const autoAdvanceRef = useRef<() => void>(() => {});
+  useEffect(() => {
+    autoAdvanceRef.current = () => handleQualitySelect(grade ? grade.quality : 1);
+  });
+  useEffect(() => {
+    if (autoAdvanceTime <= 0 || !isFlipped) return;
+    const timer = setTimeout(() => autoAdvanceRef.current(), autoAdvanceTime * 1000);
+    return () => clearTimeout(timer);
+  }, [word, isFlipped, autoAdvanceTime]);
+
   const handleFlip = () => {
     setIsFlipped(!isFlipped);
   };
@@ -51,6 +81,18 @@ export const Flashcard: React.FC<FlashcardProps> = ({
   const handleQualitySelect = (quality: Quality) => {
     onQualitySelect(quality);
     setIsFlipped(false);
+    setTypedAnswer("");
+    setGrade(null);
+  };
+
+  // The meaning is typed from the word, or the word from the meaning
+  const handleCheckAnswer = (e: React.FormEvent) => {
+    e.preventDefault();
+    const answers = showMeaningFirst
+      ? [word.word]
+      : TestGrading.getAcceptedAnswers(word.meaning);
+    setGrade(TestGrading.gradeTypedAnswer(typedAnswer, answers));
+    setIsFlipped(true);
   };
 
   const qualityButtons = [
@@ -80,6 +122,19 @@ export const Flashcard: React.FC<FlashcardProps> = ({
     },
   ];
 
+  const suggested = grade
+    ? qualityButtons.find(({ quality }) => quality === grade.quality)
+    : undefined;
+
+  const getTypedFeedback = (result: TypedAnswerGrade) => {
+    if (!typedAnswer.trim()) return `The answer is "${result.answer}"`;
+    if (result.score === 1) return "✓ Exactly right";
+    if (result.score === 0.5) {
+      return `Close - ${result.distance} ${result.distance === 1 ? "letter" : "letters"} off`;
+    }
+    return `✗ Not quite - the answer is "${result.answer}"`;
+  };
+
   const getMasteryColor = (level: number) => {
     if (level >= 80) return "#2ed573"; // Green - Excellent
     if (level >= 60) return "#1e90ff"; // Blue - Good
@@ -125,14 +180,22 @@ export const Flashcard: React.FC<FlashcardProps> = ({
           <div className="flashcard-front">
             <div className="word-display">
               <div className="word-box">
-                <h1 className="word">{word.word}</h1>
+                {showMeaningFirst ? (
+                  <h1 className="word meaning-prompt">{word.meaning}</h1>
+                ) : (
+                  <h1 className="word">{word.word}</h1>
+                )}
               </div>
             </div>
 
             {showMeaning && (
               <div className="meaning-section">
                 <div className="meaning">
-                  <strong>Meaning:</strong> {word.meaning}
+                  {showMeaningFirst ? (
+                    <><strong>Word:</strong> {word.word}</>
+                  ) : (
+                    <><strong>Meaning:</strong> {word.meaning}</>
+                  )}
                 </div>
               </div>
             )}
@@ -163,13 +226,33 @@ export const Flashcard: React.FC<FlashcardProps> = ({
       </div>
 
       <div className="flashcard-controls">
-        {!isFlipped ? (
+        {!isFlipped && typed ? (
+          <form className="typed-answer-form" onSubmit={handleCheckAnswer}>
+            <input
+              className="typed-answer-input"
+              type="text"
+              value={typedAnswer}
+              onChange={(e) => setTypedAnswer(e.target.value)}
+              placeholder={showMeaningFirst ? "Type the English word" : "Type the Bangla meaning"}
+              lang={showMeaningFirst ? "en" : "bn"}
+              autoComplete="off"
+              autoCapitalize="off"
+              spellCheck={false}
+              autoFocus
+            />
+            <button type="submit" className="control-button flip-card-button">
+              {typedAnswer.trim() ? "Check Answer" : "I Don't Know"}
+            </button>
+          </form>
+        ) : !isFlipped ? (
           <div className="front-controls">
             <button
               className="control-button show-meaning-button"
               onClick={() => setShowMeaning(!showMeaning)}
             >
-              {showMeaning ? "Hide Meaning" : "Show Meaning"}
+              {showMeaningFirst
+                ? showMeaning ? "Hide Word" : "Show Word"
+                : showMeaning ? "Hide Meaning" : "Show Meaning"}
             </button>
             <button
               className="control-button flip-card-button"
@@ -180,22 +263,58 @@ export const Flashcard: React.FC<FlashcardProps> = ({
           </div>
         ) : (
           <div className="back-controls">
-            <button
-              className="control-button flip-card-button"
-              onClick={handleFlip}
-            >
-              Flip Back
-            </button>
+            {grade ? (
+              <div className={`typed-answer-result ${grade.quality >= 3 ? "correct" : "incorrect"}`}>
+                <p className="typed-answer-feedback">{getTypedFeedback(grade)}</p>
+                {typedAnswer.trim() && grade.score < 1 && (
+                  <div className="typed-answer-diff" title="Your answer against the correct spelling">
+                    {diffCharacters(typedAnswer, grade.answer).map((part, index) => {
+                      switch (part.type) {
+                        case "equal":
+                          return <span key={index}>{part.expected}</span>;
+                        case "replace":
+                          return (
+                            <span key={index}>
+                              <del>{part.typed}</del>
+                              <ins>{part.expected}</ins>
+                            </span>
+                          );
+                        case "extra":
+                          return <del key={index}>{part.typed}</del>;
+                        case "missing":
+                          return <ins key={index}>{part.expected}</ins>;
+                      }
+                    })}
+                  </div>
+                )}
+              </div>
+            ) : (
+              <button
+                className="control-button flip-card-button"
+                onClick={handleFlip}
+              >
+                Flip Back
+              </button>
+            )}
             <div className="quality-buttons">
               <p className="quality-prompt">
-                How well did you remember this word?
+                {suggested
+                  ? `Suggested: ${suggested.label} - pick another rating to override`
+                  : "How well did you remember this word?"}
               </p>
+              {autoAdvanceTime > 0 && (
+                <p className="auto-advance-hint">
+                  Moving on in {autoAdvanceTime}s as {suggested ? suggested.label : "Hard"} unless you pick a rating
+                </p>
+              )}
               <div className="quality-grid">
                 {qualityButtons.map(
                   ({ quality, label, color, description }) => (
                     <button
                       key={quality}
-                      className="quality-button"
+                      className={`quality-button ${
+                        suggested?.quality === quality ? "suggested" : ""
+                      }`}
                       style={{ backgroundColor: color }}
                       onClick={() => handleQualitySelect(quality)}
                       title={description}
@@ -1,9 +1,14 @@
 import React, { useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { DataManager } from "../../data/DataManager";
+import { DeckManager } from "../../data/DeckManager";
+import { useSettings } from "../../contexts/SettingsContext";
+import { GameificationService } from "../../services/GameificationService";
 import { ProgressTracker } from "../../services/ProgressTracker";
-import { SM2Algorithm } from "../../services/SRS";
+import { SchedulerService } from "../../services/Scheduler";
+import { StudyEvents } from "../../services/StudyEvents";
 import {
+  Deck,
   FlashcardSession as FlashcardSessionType,
   Quality,
   WordRecord,
@@ -14,18 +19,29 @@ import "./FlashcardSession.css";
 interface FlashcardSessionProps {
   sessionType?: "due" | "new" | "weak" | "random";
   maxCards?: number;
+  timeLimit?: number; // seconds; the session ends when the countdown runs out
+  streakMode?: boolean; // the session ends on the first missed card
+  deckId?: string;
   onSessionEnd?: (stats: any) => void;
 }
 
+type SessionEndReason = "complete" | "time" | "miss";
+
 export const FlashcardSession: React.FC<FlashcardSessionProps> = ({
   sessionType = "due",
-  maxCards = 20,
+  maxCards: maxCardsProp,
+  timeLimit,
+  streakMode = false,
+  deckId,
   onSessionEnd,
 }) => {
   const navigate = useNavigate();
+  const { maxCardsPerSession, practiceMode } = useSettings().flashcardSettings;
+  const maxCards = maxCardsProp ?? maxCardsPerSession;
   const [words, setWords] = useState<WordRecord[]>([]);
   const [currentIndex, setCurrentIndex] = useState(0);
   const [session, setSession] = useState<FlashcardSessionType | null>(null);
+  const [deck, setDeck] = useState<Deck | null>(null);
   const [loading, setLoading] = useState(true);
   const [sessionStats, setSessionStats] = useState({
     cardsStudied: 0,
@@ -34,38 +50,91 @@ export const FlashcardSession: React.FC<FlashcardSessionProps> = ({
     startTime: new Date(),
   });
   const [showMeaning, setShowMeaning] = useState(false);
+  const [timeLeft, setTimeLeft] = useState<number | null>(null); // ms, timed sessions only
+  const [endReason, setEndReason] = useState<SessionEndReason | null>(null);
+  const [runRecord, setRunRecord] = useState({ best: 0, isNew: false });
+  const finished = endReason !== null;
 
   useEffect(() => {
     initializeSession();
-  }, [sessionType, maxCards]);
+  }, [sessionType, maxCards, deckId, practiceMode, timeLimit, streakMode]);
+
+  // Countdown for timed sessions
+  useEffect(() => {
+    if (!timeLimit || !session || finished) return;
+
+    const timer = setInterval(() => {
+      const elapsed = Date.now() - session.startTime.getTime();
+      setTimeLeft(Math.max(0, timeLimit * 1000 - elapsed));
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [timeLimit, session, finished]);
+
+  // Checked after render so the cards rated so far are included
+  useEffect(() => {
+    if (timeLeft === 0 && !finished) {
+      endSession(sessionStats, "time");
+    }
+  }, [timeLeft]);
+
+  // Spaced keeps the scheduler's order (most overdue first)
+  const orderForPracticeMode = (
+    sessionWords: WordRecord[],
+    allWords: WordRecord[]
+  ): WordRecord[] => {
+    switch (practiceMode) {
+      case "random":
+        return [...sessionWords].sort(() => Math.random() - 0.5);
+      case "sequential":
+        return [...sessionWords].sort(
+          (a, b) => allWords.indexOf(a) - allWords.indexOf(b)
+        );
+      case "spaced":
+      default:
+        return sessionWords;
+    }
+  };
 
   const initializeSession = async () => {
     setLoading(true);
 
     try {
-      const allWords = await DataManager.loadWords();
-      const allProgress = ProgressTracker.getUserProgress();
+      const loadedWords = await DataManager.loadWords();
+      const sessionDeck = deckId ? DeckManager.getDeck(deckId) || null : null;
+      setDeck(sessionDeck);
+
+      // Deck sessions only draw from the deck's words; progress is still shared per word
+      const allWords = sessionDeck
+        ? DeckManager.getDeckWords(sessionDeck, loadedWords)
+        : loadedWords;
+      const scopeIds = new Set(allWords.map((w) => DataManager.getWordId(w)));
+      const allProgress = ProgressTracker.getUserProgress().filter(
+        (p) => !sessionDeck || scopeIds.has(p.wordId)
+      );
+      const getRandomWords = (count: number) =>
+        sessionDeck
+          ? [...allWords].sort(() => Math.random() - 0.5).slice(0, count)
+          : DataManager.getRandomWords(count);
       let sessionWords: WordRecord[] = [];
 
       switch (sessionType) {
         case "due":
-          const dueProgress = SM2Algorithm.getDueWords(allProgress);
+          const dueProgress = SchedulerService.getDueWords(allProgress);
           sessionWords = dueProgress
             .map((progress) =>
               allWords.find((w) => (w as any).id === progress.wordId)
             )
             .filter((w): w is WordRecord => w !== undefined)
-            .slice(0, maxCards);
+            .slice(0, sessionDeck?.reviewLimit ? Math.min(maxCards, sessionDeck.reviewLimit) : maxCards);
           break;
 
         case "new":
-          const allWordIds = allWords.map(
-            (w) => (w as any).id || w.word.toLowerCase()
-          );
-          const newWordIds = SM2Algorithm.getNewWords(
+          const allWordIds = allWords.map((w) => DataManager.getWordId(w));
+          const newWordIds = SchedulerService.getNewWords(
             allProgress,
             allWordIds,
-            maxCards
+            sessionDeck ? Math.min(maxCards, sessionDeck.newCardLimit) : maxCards
           );
           sessionWords = newWordIds
             .map((id) =>
@@ -77,7 +146,11 @@ export const FlashcardSession: React.FC<FlashcardSessionProps> = ({
           break;
 
         case "weak":
-          const weakProgress = ProgressTracker.getWeakWords(maxCards);
+          const weakProgress = sessionDeck
+            ? ProgressTracker.getWeakWords(Infinity)
+                .filter((p) => scopeIds.has(p.wordId))
+                .slice(0, maxCards)
+            : ProgressTracker.getWeakWords(maxCards);
           sessionWords = weakProgress
             .map((progress) =>
               allWords.find((w) => (w as any).id === progress.wordId)
@@ -87,15 +160,15 @@ export const FlashcardSession: React.FC<FlashcardSessionProps> = ({
 
         case "random":
         default:
-          sessionWords = DataManager.getRandomWords(maxCards);
+          sessionWords = getRandomWords(maxCards);
           break;
       }
 
       if (sessionWords.length === 0) {
-        sessionWords = DataManager.getRandomWords(Math.min(maxCards, 10));
+        sessionWords = getRandomWords(Math.min(maxCards, 10));
       }
 
-      setWords(sessionWords);
+      setWords(orderForPracticeMode(sessionWords, allWords));
 
       const newSession: FlashcardSessionType = {
         id: `session-${Date.now()}`,
@@ -106,6 +179,9 @@ export const FlashcardSession: React.FC<FlashcardSessionProps> = ({
       };
 
       setSession(newSession);
+      setCurrentIndex(0);
+      setEndReason(null);
+      setTimeLeft(timeLimit ? timeLimit * 1000 : null);
       setSessionStats({
         cardsStudied: 0,
         correctAnswers: 0,
@@ -123,21 +199,11 @@ export const FlashcardSession: React.FC<FlashcardSessionProps> = ({
     if (!words[currentIndex] || !session) return;
 
     const currentWord = words[currentIndex];
-    const wordId = (currentWord as any).id || currentWord.word.toLowerCase();
+    const wordId = DataManager.getWordId(currentWord);
     const cardStartTime = sessionStats.startTime;
     const timeSpent = Date.now() - cardStartTime.getTime();
 
-    let userProgress = ProgressTracker.getProgressForWord(wordId);
-
-    if (!userProgress) {
-      userProgress = SM2Algorithm.initializeUserProgress(wordId);
-    }
-
-    const updatedProgress = SM2Algorithm.updateUserProgress(
-      userProgress,
-      quality
-    );
-    ProgressTracker.updateWordProgress(updatedProgress);
+    SchedulerService.reviewWord(wordId, quality, deck?.maxInterval);
 
     const testResult = {
       testType: "flashcard" as const,
@@ -149,6 +215,7 @@ export const FlashcardSession: React.FC<FlashcardSessionProps> = ({
     };
 
     ProgressTracker.saveTestResult(testResult);
+    StudyEvents.emit({ type: "card-reviewed", result: testResult, deckId });
 
     const newStats = {
       ...sessionStats,
@@ -167,23 +234,58 @@ export const FlashcardSession: React.FC<FlashcardSessionProps> = ({
       averageTime: newStats.totalTime / newStats.cardsStudied,
     };
 
-    if (currentIndex === words.length - 1) {
-      updatedSession.endTime = new Date();
-      ProgressTracker.saveFlashcardSession(updatedSession);
-
-      if (onSessionEnd) {
-        onSessionEnd({
-          ...newStats,
-          accuracy: newStats.correctAnswers / newStats.cardsStudied,
-          totalCards: words.length,
-        });
-      }
+    const missed = streakMode && quality < 3;
+    if (currentIndex === words.length - 1 || missed) {
+      endSession(newStats, missed ? "miss" : "complete");
     } else {
       ProgressTracker.saveFlashcardSession(updatedSession);
       setCurrentIndex(currentIndex + 1);
     }
   };
 
+  const endSession = (
+    stats: typeof sessionStats,
+    reason: SessionEndReason
+  ) => {
+    if (!session) return;
+
+    // A timed session can run out before any card was rated; nothing to save then
+    if (stats.cardsStudied > 0) {
+      const endedSession: FlashcardSessionType = {
+        ...session,
+        endTime: new Date(),
+        cardsStudied: stats.cardsStudied,
+        correctAnswers: stats.correctAnswers,
+        averageTime: stats.totalTime / stats.cardsStudied,
+      };
+      ProgressTracker.saveFlashcardSession(endedSession);
+      StudyEvents.emit({
+        type: "session-ended",
+        session: endedSession,
+        sessionType,
+        deckId,
+      });
+    }
+
+    // Streak mode stops at the first miss, so every correct answer is part of the run
+    if (streakMode) {
+      const isNew = GameificationService.recordRun(stats.correctAnswers);
+      setRunRecord({ best: GameificationService.getBestRun(), isNew });
+    }
+
+    setEndReason(reason);
+    setCurrentIndex(words.length);
+
+    if (onSessionEnd) {
+      onSessionEnd({
+        ...stats,
+        accuracy: stats.cardsStudied > 0 ? stats.correctAnswers / stats.cardsStudied : 0,
+        totalCards: words.length,
+        endReason: reason,
+      });
+    }
+  };
+
   const handleNext = () => {
     if (currentIndex < words.length - 1) {
       setCurrentIndex(currentIndex + 1);
@@ -230,14 +332,26 @@ export const FlashcardSession: React.FC<FlashcardSessionProps> = ({
     );
   }
 
-  if (currentIndex >= words.length) {
-    const accuracy = sessionStats.correctAnswers / sessionStats.cardsStudied;
-    const avgTimePerCard =
-      sessionStats.totalTime / sessionStats.cardsStudied / 1000;
+  if (finished) {
+    const studied = sessionStats.cardsStudied;
+    const accuracy = studied > 0 ? sessionStats.correctAnswers / studied : 0;
+    const avgTimePerCard = studied > 0 ? sessionStats.totalTime / studied / 1000 : 0;
 
     return (
       <div className="flashcard-session-complete">
-        <h2>🎉 Session Complete!</h2>
+        <h2>
+          {endReason === "time" && "⏰ Time's Up!"}
+          {endReason === "miss" && "🔥 Streak Over!"}
+          {endReason === "complete" && "🎉 Session Complete!"}
+        </h2>
+        {streakMode && (
+          <p className="session-run">
+            {sessionStats.correctAnswers} in a row
+            {runRecord.isNew
+              ? " - a new personal best!"
+              : ` - your best is ${runRecord.best}`}
+          </p>
+        )}
         <div className="session-summary">
           <div className="stat">
             <span className="stat-value">{sessionStats.cardsStudied}</span>
@@ -268,7 +382,7 @@ export const FlashcardSession: React.FC<FlashcardSessionProps> = ({
   }
 
   // Get current word progress data
-  const currentWordId = (words[currentIndex] as any).id || words[currentIndex].word.toLowerCase();
+  const currentWordId = DataManager.getWordId(words[currentIndex]);
   const currentProgress = ProgressTracker.getProgressForWord(currentWordId);
 
   return (
@@ -284,7 +398,23 @@ export const FlashcardSession: React.FC<FlashcardSessionProps> = ({
           {sessionType === "new" && "New Cards"}
           {sessionType === "weak" && "Practice Weak Words"}
           {sessionType === "random" && "Random Review"}
+          {deck && <span className="session-deck-name">{deck.name}</span>}
         </h2>
+        {(timeLeft !== null || streakMode) && (
+          <div className="session-challenge">
+            {timeLeft !== null && (
+              <span className={`session-timer ${timeLeft <= 30000 ? "low" : ""}`}>
+                ◔ {Math.floor(timeLeft / 60000)}:
+                {String(Math.floor((timeLeft % 60000) / 1000)).padStart(2, "0")}
+              </span>
+            )}
+            {streakMode && (
+              <span className="session-streak">
+                🔥 {sessionStats.correctAnswers} in a row
+              </span>
+            )}
+          </div>
+        )}
         <div className="session-progress">
           <div className="progress-bar">
             <div
@@ -0,0 +1,21 @@
+import React, { useEffect, useState } from 'react';
+import { Achievement, GameificationService } from '../../services/GameificationService';
+import { AchievementNotification } from './AchievementNotification';
+
+// Shows each newly unlocked achievement in turn, wherever the user is studying
+export const AchievementNotifications: React.FC = () => {
+  const [queue, setQueue] = useState<Achievement[]>([]);
+
+  useEffect(() => GameificationService.subscribe(update => {
+    if (update.unlocked.length > 0) {
+      setQueue(prev => [...prev, ...update.unlocked]);
+    }
+  }), []);
+
+  return (
+    <AchievementNotification
+      achievement={queue[0] || null}
+      onClose={() => setQueue(prev => prev.slice(1))}
+    />
+  );
+};
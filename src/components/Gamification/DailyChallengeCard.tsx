@@ -1,10 +1,10 @@
 import React from 'react';
-import { DailyChallenge } from '../../services/GameificationService';
+import { ChallengeStep, DailyChallenge } from '../../services/ChallengeGenerator';
 import './DailyChallengeCard.css';
 
 interface DailyChallengeCardProps {
   challenge: DailyChallenge | null;
-  onAccept?: () => void;
+  onAccept?: (step: ChallengeStep) => void;
 }
 
 export const DailyChallengeCard: React.FC<DailyChallengeCardProps> = ({
@@ -21,27 +21,53 @@ export const DailyChallengeCard: React.FC<DailyChallengeCardProps> = ({
     );
   }
 
-  const progressPercentage = Math.min((challenge.progress / challenge.target) * 100, 100);
+  const currentStep = challenge.steps.find(step => !step.completed) || null;
+  const progressPercentage = currentStep
+    ? Math.min((currentStep.progress / currentStep.target) * 100, 100)
+    : 100;
 
-  const getChallengeColor = (type: string): string => {
+  const getStepColor = (type: ChallengeStep['type']): string => {
     switch (type) {
-      case 'flashcard': return '#3498db';
-      case 'test': return '#9b59b6';
+      case 'review-due':
+      case 'flashcards': return '#3498db';
+      case 'tests':
+      case 'test-types':
+      case 'test-score': return '#9b59b6';
       case 'accuracy': return '#e67e22';
-      case 'streak': return '#e74c3c';
+      case 'weak-words':
+      case 'goal-days': return '#e74c3c';
       default: return '#34495e';
     }
   };
 
+  const getStepTip = (step: ChallengeStep): string => {
+    switch (step.type) {
+      case 'review-due': return '💡 Study your due cards';
+      case 'weak-words': return '💡 Practice weak words or take tests with them';
+      case 'flashcards': return '💡 Review flashcards to make progress';
+      case 'tests':
+      case 'test-types': return '💡 Complete tests to make progress';
+      case 'test-score': return '💡 Take the test again until you reach the score';
+      case 'accuracy': return '💡 Focus on accuracy in your practice';
+      case 'goal-days': return '💡 Reach your daily goal to make progress';
+      default: return '';
+    }
+  };
+
+  const formatValue = (step: ChallengeStep, value: number) => `${value}${step.unit || ''}`;
+
   return (
-    <div className={`daily-challenge-card ${challenge.completed ? 'completed' : ''}`}>
+    <div className={`daily-challenge-card ${challenge.tier} ${challenge.completed ? 'completed' : ''}`}>
       <div className="challenge-header">
-        <div className="challenge-icon" style={{ color: getChallengeColor(challenge.type) }}>
+        <div className="challenge-icon">
           {challenge.icon}
         </div>
         <div className="challenge-info">
+          <span className="challenge-tier">
+            {challenge.tier === 'weekly' ? 'Weekly Challenge' : 'Daily Challenge'}
+          </span>
           <h3>{challenge.title}</h3>
-          <p>{challenge.description}</p>
+          {challenge.steps.length === 1 && <p>{challenge.description}</p>}
         </div>
         <div className="challenge-reward">
           <span className="reward-amount">+{challenge.reward}</span>
@@ -49,24 +75,40 @@ export const DailyChallengeCard: React.FC<DailyChallengeCardProps> = ({
         </div>
       </div>
 
-      <div className="challenge-progress">
-        <div className="progress-bar">
-          <div 
-            className="progress-fill"
-            style={{ 
-              width: `${progressPercentage}%`,
-              backgroundColor: getChallengeColor(challenge.type)
-            }}
-          />
-        </div>
-        <div className="progress-text">
-          <span className="current">{challenge.progress}</span>
-          <span className="separator">/</span>
-          <span className="target">{challenge.target}</span>
+      {challenge.steps.length > 1 && (
+        <ol className="challenge-steps">
+          {challenge.steps.map((step, index) => (
+            <li
+              key={index}
+              className={`challenge-step ${step.completed ? 'done' : step === currentStep ? 'current' : ''}`}
+            >
+              <span className="step-marker">{step.completed ? '✓' : index + 1}</span>
+              <span className="step-description">{step.description}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {currentStep && (
+        <div className="challenge-progress">
+          <div className="progress-bar">
+            <div
+              className="progress-fill"
+              style={{
+                width: `${progressPercentage}%`,
+                backgroundColor: getStepColor(currentStep.type)
+              }}
+            />
+          </div>
+          <div className="progress-text">
+            <span className="current">{formatValue(currentStep, currentStep.progress)}</span>
+            <span className="separator">/</span>
+            <span className="target">{formatValue(currentStep, currentStep.target)}</span>
+          </div>
         </div>
-      </div>
+      )}
 
-      {challenge.completed ? (
+      {challenge.completed || !currentStep ? (
         <div className="completed-indicator">
           <span className="completed-icon">✅</span>
           <span className="completed-text">Challenge Complete!</span>
@@ -75,22 +117,19 @@ export const DailyChallengeCard: React.FC<DailyChallengeCardProps> = ({
       ) : (
         <div className="challenge-actions">
           {onAccept && (
-            <button 
+            <button
               className="accept-button"
-              onClick={onAccept}
-              style={{ backgroundColor: getChallengeColor(challenge.type) }}
+              onClick={() => onAccept(currentStep)}
+              style={{ backgroundColor: getStepColor(currentStep.type) }}
             >
-              Start Challenge
+              {challenge.steps.some(step => step.completed) ? 'Continue Challenge' : 'Start Challenge'}
             </button>
           )}
           <div className="challenge-tip">
-            {challenge.type === 'flashcard' && "💡 Review flashcards to make progress"}
-            {challenge.type === 'test' && "💡 Complete any test to make progress"}
-            {challenge.type === 'accuracy' && "💡 Focus on accuracy in your practice"}
-            {challenge.type === 'streak' && "💡 Keep your daily learning streak alive"}
+            {getStepTip(currentStep)}
           </div>
         </div>
       )}
     </div>
   );
-};
\ No newline at end of file
+};
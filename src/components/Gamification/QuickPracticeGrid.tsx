@@ -1,10 +1,11 @@
 import React from 'react';
 import { useNavigate } from 'react-router-dom';
 import { GameificationService } from '../../services/GameificationService';
+import { QuickPracticeMode, SessionConfig } from '../../services/SessionConfig';
 import './QuickPracticeGrid.css';
 
 interface QuickPracticeGridProps {
-  onModeSelect?: (mode: any) => void;
+  onModeSelect?: (mode: QuickPracticeMode) => void;
 }
 
 export const QuickPracticeGrid: React.FC<QuickPracticeGridProps> = ({
@@ -12,21 +13,14 @@ export const QuickPracticeGrid: React.FC<QuickPracticeGridProps> = ({
 }) => {
   const navigate = useNavigate();
   const modes = GameificationService.getQuickPracticeModes();
+  const bestRun = GameificationService.getBestRun();
 
-  const handleModeClick = (mode: any) => {
+  const handleModeClick = (mode: QuickPracticeMode) => {
     if (onModeSelect) {
       onModeSelect(mode);
     } else {
-      // Navigate to the appropriate route based on mode type
-      if (mode.type === 'flashcard') {
-        if (mode.id === 'weak_words') {
-          navigate('/flashcards/weak');
-        } else {
-          navigate('/flashcards/random');
-        }
-      } else if (mode.type === 'test') {
-        navigate('/tests');
-      }
+      // The mode's params travel in the URL to the session or test
+      navigate(SessionConfig.getPath(mode));
     }
   };
 
@@ -72,6 +66,11 @@ export const QuickPracticeGrid: React.FC<QuickPracticeGridProps> = ({
                     📝 {mode.params.questionCount} questions
                   </span>
                 )}
+                {mode.params.streakMode && (
+                  <span className="stat-item">
+                    🏅 Best run {bestRun}
+                  </span>
+                )}
               </div>
             </div>
             <div className="mode-arrow">→</div>
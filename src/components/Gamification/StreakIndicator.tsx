@@ -1,19 +1,17 @@
 import React from 'react';
-import { StreakData } from '../../services/GameificationService';
+import { StreakData } from '../../services/StreakService';
 import './StreakIndicator.css';
 
 interface StreakIndicatorProps {
   streak: StreakData;
   size?: 'small' | 'medium' | 'large';
   showFreezes?: boolean;
-  onFreezeStreak?: () => void;
 }
 
 export const StreakIndicator: React.FC<StreakIndicatorProps> = ({
   streak,
   size = 'medium',
-  showFreezes = false,
-  onFreezeStreak
+  showFreezes = false
 }) => {
   const getStreakColor = (current: number): string => {
     if (current >= 30) return '#e74c3c'; // Red hot
@@ -42,7 +40,11 @@ export const StreakIndicator: React.FC<StreakIndicatorProps> = ({
     return 'Start Your Journey';
   };
 
-  const canFreeze = streak.freezesUsed < streak.maxFreezes && !streak.frozen && streak.current > 0;
+  const getTodayStatus = (): string => {
+    if (streak.todayComplete) return "Today's goal reached ✓";
+    if (streak.restDay) return 'Weekend - studying today is optional';
+    return `${streak.todayProgress} / ${streak.dailyGoal} today`;
+  };
 
   return (
     <div className={`streak-indicator ${size} ${streak.frozen ? 'frozen' : ''}`}>
@@ -80,29 +82,29 @@ export const StreakIndicator: React.FC<StreakIndicatorProps> = ({
         </div>
       )}
       
+      <div className="streak-today">
+        {getTodayStatus()}
+      </div>
+
       {showFreezes && (
         <div className="freeze-section">
           <div className="freeze-info">
             <span className="freeze-icon">❄️</span>
             <span className="freeze-text">
-              Streak Freezes: {streak.maxFreezes - streak.freezesUsed} left
+              Streak Freezes: {streak.freezes} / {streak.maxFreezes}
             </span>
           </div>
-          
-          {canFreeze && onFreezeStreak && (
-            <button 
-              className="freeze-button"
-              onClick={onFreezeStreak}
-              title="Use a streak freeze to protect your streak for one day"
-            >
-              🛡️ Freeze Streak
-            </button>
-          )}
-          
+
+          <div className="freeze-next">
+            {streak.freezes < streak.maxFreezes
+              ? `Next freeze in ${streak.nextFreezeIn} goal ${streak.nextFreezeIn === 1 ? 'day' : 'days'}`
+              : 'Freezes full - a missed day is covered automatically'}
+          </div>
+
           {streak.frozen && (
             <div className="frozen-message">
               <span className="freeze-icon">❄️</span>
-              Your streak is protected today!
+              A freeze saved your streak
             </div>
           )}
         </div>
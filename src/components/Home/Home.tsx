@@ -1,12 +1,20 @@
 import React, { useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
+import { useSettings } from "../../contexts/SettingsContext";
 import { DataManager } from "../../data/DataManager";
+import { ChallengeStep } from "../../services/ChallengeGenerator";
+import { GameificationService } from "../../services/GameificationService";
 import { ProgressTracker } from "../../services/ProgressTracker";
-import { SM2Algorithm } from "../../services/SRS";
+import { SchedulerService } from "../../services/Scheduler";
+import { DailyChallengeCard } from "../Gamification/DailyChallengeCard";
+import { QuickPracticeGrid } from "../Gamification/QuickPracticeGrid";
+import { StreakIndicator } from "../Gamification/StreakIndicator";
 import "./Home.css";
 
 export const Home: React.FC = () => {
   const navigate = useNavigate();
+  const { flashcardSettings, studySettings } = useSettings();
+  const quickCards = Math.ceil(flashcardSettings.maxCardsPerSession / 2);
   const [stats, setStats] = useState({
     totalWordsStudied: 0,
     averageAccuracy: 0,
@@ -16,23 +24,34 @@ export const Home: React.FC = () => {
     newCards: 0,
   });
   const [loading, setLoading] = useState(true);
+  const [userStats, setUserStats] = useState(() => GameificationService.getUserStats());
 
   useEffect(() => {
     loadStats();
   }, []);
 
+  useEffect(
+    () => GameificationService.subscribe(() => setUserStats(GameificationService.getUserStats())),
+    []
+  );
+
+  // The streak depends on the daily goal and weekend settings
+  useEffect(() => {
+    setUserStats(GameificationService.getUserStats());
+  }, [studySettings]);
+
+  const { streak } = userStats;
+
   const loadStats = async () => {
     try {
       await DataManager.loadWords();
       const overallStats = ProgressTracker.getOverallStats();
       const allProgress = ProgressTracker.getUserProgress();
-      const dueWords = SM2Algorithm.getDueWords(allProgress);
+      const dueWords = SchedulerService.getDueWords(allProgress);
 
       const allWords = DataManager.getWords();
-      const allWordIds = allWords.map(
-        (w) => (w as any).id || w.word.toLowerCase()
-      );
-      const newWordIds = SM2Algorithm.getNewWords(allProgress, allWordIds);
+      const allWordIds = allWords.map((w) => DataManager.getWordId(w));
+      const newWordIds = SchedulerService.getNewWords(allProgress, allWordIds);
 
       setStats({
         ...overallStats,
@@ -76,8 +95,8 @@ export const Home: React.FC = () => {
     },
     {
       id: "quick",
-      title: "10 Quick Cards",
-      description: "Quick 10-card practice session",
+      title: `${quickCards} Quick Cards`,
+      description: `Quick ${quickCards}-card practice session`,
       count: null,
       color: "#27ae60",
       disabled: false,
@@ -103,6 +122,34 @@ export const Home: React.FC = () => {
     },
   ];
 
+  // XP earned since reaching the current level (level n starts at (n - 1)^2 * 100)
+  const levelStart = (userStats.level - 1) ** 2 * 100;
+  const levelProgress = Math.min(
+    100,
+    ((userStats.experience - levelStart) / (userStats.level ** 2 * 100 - levelStart)) * 100
+  );
+
+  // Where to work on a challenge step
+  const handleChallengeAccept = (step: ChallengeStep) => {
+    switch (step.type) {
+      case "review-due":
+        navigate("/flashcards/due");
+        break;
+      case "weak-words":
+        navigate("/flashcards/weak");
+        break;
+      case "tests":
+      case "test-score":
+        navigate(step.testType ? `/tests/${step.testType}` : "/tests");
+        break;
+      case "test-types":
+        navigate("/tests");
+        break;
+      default:
+        navigate(stats.dueCards > 0 ? "/flashcards/due" : "/flashcards/quick");
+    }
+  };
+
   const handleSessionStart = (sessionType: string) => {
     if (sessionType === 'browse') {
       navigate('/browse');
@@ -127,6 +174,52 @@ export const Home: React.FC = () => {
         <p>Master English vocabulary with spaced repetition</p>
       </div>
 
+      <div className="daily-goal">
+        <div className="daily-goal-header">
+          <span className="daily-goal-title">Today's Goal</span>
+          <span className="daily-goal-count">
+            {Math.min(streak.todayProgress, streak.dailyGoal)} / {streak.dailyGoal} cards
+          </span>
+        </div>
+        <div className="daily-goal-bar">
+          <div
+            className="daily-goal-fill"
+            style={{
+              width: `${Math.min(100, (streak.todayProgress / streak.dailyGoal) * 100)}%`,
+            }}
+          />
+        </div>
+        {streak.todayComplete && (
+          <p className="daily-goal-done">Goal reached - nice work!</p>
+        )}
+      </div>
+
+      <div className="home-gamification">
+        <div className="home-level-panel">
+          <StreakIndicator streak={streak} size="small" />
+          <div className="home-level">
+            <div className="home-level-header">
+              <span className="home-level-title">Level {userStats.level}</span>
+              <span className="home-level-xp">{userStats.experience} XP</span>
+            </div>
+            <div className="home-level-bar">
+              <div className="home-level-fill" style={{ width: `${levelProgress}%` }} />
+            </div>
+            <span className="home-level-next">
+              {userStats.experienceToNext} XP to level {userStats.level + 1}
+            </span>
+          </div>
+        </div>
+        <DailyChallengeCard
+          challenge={userStats.dailyChallenge}
+          onAccept={handleChallengeAccept}
+        />
+        <DailyChallengeCard
+          challenge={userStats.weeklyChallenge}
+          onAccept={handleChallengeAccept}
+        />
+      </div>
+
       <div className="session-options">
         <h2>Choose Your Study Session</h2>
         <div className="options-grid">
@@ -165,6 +258,8 @@ export const Home: React.FC = () => {
         </div>
       </div>
 
+      <QuickPracticeGrid />
+
       <div className="quick-actions">
         <h2>Quick Actions</h2>
         <div className="actions-grid">
@@ -175,6 +270,25 @@ export const Home: React.FC = () => {
             <span className="action-icon">▲</span>
             <span className="action-text">View Progress</span>
           </button>
+          <button
+            className="action-button"
+            onClick={() => navigate("/achievements")}
+          >
+            <span className="action-icon">★</span>
+            <span className="action-text">Achievements</span>
+          </button>
+          <button className="action-button" onClick={() => navigate("/decks")}>
+            <span className="action-icon">▤</span>
+            <span className="action-text">My Decks</span>
+          </button>
+          <button className="action-button" onClick={() => navigate("/words")}>
+            <span className="action-icon">✎</span>
+            <span className="action-text">Edit Words</span>
+          </button>
+          <button className="action-button" onClick={() => navigate("/cram")}>
+            <span className="action-icon">⚡</span>
+            <span className="action-text">Cram</span>
+          </button>
           <button className="action-button" onClick={() => navigate("/tests")}>
             <span className="action-icon">✓</span>
             <span className="action-text">Take Tests</span>
@@ -1,15 +1,18 @@
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { DataManager } from "../../data/DataManager";
 import { ProgressTracker } from "../../services/ProgressTracker";
+import { ReviewForecast } from "../../services/ReviewForecast";
+import { SchedulerService } from "../../services/Scheduler";
+import { StreakData, StreakService } from "../../services/StreakService";
+import { StreakIndicator } from "../Gamification/StreakIndicator";
+import { UserProgress } from "../../types";
 import "./ProgressDashboard.css";
 
 interface ProgressStats {
   totalWordsStudied: number;
   averageAccuracy: number;
   totalTimeSpent: number;
-  currentStreak: number;
-  bestStreak: number;
   masteredWords: number;
 }
 
@@ -18,6 +21,7 @@ interface TestTypeStats {
   sentence: { total: number; correct: number; avgTime: number };
   synonymAntonym: { total: number; correct: number; avgTime: number };
   flashcard: { total: number; correct: number; avgTime: number };
+  cram: { total: number; correct: number; avgTime: number };
 }
 
 interface DailyActivity {
@@ -30,13 +34,55 @@ interface DailyActivity {
 export const ProgressDashboard: React.FC = () => {
   const navigate = useNavigate();
   const [stats, setStats] = useState<ProgressStats | null>(null);
+  const [streak, setStreak] = useState<StreakData | null>(null);
   const [testTypeStats, setTestTypeStats] = useState<TestTypeStats | null>(
     null
   );
   const [dailyActivity, setDailyActivity] = useState<DailyActivity[]>([]);
   const [weakWords, setWeakWords] = useState<any[]>([]);
+  const [allProgress, setAllProgress] = useState<UserProgress[]>([]);
+  const [availableNewCards, setAvailableNewCards] = useState(0);
+  const [forecastDays, setForecastDays] = useState<30 | 90>(30);
+  const [newCardsPerDay, setNewCardsPerDay] = useState(0);
+  const [calendarMonthOffset, setCalendarMonthOffset] = useState(0);
   const [loading, setLoading] = useState(true);
 
+  const forecast = useMemo(
+    () =>
+      ReviewForecast.forecast(allProgress, {
+        days: forecastDays,
+        newCardsPerDay,
+        availableNewCards,
+        review: (progress, quality, reviewedAt) =>
+          SchedulerService.updateUserProgress(progress, quality, progress.scheduler || "sm2", reviewedAt),
+        newCard: SchedulerService.initializeUserProgress(
+          "forecast",
+          SchedulerService.getActiveSchedulerType()
+        ),
+      }),
+    [allProgress, forecastDays, newCardsPerDay, availableNewCards]
+  );
+  const forecastSummary = useMemo(
+    () => ReviewForecast.summarize(forecast, allProgress),
+    [forecast, allProgress]
+  );
+  const calendarMonth = useMemo(() => {
+    const date = new Date();
+    date.setDate(1);
+    date.setMonth(date.getMonth() + calendarMonthOffset);
+    return date;
+  }, [calendarMonthOffset]);
+  const calendarWeeks = useMemo(
+    () =>
+      ReviewForecast.getMonthCalendar(
+        forecast,
+        calendarMonth.getFullYear(),
+        calendarMonth.getMonth()
+      ),
+    [forecast, calendarMonth]
+  );
+  const maxCalendarOffset = forecastDays === 90 ? 3 : 1;
+
   useEffect(() => {
     loadProgressData();
   }, []);
@@ -47,6 +93,7 @@ export const ProgressDashboard: React.FC = () => {
       // Load overall stats
       const overallStats = ProgressTracker.getOverallStats();
       setStats(overallStats);
+      setStreak(StreakService.getStreak());
 
       // Load test type statistics
       const testResults = ProgressTracker.getTestResults();
@@ -55,13 +102,16 @@ export const ProgressDashboard: React.FC = () => {
         sentence: { total: 0, correct: 0, avgTime: 0 },
         synonymAntonym: { total: 0, correct: 0, avgTime: 0 },
         flashcard: { total: 0, correct: 0, avgTime: 0 },
+        cram: { total: 0, correct: 0, avgTime: 0 },
       };
 
       testResults.forEach((result) => {
-        const type =
-          result.testType === "synonym-antonym"
-            ? "synonymAntonym"
-            : (result.testType as keyof TestTypeStats);
+        // Cram answers are kept apart so they don't inflate flashcard accuracy
+        const type = result.cram
+          ? "cram"
+          : result.testType === "synonym-antonym"
+          ? "synonymAntonym"
+          : (result.testType as keyof TestTypeStats);
         if (testStats[type]) {
           testStats[type].total++;
           if (result.correct) testStats[type].correct++;
@@ -88,6 +138,9 @@ export const ProgressDashboard: React.FC = () => {
       // Load weak words
       const weak = ProgressTracker.getWeakWords(8);
       const allWords = await DataManager.loadWords();
+      const progress = ProgressTracker.getUserProgress();
+      setAllProgress(progress);
+      setAvailableNewCards(Math.max(0, allWords.length - progress.length));
       const weakWordsWithData = weak.map((w) => {
         const wordData = allWords.find(
           (word) =>
@@ -108,23 +161,16 @@ export const ProgressDashboard: React.FC = () => {
     }
   };
 
-  const getLocalDateString = (date: Date): string => {
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, "0");
-    const day = String(date.getDate()).padStart(2, "0");
-    return `${year}-${month}-${day}`;
-  };
-
+  // Same day boundaries as the streak
   const calculateDailyActivity = (testResults: any[]): DailyActivity[] => {
-    const last7Days = Array.from({ length: 7 }, (_, i) => {
-      const date = new Date();
-      date.setDate(date.getDate() - i);
-      return getLocalDateString(date);
-    }).reverse();
+    const today = StreakService.dayKey(new Date());
+    const last7Days = Array.from({ length: 7 }, (_, i) =>
+      StreakService.addDays(today, -i)
+    ).reverse();
 
     return last7Days.map((date) => {
       const dayResults = testResults.filter(
-        (result) => getLocalDateString(result.timestamp) === date
+        (result) => StreakService.dayKey(new Date(result.timestamp)) === date
       );
 
       const testsCompleted = dayResults.length;
@@ -262,7 +308,7 @@ export const ProgressDashboard: React.FC = () => {
           <div className="stat-icon">◈</div>
           <div className="stat-content">
             <div className="stat-value streak-fire">
-              {stats.currentStreak} <span style={{ fontSize: "1rem" }}>◈</span>
+              {streak?.current ?? 0} <span style={{ fontSize: "1rem" }}>◈</span>
             </div>
             <div className="stat-label">Current Streak</div>
           </div>
@@ -271,7 +317,7 @@ export const ProgressDashboard: React.FC = () => {
         <div className="stat-card">
           <div className="stat-icon">▲</div>
           <div className="stat-content">
-            <div className="stat-value">{stats.bestStreak}</div>
+            <div className="stat-value">{streak?.best ?? 0}</div>
             <div className="stat-label">Best Streak</div>
           </div>
         </div>
@@ -285,6 +331,18 @@ export const ProgressDashboard: React.FC = () => {
         </div>
       </div>
 
+      {/* Streak and freezes */}
+      {streak && (
+        <div className="streak-section">
+          <h2>Study Streak</h2>
+          <p className="streak-rules">
+            A day counts once you reach your daily goal of {streak.dailyGoal} answers.
+            Every {StreakService.FREEZE_EVERY_DAYS} goal days earn a freeze that covers a missed day.
+          </p>
+          <StreakIndicator streak={streak} size="large" showFreezes />
+        </div>
+      )}
+
       {/* Test Type Performance */}
       {testTypeStats && (
         <div className="test-performance">
@@ -311,6 +369,9 @@ export const ProgressDashboard: React.FC = () => {
                 title: "Flashcards",
                 stats: testTypeStats.flashcard,
               },
+              ...(testTypeStats.cram.total > 0
+                ? [{ key: "cram", title: "Cram", stats: testTypeStats.cram }]
+                : []),
             ].map(({ key, title, stats }) => {
               const accuracy =
                 stats.total > 0
@@ -365,11 +426,11 @@ export const ProgressDashboard: React.FC = () => {
                 1
               );
               const height = Math.max((day.testsCompleted / maxTests) * 100, 8);
-              const dayName = new Date(day.date).toLocaleDateString("en", {
+              const dayName = new Date(`${day.date}T00:00:00Z`).toLocaleDateString("en", {
                 weekday: "short",
+                timeZone: "UTC",
               });
-              const isToday =
-                new Date(day.date).toDateString() === new Date().toDateString();
+              const isToday = day.date === StreakService.dayKey(new Date());
 
               return (
                 <div key={index} className="chart-bar-container">
@@ -394,6 +455,130 @@ export const ProgressDashboard: React.FC = () => {
         </div>
       </div>
 
+      {/* Review Forecast */}
+      <div className="review-forecast">
+        <div className="forecast-header">
+          <h2>Review Forecast</h2>
+          <div className="forecast-range">
+            {([30, 90] as const).map((days) => (
+              <button
+                key={days}
+                className={`range-button ${forecastDays === days ? "active" : ""}`}
+                onClick={() => {
+                  setForecastDays(days);
+                  setCalendarMonthOffset(0);
+                }}
+              >
+                {days} days
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="forecast-summary">
+          <div className="forecast-stat">
+            <span className="forecast-stat-value">{forecastSummary.totalReviews}</span>
+            <span className="forecast-stat-label">Reviews</span>
+          </div>
+          <div className="forecast-stat">
+            <span className="forecast-stat-value">{forecastSummary.averagePerDay}</span>
+            <span className="forecast-stat-label">Per Day</span>
+          </div>
+          <div className="forecast-stat">
+            <span className="forecast-stat-value">{forecastSummary.peakDay?.total || 0}</span>
+            <span className="forecast-stat-label">Peak Day</span>
+          </div>
+          <div className="forecast-stat">
+            <span className="forecast-stat-value">{forecastSummary.overdue}</span>
+            <span className="forecast-stat-label">Overdue</span>
+          </div>
+        </div>
+
+        <div className="forecast-chart">
+          {forecast.map((day, index) => {
+            const maxTotal = Math.max(...forecast.map((d) => d.total), 1);
+            const reviewHeight = (day.reviews / maxTotal) * 100;
+            const newHeight = (day.newCardReviews / maxTotal) * 100;
+
+            return (
+              <div
+                key={day.date}
+                className="forecast-bar-container"
+                title={`${day.date}: ${day.reviews} reviews${
+                  day.newCardReviews > 0 ? ` + ${day.newCardReviews} from new cards` : ""
+                }`}
+              >
+                <div className="forecast-bar new" style={{ height: `${newHeight}%` }} />
+                <div
+                  className={`forecast-bar ${index === 0 ? "today" : ""}`}
+                  style={{ height: `${reviewHeight}%` }}
+                />
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="forecast-slider">
+          <label>
+            New cards per day
+            <span className="forecast-slider-value">{newCardsPerDay}</span>
+          </label>
+          <input
+            type="range"
+            min="0"
+            max="50"
+            step="5"
+            value={newCardsPerDay}
+            onChange={(e) => setNewCardsPerDay(parseInt(e.target.value))}
+          />
+          <p className="forecast-note">
+            Simulates learning {newCardsPerDay} new word{newCardsPerDay === 1 ? "" : "s"} a day
+            {availableNewCards < newCardsPerDay * forecastDays &&
+              newCardsPerDay > 0 &&
+              ` (${availableNewCards} left)`}
+            , assuming every review is answered correctly.
+          </p>
+        </div>
+
+        <div className="forecast-calendar">
+          <div className="calendar-header">
+            <button
+              className="calendar-nav"
+              onClick={() => setCalendarMonthOffset(calendarMonthOffset - 1)}
+              disabled={calendarMonthOffset === 0}
+            >
+              ◀
+            </button>
+            <span className="calendar-title">
+              {calendarMonth.toLocaleDateString("en", { month: "long", year: "numeric" })}
+            </span>
+            <button
+              className="calendar-nav"
+              onClick={() => setCalendarMonthOffset(calendarMonthOffset + 1)}
+              disabled={calendarMonthOffset >= maxCalendarOffset}
+            >
+              ▶
+            </button>
+          </div>
+          <div className="calendar-grid">
+            {["S", "M", "T", "W", "T", "F", "S"].map((day, index) => (
+              <div key={index} className="calendar-weekday">
+                {day}
+              </div>
+            ))}
+            {calendarWeeks.flat().map((cell) => (
+              <div
+                key={cell.date}
+                className={`calendar-cell level-${cell.intensity} ${cell.inMonth ? "" : "outside"}`}
+                title={`${cell.date}: ${cell.total} reviews`}
+              >
+                {cell.dayOfMonth}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
       {/* Action Buttons */}
       <div className="action-buttons">
         <button
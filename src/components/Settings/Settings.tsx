@@ -1,69 +1,73 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { ProgressTracker } from '../../services/ProgressTracker';
+import { GameificationService } from '../../services/GameificationService';
 import { GoogleAuth, GoogleUser } from '../../services/GoogleAuth';
-import { GoogleDriveSync, SyncStatus } from '../../services/GoogleDriveSync';
+import { SyncService, SyncStatus, SyncBackendConfig, SyncLogEntry } from '../../services/SyncService';
+import { SyncQueue, SyncQueueState } from '../../services/SyncQueue';
+import { SyncSnapshots, SnapshotInfo, SnapshotDiff } from '../../services/SyncSnapshots';
+import { StoreName } from '../../services/StorageBackend';
+import { SyncEncryption, SyncPassphraseError, SyncPassphraseRequiredError } from '../../services/SyncEncryption';
+import { SyncBackendType, WebDAVConfig } from '../../services/SyncBackend';
 import { SyncConflicts } from '../SyncConflicts/SyncConflicts';
+import { SchedulerService } from '../../services/Scheduler';
+import { ReviewLog } from '../../services/ReviewLog';
+import { ConflictResolution, ConflictHistoryEntry } from '../../services/ConflictResolution';
+import { TestGrading, TestGradeWeights, GradedTestType } from '../../services/TestGrading';
+import { DataSchemaError } from '../../services/DataSchema';
+import { WordIdMigration } from '../../data/WordIdMigration';
+import { DataManager } from '../../data/DataManager';
+import { SchedulerType } from '../../types';
+import { SettingsService, UserSettings } from '../../services/SettingsService';
+import { useSettings } from '../../contexts/SettingsContext';
 import './Settings.css';
 
-interface UserSettings {
-  flashcardSettings: {
-    maxCardsPerSession: number;
-    showMeaningFirst: boolean;
-    autoAdvanceTime: number; // seconds, 0 = manual
-    practiceMode: 'spaced' | 'random' | 'sequential';
-  };
-  testSettings: {
-    defaultTimeLimit: number; // minutes
-    questionCount: number;
-    showHints: boolean;
-    immediateSpanback: boolean;
-  };
-  appearanceSettings: {
-    fontSize: 'small' | 'medium' | 'large';
-    theme: 'light' | 'dark' | 'auto';
-    animations: boolean;
-  };
-  studySettings: {
-    dailyGoal: number; // cards per day
-    reminderTime: string; // HH:MM format
-    weekendStudy: boolean;
-  };
-}
-
-const DEFAULT_SETTINGS: UserSettings = {
-  flashcardSettings: {
-    maxCardsPerSession: 20,
-    showMeaningFirst: false,
-    autoAdvanceTime: 0,
-    practiceMode: 'spaced'
-  },
-  testSettings: {
-    defaultTimeLimit: 10,
-    questionCount: 10,
-    showHints: true,
-    immediateSpanback: true
-  },
-  appearanceSettings: {
-    fontSize: 'medium',
-    theme: 'light',
-    animations: true
-  },
-  studySettings: {
-    dailyGoal: 20,
-    reminderTime: '19:00',
-    weekendStudy: true
-  }
+const SYNC_DIRECTION_LABELS: Record<SyncLogEntry['direction'], string> = {
+  upload: '↑ Upload',
+  download: '↓ Download',
+  merge: '⇅ Merge'
+};
+
+const STORE_LABELS: Record<StoreName, string> = {
+  userProgress: 'Word progress',
+  testResults: 'Test results',
+  flashcardSessions: 'Flashcard sessions',
+  testSessions: 'Test sessions',
+  reviewEvents: 'Review history'
+};
+
+const CONFLICT_CHOICE_LABELS: Record<ConflictHistoryEntry['choice'], string> = {
+  local: 'Kept this device',
+  remote: 'Kept other device',
+  combine: 'Combined'
 };
 
 export const Settings: React.FC = () => {
   const navigate = useNavigate();
-  const [settings, setSettings] = useState<UserSettings>(DEFAULT_SETTINGS);
+  const settings = useSettings();
   const [activeTab, setActiveTab] = useState<'flashcard' | 'test' | 'appearance' | 'study' | 'data'>('flashcard');
   const [showConfirmDialog, setShowConfirmDialog] = useState<string | null>(null);
   const [googleUser, setGoogleUser] = useState<GoogleUser | null>(null);
   const [syncStatus, setSyncStatus] = useState<SyncStatus>({ lastSyncTime: null, isSyncing: false, error: null });
   const [autoSync, setAutoSync] = useState(false);
+  const [syncConfig, setSyncConfig] = useState<SyncBackendConfig>(SyncService.getBackendConfig());
+  const [webdavForm, setWebdavForm] = useState<WebDAVConfig>(syncConfig.webdav || { url: '', username: '', password: '' });
+  const [isTestingWebdav, setIsTestingWebdav] = useState(false);
+  const [schedulerType, setSchedulerType] = useState<SchedulerType>(SchedulerService.getActiveSchedulerType());
+  const [testWeights, setTestWeights] = useState<TestGradeWeights>(TestGrading.getWeights());
+  const [idMigrationReport] = useState(WordIdMigration.getReport());
+  const [syncLog, setSyncLog] = useState<SyncLogEntry[]>(SyncService.getSyncLog());
+  const [queueState, setQueueState] = useState<SyncQueueState>(SyncQueue.getState());
+  const [encryptionEnabled, setEncryptionEnabled] = useState(SyncEncryption.isEnabled());
+  const [showEncryptionSetup, setShowEncryptionSetup] = useState(false);
+  const [encryptionForm, setEncryptionForm] = useState({ passphrase: '', confirm: '' });
+  const [passphrasePrompt, setPassphrasePrompt] = useState<{ retry: () => Promise<void>; error: string | null } | null>(null);
+  const [passphraseInput, setPassphraseInput] = useState('');
+  const [snapshots, setSnapshots] = useState<SnapshotInfo[] | null>(null);
+  const [isLoadingSnapshots, setIsLoadingSnapshots] = useState(false);
+  const [snapshotDiff, setSnapshotDiff] = useState<{ name: string; diff: SnapshotDiff } | null>(null);
+  const [snapshotToRestore, setSnapshotToRestore] = useState<SnapshotInfo | null>(null);
+  const [conflictHistory, setConflictHistory] = useState<ConflictHistoryEntry[]>(ConflictResolution.getHistory());
   const [showNotification, setShowNotification] = useState<{
     show: boolean;
     type: 'success' | 'error' | 'info';
@@ -72,30 +76,21 @@ export const Settings: React.FC = () => {
   }>({ show: false, type: 'info', title: '', message: '' });
 
   useEffect(() => {
-    loadSettings();
     loadGoogleUser();
     initializeGoogleAuth();
   }, []);
 
-  useEffect(() => {
-    // Set up auto-sync callback
-    if (autoSync && googleUser) {
-      ProgressTracker.setSyncCallback(async () => {
-        try {
-          await GoogleDriveSync.uploadToGoogleDrive();
-          console.log('Auto-sync completed');
-        } catch (error) {
-          console.error('Auto-sync failed:', error);
-        }
-      });
-    } else {
-      ProgressTracker.setSyncCallback(null);
-    }
+  const syncReady = syncConfig.type === 'google-drive' ? !!googleUser : !!syncConfig.webdav?.url;
+  const syncLabel = syncConfig.type === 'webdav' ? 'your WebDAV server' : 'Google Drive';
 
-    return () => {
-      ProgressTracker.setSyncCallback(null);
-    };
-  }, [autoSync, googleUser]);
+  const refreshSyncState = () => {
+    setSyncStatus(SyncService.getSyncStatus());
+    setSyncLog(SyncService.getSyncLog());
+    setQueueState(SyncQueue.getState());
+  };
+
+  // Background syncs (SyncQueue) update the status and log while this page is open
+  useEffect(() => SyncQueue.subscribe(refreshSyncState), []);
 
   const initializeGoogleAuth = async () => {
     try {
@@ -117,16 +112,16 @@ export const Settings: React.FC = () => {
         const refreshedUser = GoogleAuth.getCurrentUser();
         setGoogleUser(refreshedUser);
         // Only show notification if auto-sync was enabled (user was actively using the feature)
-        if (GoogleDriveSync.isAutoSyncEnabled()) {
+        if (SyncService.isAutoSyncEnabled()) {
           showNotificationPopup('success', 'Session Refreshed', 'Your Google Drive session has been refreshed.');
         }
       } catch (error) {
         console.error('Failed to refresh token:', error);
         // Token refresh failed - only notify if user was actively using sync
         setGoogleUser(null);
-        if (GoogleDriveSync.isAutoSyncEnabled()) {
+        if (SyncService.isAutoSyncEnabled()) {
           // Disable auto-sync since session expired
-          GoogleDriveSync.disableAutoSync();
+          SyncService.disableAutoSync();
           setAutoSync(false);
           showNotificationPopup('info', 'Session Expired', 'Google Drive auto-sync disabled. Sign in again to re-enable.');
         }
@@ -135,69 +130,143 @@ export const Settings: React.FC = () => {
       setGoogleUser(user);
     }
 
-    setAutoSync(GoogleDriveSync.isAutoSyncEnabled());
-    setSyncStatus(GoogleDriveSync.getSyncStatus());
+    setAutoSync(SyncService.isAutoSyncEnabled());
+    refreshSyncState();
   };
 
-  const loadSettings = () => {
-    const stored = localStorage.getItem('wordplay-settings');
-    if (stored) {
-      try {
-        const parsedSettings = JSON.parse(stored);
-        setSettings({ ...DEFAULT_SETTINGS, ...parsedSettings });
-      } catch (error) {
-        console.error('Error parsing settings:', error);
-      }
+  const handleConflictsResolved = () => {
+    refreshSyncState();
+    setConflictHistory(ConflictResolution.getHistory());
+  };
+
+  // Encrypted sync data: ask for the passphrase, then run the action again
+  const promptForPassphrase = (error: unknown, retry: () => Promise<void>): boolean => {
+    if (!(error instanceof SyncPassphraseRequiredError) && !(error instanceof SyncPassphraseError)) return false;
+    setPassphrasePrompt({ retry, error: error instanceof SyncPassphraseError ? error.message : null });
+    return true;
+  };
+
+  const handleSubmitPassphrase = () => {
+    if (!passphrasePrompt || !passphraseInput) return;
+    SyncEncryption.setPassphrase(passphraseInput);
+    setPassphraseInput('');
+    setPassphrasePrompt(null);
+    passphrasePrompt.retry();
+  };
+
+  const handleToggleEncryption = () => {
+    if (encryptionEnabled) {
+      SyncEncryption.disable();
+      setEncryptionEnabled(false);
+      showNotificationPopup('info', 'Encryption Turned Off', 'New uploads from this device will not be encrypted. Files your other devices encrypted stay readable with the passphrase.');
+    } else {
+      setEncryptionForm({ passphrase: '', confirm: '' });
+      setShowEncryptionSetup(!showEncryptionSetup);
+    }
+  };
+
+  const handleEnableEncryption = () => {
+    if (encryptionForm.passphrase.length < 8) {
+      showNotificationPopup('error', 'Passphrase Too Short', 'Use at least 8 characters for your sync passphrase.');
+      return;
     }
+    if (encryptionForm.passphrase !== encryptionForm.confirm) {
+      showNotificationPopup('error', 'Passphrases Differ', 'The two passphrases don\'t match.');
+      return;
+    }
+
+    SyncEncryption.enable(encryptionForm.passphrase);
+    setEncryptionEnabled(true);
+    setShowEncryptionSetup(false);
+    setEncryptionForm({ passphrase: '', confirm: '' });
+    // Re-upload so the cloud copy is encrypted right away
+    handleSyncNow();
   };
 
-  const saveSettings = (newSettings: UserSettings) => {
-    setSettings(newSettings);
-    localStorage.setItem('wordplay-settings', JSON.stringify(newSettings));
+  const handleLoadSnapshots = async () => {
+    setIsLoadingSnapshots(true);
+    try {
+      setSnapshots(await SyncSnapshots.list());
+    } catch (error) {
+      console.error('Loading snapshots failed:', error);
+      if (promptForPassphrase(error, handleLoadSnapshots)) return;
+      showNotificationPopup('error', 'Snapshots Unavailable', error instanceof Error ? error.message : 'Could not load the snapshot list.');
+    } finally {
+      setIsLoadingSnapshots(false);
+    }
   };
 
-  const updateFlashcardSettings = (key: keyof UserSettings['flashcardSettings'], value: any) => {
-    const newSettings = {
-      ...settings,
-      flashcardSettings: {
-        ...settings.flashcardSettings,
-        [key]: value
-      }
-    };
-    saveSettings(newSettings);
+  const handleCompareSnapshot = async (snapshot: SnapshotInfo) => {
+    if (snapshotDiff?.name === snapshot.name) {
+      setSnapshotDiff(null);
+      return;
+    }
+    try {
+      setSnapshotDiff({ name: snapshot.name, diff: await SyncSnapshots.diff(snapshot.name) });
+    } catch (error) {
+      console.error('Comparing snapshot failed:', error);
+      if (promptForPassphrase(error, () => handleCompareSnapshot(snapshot))) return;
+      showNotificationPopup('error', 'Compare Failed', error instanceof Error ? error.message : 'Could not read the snapshot.');
+    }
   };
 
-  const updateTestSettings = (key: keyof UserSettings['testSettings'], value: any) => {
-    const newSettings = {
-      ...settings,
-      testSettings: {
-        ...settings.testSettings,
-        [key]: value
-      }
-    };
-    saveSettings(newSettings);
+  const handleRestoreSnapshot = async (snapshot: SnapshotInfo) => {
+    setSnapshotToRestore(null);
+    setSyncStatus({ ...syncStatus, isSyncing: true });
+    try {
+      await SyncSnapshots.restore(snapshot.name);
+      refreshSyncState();
+      showNotificationPopup('success', 'Snapshot Restored', `Your data was restored to ${snapshot.createdAt.toLocaleString()}. Refreshing the page...`);
+      ProgressTracker.whenSaved().then(() => setTimeout(() => window.location.reload(), 2000));
+    } catch (error) {
+      console.error('Restoring snapshot failed:', error);
+      refreshSyncState();
+      if (promptForPassphrase(error, () => handleRestoreSnapshot(snapshot))) return;
+      showNotificationPopup('error', 'Restore Failed', error instanceof Error ? error.message : 'Could not restore the snapshot.');
+    }
   };
 
-  const updateAppearanceSettings = (key: keyof UserSettings['appearanceSettings'], value: any) => {
-    const newSettings = {
-      ...settings,
-      appearanceSettings: {
-        ...settings.appearanceSettings,
-        [key]: value
-      }
-    };
-    saveSettings(newSettings);
+  const handleClearSyncLog = () => {
+    SyncService.clearSyncLog();
+    setSyncLog([]);
   };
 
-  const updateStudySettings = (key: keyof UserSettings['studySettings'], value: any) => {
-    const newSettings = {
-      ...settings,
-      studySettings: {
-        ...settings.studySettings,
-        [key]: value
-      }
-    };
-    saveSettings(newSettings);
+  const handleClearConflictHistory = () => {
+    ConflictResolution.clearHistory();
+    setConflictHistory([]);
+  };
+
+  const updateFlashcardSettings = <K extends keyof UserSettings['flashcardSettings']>(key: K, value: UserSettings['flashcardSettings'][K]) => {
+    SettingsService.update('flashcardSettings', key, value);
+  };
+
+  const updateTestSettings = <K extends keyof UserSettings['testSettings']>(key: K, value: UserSettings['testSettings'][K]) => {
+    SettingsService.update('testSettings', key, value);
+  };
+
+  const updateAppearanceSettings = <K extends keyof UserSettings['appearanceSettings']>(key: K, value: UserSettings['appearanceSettings'][K]) => {
+    SettingsService.update('appearanceSettings', key, value);
+  };
+
+  const updateStudySettings = <K extends keyof UserSettings['studySettings']>(key: K, value: UserSettings['studySettings'][K]) => {
+    SettingsService.update('studySettings', key, value);
+  };
+
+  const handleSchedulerChange = (type: SchedulerType) => {
+    const migrated = SchedulerService.setActiveSchedulerType(type);
+    setSchedulerType(type);
+    const option = SchedulerService.OPTIONS.find(o => o.id === type);
+    showNotificationPopup(
+      'success',
+      'Scheduler Updated',
+      `Now using ${option?.name || type}. ${migrated} card${migrated === 1 ? '' : 's'} migrated.`
+    );
+  };
+
+  const updateTestWeight = (testType: GradedTestType, value: number) => {
+    const newWeights = { ...testWeights, [testType]: value };
+    setTestWeights(newWeights);
+    TestGrading.saveWeights(newWeights);
   };
 
   const handleExportData = () => {
@@ -217,14 +286,22 @@ export const Settings: React.FC = () => {
     const file = event.target.files?.[0];
     if (file) {
       const reader = new FileReader();
-      reader.onload = (e) => {
+      reader.onload = async (e) => {
         const content = e.target?.result as string;
-        const success = ProgressTracker.importData(content);
-        if (success) {
-          showNotificationPopup('success', 'Import Successful', 'Data imported successfully! Refreshing the page...');
-          setTimeout(() => window.location.reload(), 2000);
-        } else {
-          showNotificationPopup('error', 'Import Failed', 'Error importing data. Please check the file format.');
+        try {
+          // Older backups are upgraded first; a file with bad records is rejected as a whole
+          const summary = await ProgressTracker.importData(content);
+          const unmappedNote = summary.unmappedWordIds > 0
+            ? ` ${summary.unmappedWordIds} record(s) refer to words that are no longer in the list.`
+            : '';
+          showNotificationPopup('success', 'Import Successful', `Data imported successfully!${unmappedNote} Refreshing the page...`);
+          ProgressTracker.whenSaved().then(() => setTimeout(() => window.location.reload(), 2000));
+        } catch (error) {
+          console.error('Error importing data:', error);
+          const message = error instanceof DataSchemaError
+            ? error.message
+            : 'Error importing data. Please check the file format.';
+          showNotificationPopup('error', 'Import Failed', message);
         }
       };
       reader.readAsText(file);
@@ -236,9 +313,10 @@ export const Settings: React.FC = () => {
   const handleClearData = (dataType: string) => {
     if (dataType === 'all') {
       ProgressTracker.clearAllData();
-      localStorage.removeItem('wordplay-settings');
+      GameificationService.clearAllData();
+      SettingsService.clear();
       showNotificationPopup('success', 'Data Cleared', 'All data has been cleared successfully. Reloading...');
-      setTimeout(() => window.location.reload(), 2000);
+      ProgressTracker.whenSaved().then(() => setTimeout(() => window.location.reload(), 2000));
     } else if (dataType === 'progress') {
       const progress = ProgressTracker.getUserProgress();
       progress.forEach(p => {
@@ -249,8 +327,11 @@ export const Settings: React.FC = () => {
         p.accuracy = 0;
         p.correctCount = 0;
         p.masteryLevel = 0;
+        p.stability = undefined;
+        p.difficulty = undefined;
       });
-      ProgressTracker.saveUserProgress(progress);
+      // A reset replaces the review history on other devices too
+      ReviewLog.setProgress(progress);
       showNotificationPopup('success', 'Progress Reset', 'Your learning progress has been reset successfully!');
     }
     setShowConfirmDialog(null);
@@ -260,11 +341,11 @@ export const Settings: React.FC = () => {
     setShowNotification({ show: true, type, title, message });
     setTimeout(() => {
       setShowNotification({ show: false, type: 'info', title: '', message: '' });
-    }, 4000);
+    }, type === 'error' ? 8000 : 4000); // errors may list several problems
   };
 
   const resetSettings = () => {
-    saveSettings(DEFAULT_SETTINGS);
+    SettingsService.reset();
     showNotificationPopup('success', 'Settings Reset', 'All settings have been reset to defaults.');
   };
 
@@ -283,21 +364,21 @@ export const Settings: React.FC = () => {
     GoogleAuth.logout();
     setGoogleUser(null);
     setAutoSync(false);
-    GoogleDriveSync.disableAutoSync();
+    SyncService.disableAutoSync();
     showNotificationPopup('info', 'Logged Out', 'You have been successfully logged out from Google.');
   };
 
   const handleSyncNow = async () => {
-    if (!googleUser) {
-      showNotificationPopup('error', 'Not Logged In', 'Please sign in with Google first to sync your data.');
+    if (!syncReady) {
+      showNotificationPopup('error', 'Sync Not Set Up', `Please connect ${syncLabel} first to sync your data.`);
       return;
     }
 
     setSyncStatus({ ...syncStatus, isSyncing: true });
     try {
-      await GoogleDriveSync.syncWithGoogleDrive('merge');
-      const updatedStatus = GoogleDriveSync.getSyncStatus();
-      setSyncStatus(updatedStatus);
+      await SyncService.sync('merge');
+      const updatedStatus = SyncService.getSyncStatus();
+      refreshSyncState();
 
       // Check if conflicts were detected
       if (updatedStatus.conflicts && updatedStatus.conflicts.length > 0) {
@@ -307,11 +388,12 @@ export const Settings: React.FC = () => {
           `Found ${updatedStatus.conflicts.length} conflict(s). Please review and resolve them below.`
         );
       } else {
-        showNotificationPopup('success', 'Sync Complete', 'Your data has been successfully synchronized with Google Drive.');
+        showNotificationPopup('success', 'Sync Complete', `Your data has been successfully synchronized with ${syncLabel}.`);
       }
     } catch (error) {
       console.error('Sync failed:', error);
-      setSyncStatus(GoogleDriveSync.getSyncStatus());
+      refreshSyncState();
+      if (promptForPassphrase(error, handleSyncNow)) return;
 
       // Check if it's an authentication error
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -325,19 +407,20 @@ export const Settings: React.FC = () => {
   };
 
   const handleUploadToCloud = async () => {
-    if (!googleUser) {
-      showNotificationPopup('error', 'Not Logged In', 'Please sign in with Google first to upload your data.');
+    if (!syncReady) {
+      showNotificationPopup('error', 'Sync Not Set Up', `Please connect ${syncLabel} first to upload your data.`);
       return;
     }
 
     setSyncStatus({ ...syncStatus, isSyncing: true });
     try {
-      await GoogleDriveSync.uploadToGoogleDrive();
-      setSyncStatus(GoogleDriveSync.getSyncStatus());
-      showNotificationPopup('success', 'Upload Complete', 'Your local data has been successfully uploaded to Google Drive.');
+      await SyncService.upload();
+      refreshSyncState();
+      showNotificationPopup('success', 'Upload Complete', `Your local data has been successfully uploaded to ${syncLabel}.`);
     } catch (error) {
       console.error('Upload failed:', error);
-      setSyncStatus(GoogleDriveSync.getSyncStatus());
+      refreshSyncState();
+      if (promptForPassphrase(error, handleUploadToCloud)) return;
 
       // Check if it's an authentication error
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -351,24 +434,25 @@ export const Settings: React.FC = () => {
   };
 
   const handleDownloadFromCloud = async () => {
-    if (!googleUser) {
-      showNotificationPopup('error', 'Not Logged In', 'Please sign in with Google first to download your data.');
+    if (!syncReady) {
+      showNotificationPopup('error', 'Sync Not Set Up', `Please connect ${syncLabel} first to download your data.`);
       return;
     }
 
     setSyncStatus({ ...syncStatus, isSyncing: true });
     try {
-      const success = await GoogleDriveSync.downloadFromGoogleDrive();
-      setSyncStatus(GoogleDriveSync.getSyncStatus());
+      const success = await SyncService.download();
+      refreshSyncState();
       if (success) {
         showNotificationPopup('success', 'Download Complete', 'Data downloaded successfully! Refreshing the page...');
-        setTimeout(() => window.location.reload(), 2000);
+        ProgressTracker.whenSaved().then(() => setTimeout(() => window.location.reload(), 2000));
       } else {
-        showNotificationPopup('info', 'No Backup Found', 'No backup file was found in your Google Drive.');
+        showNotificationPopup('info', 'No Backup Found', `No backup file was found on ${syncLabel}.`);
       }
     } catch (error) {
       console.error('Download failed:', error);
-      setSyncStatus(GoogleDriveSync.getSyncStatus());
+      refreshSyncState();
+      if (promptForPassphrase(error, handleDownloadFromCloud)) return;
 
       // Check if it's an authentication error
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -382,23 +466,64 @@ export const Settings: React.FC = () => {
   };
 
   const toggleAutoSync = () => {
-    if (!googleUser) {
-      showNotificationPopup('error', 'Not Logged In', 'Please sign in with Google first to enable auto-sync.');
+    if (!syncReady) {
+      showNotificationPopup('error', 'Sync Not Set Up', `Please connect ${syncLabel} first to enable auto-sync.`);
       return;
     }
 
     const newAutoSync = !autoSync;
     setAutoSync(newAutoSync);
     if (newAutoSync) {
-      GoogleDriveSync.enableAutoSync();
-      showNotificationPopup('success', 'Auto-Sync Enabled', 'Your progress will now automatically sync to Google Drive.');
+      SyncService.enableAutoSync();
+      showNotificationPopup('success', 'Auto-Sync Enabled', `Your progress will now automatically sync to ${syncLabel}.`);
       handleSyncNow(); // Sync immediately when enabled
     } else {
-      GoogleDriveSync.disableAutoSync();
+      SyncService.disableAutoSync();
       showNotificationPopup('info', 'Auto-Sync Disabled', 'Automatic syncing has been turned off.');
     }
   };
 
+  const handleSyncBackendChange = (type: SyncBackendType) => {
+    const config: SyncBackendConfig = { ...syncConfig, type };
+    SyncService.setBackendConfig(config);
+    setSyncConfig(config);
+    // Auto-sync was set up for the previous destination
+    SyncService.disableAutoSync();
+    setAutoSync(false);
+  };
+
+  const handleConnectWebdav = async () => {
+    const url = webdavForm.url.trim();
+    if (!/^https?:\/\//.test(url)) {
+      showNotificationPopup('error', 'Invalid URL', 'Enter the full folder URL, starting with https://');
+      return;
+    }
+
+    const config: SyncBackendConfig = { type: 'webdav', webdav: { ...webdavForm, url } };
+    setIsTestingWebdav(true);
+    try {
+      SyncService.setBackendConfig(config);
+      await SyncService.getBackend().list();
+      setSyncConfig(config);
+      showNotificationPopup('success', 'Server Connected', 'WebDAV server reached. You can sync now.');
+    } catch (error) {
+      console.error('WebDAV connection failed:', error);
+      SyncService.setBackendConfig(syncConfig);
+      showNotificationPopup('error', 'Connection Failed', error instanceof Error ? error.message : 'Could not reach the server.');
+    } finally {
+      setIsTestingWebdav(false);
+    }
+  };
+
+  const handleDisconnectWebdav = () => {
+    const config: SyncBackendConfig = { type: 'webdav' };
+    SyncService.setBackendConfig(config);
+    SyncService.disableAutoSync();
+    setSyncConfig(config);
+    setAutoSync(false);
+    setWebdavForm({ url: '', username: '', password: '' });
+  };
+
   const tabs = [
     { id: 'flashcard', name: 'Flashcards', icon: <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><rect x="2" y="3" width="20" height="14" rx="2" ry="2"></rect><line x1="8" y1="21" x2="16" y2="21"></line><line x1="12" y1="17" x2="12" y2="21"></line></svg> },
     { id: 'test', name: 'Tests', icon: <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"></path><polyline points="14,2 14,8 20,8"></polyline><line x1="16" y1="13" x2="8" y2="13"></line><line x1="16" y1="17" x2="8" y2="17"></line><polyline points="10,9 9,9 8,9"></polyline></svg> },
@@ -472,7 +597,7 @@ export const Settings: React.FC = () => {
                 <label>Practice Mode</label>
                 <select
                   value={settings.flashcardSettings.practiceMode}
-                  onChange={(e) => updateFlashcardSettings('practiceMode', e.target.value)}
+                  onChange={(e) => updateFlashcardSettings('practiceMode', e.target.value as UserSettings['flashcardSettings']['practiceMode'])}
                 >
                   <option value="spaced">Spaced Repetition (Recommended)</option>
                   <option value="random">Random Order</option>
@@ -480,6 +605,22 @@ export const Settings: React.FC = () => {
                 </select>
               </div>
 
+              <div className="setting-group">
+                <label>Scheduling Algorithm</label>
+                <select
+                  value={schedulerType}
+                  onChange={(e) => handleSchedulerChange(e.target.value as SchedulerType)}
+                >
+                  {SchedulerService.OPTIONS.map(option => (
+                    <option key={option.id} value={option.id}>{option.name}</option>
+                  ))}
+                </select>
+                <p className="setting-description">
+                  {SchedulerService.OPTIONS.find(o => o.id === schedulerType)?.description}.
+                  Existing progress is converted automatically when you switch.
+                </p>
+              </div>
+
               <div className="setting-group">
                 <label>Show Meaning First</label>
                 <div className="toggle-switch">
@@ -494,6 +635,38 @@ export const Settings: React.FC = () => {
                 </div>
               </div>
 
+              <div className="setting-group">
+                <label>Answer Mode</label>
+                <select
+                  value={settings.flashcardSettings.answerMode}
+                  onChange={(e) => updateFlashcardSettings('answerMode', e.target.value as UserSettings['flashcardSettings']['answerMode'])}
+                >
+                  <option value="self-rate">Flip and Rate Yourself</option>
+                  <option value="typed">Type the Answer</option>
+                </select>
+                <p className="setting-description">
+                  Typed answers are checked for spelling and suggest a rating you can change.
+                  You type the Bangla meaning, or the English word when Show Meaning First is on.
+                </p>
+              </div>
+
+              <div className="setting-group">
+                <label>Auto Reveal Timer</label>
+                <div className="range-input">
+                  <input
+                    type="range"
+                    min="0"
+                    max="10"
+                    value={settings.flashcardSettings.autoRevealTime}
+                    onChange={(e) => updateFlashcardSettings('autoRevealTime', parseInt(e.target.value))}
+                  />
+                  <span className="range-value">
+                    {settings.flashcardSettings.autoRevealTime === 0 ? 'Manual' : `${settings.flashcardSettings.autoRevealTime}s`}
+                  </span>
+                </div>
+                <p className="setting-description">Turn the card over to its answer after this many seconds (0 = manual)</p>
+              </div>
+
               <div className="setting-group">
                 <label>Auto Advance Timer</label>
                 <div className="range-input">
@@ -508,7 +681,7 @@ export const Settings: React.FC = () => {
                     {settings.flashcardSettings.autoAdvanceTime === 0 ? 'Manual' : `${settings.flashcardSettings.autoAdvanceTime}s`}
                   </span>
                 </div>
-                <p className="setting-description">Automatically advance to next card (0 = manual)</p>
+                <p className="setting-description">Automatically advance to next card this many seconds after the answer is shown; an unrated card counts as Hard (0 = manual)</p>
               </div>
             </div>
           )}
@@ -576,6 +749,33 @@ export const Settings: React.FC = () => {
                   <span className="toggle-description">Show correct answers immediately after each question</span>
                 </div>
               </div>
+
+              <div className="setting-group">
+                <label>Spaced Repetition Weight</label>
+                {[
+                  { id: 'match' as const, label: 'Word Matching' },
+                  { id: 'sentence' as const, label: 'Sentence Fill-in' },
+                  { id: 'synonym-antonym' as const, label: 'Synonym/Antonym' }
+                ].map(test => (
+                  <div key={test.id} className="range-input">
+                    <span className="range-label">{test.label}</span>
+                    <input
+                      type="range"
+                      min="0"
+                      max="100"
+                      step="10"
+                      value={Math.round(testWeights[test.id] * 100)}
+                      onChange={(e) => updateTestWeight(test.id, parseInt(e.target.value) / 100)}
+                    />
+                    <span className="range-value">
+                      {testWeights[test.id] === 0 ? 'Off' : `${Math.round(testWeights[test.id] * 100)}%`}
+                    </span>
+                  </div>
+                ))}
+                <p className="setting-description">
+                  How much test answers affect review scheduling. Missed words come back sooner; 0% keeps tests out of the schedule.
+                </p>
+              </div>
             </div>
           )}
 
@@ -599,7 +799,7 @@ export const Settings: React.FC = () => {
                         name="fontSize"
                         value={size}
                         checked={settings.appearanceSettings.fontSize === size}
-                        onChange={(e) => updateAppearanceSettings('fontSize', e.target.value)}
+                        onChange={(e) => updateAppearanceSettings('fontSize', e.target.value as UserSettings['appearanceSettings']['fontSize'])}
                       />
                       <span className="radio-label">{size.charAt(0).toUpperCase() + size.slice(1)}</span>
                     </label>
@@ -613,6 +813,7 @@ export const Settings: React.FC = () => {
                   {[
                     { value: 'light', label: 'Light' },
                     { value: 'dark', label: 'Dark' },
+                    { value: 'high-contrast', label: 'High Contrast' },
                     { value: 'auto', label: 'Auto (System)' }
                   ].map(theme => (
                     <label key={theme.value} className="radio-option">
@@ -621,13 +822,13 @@ export const Settings: React.FC = () => {
                         name="theme"
                         value={theme.value}
                         checked={settings.appearanceSettings.theme === theme.value}
-                        onChange={(e) => updateAppearanceSettings('theme', e.target.value)}
+                        onChange={(e) => updateAppearanceSettings('theme', e.target.value as UserSettings['appearanceSettings']['theme'])}
                       />
                       <span className="radio-label">{theme.label}</span>
                     </label>
                   ))}
                 </div>
-                <p className="setting-description">Dark mode coming soon!</p>
+                <p className="setting-description">Auto switches between light and dark with your system setting</p>
               </div>
 
               <div className="setting-group">
@@ -667,7 +868,7 @@ export const Settings: React.FC = () => {
                   />
                   <span className="range-value">{settings.studySettings.dailyGoal}</span>
                 </div>
-                <p className="setting-description">Number of cards to review each day</p>
+                <p className="setting-description">Flashcard ratings and test answers needed each day to keep your streak</p>
               </div>
 
               <div className="setting-group">
@@ -689,7 +890,7 @@ export const Settings: React.FC = () => {
                     checked={settings.studySettings.weekendStudy}
                     onChange={(e) => updateStudySettings('weekendStudy', e.target.checked)}
                   />
-                  <span className="toggle-description">Include weekends in daily goals and reminders</span>
+                  <span className="toggle-description">Count weekends as study days; when off, skipping a Saturday or Sunday doesn't break your streak</span>
                 </div>
               </div>
             </div>
@@ -710,34 +911,92 @@ export const Settings: React.FC = () => {
                   <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" style={{marginRight: '0.5rem', verticalAlign: 'middle'}}>
                     <path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm-1 17.93c-3.95-.49-7-3.85-7-7.93 0-.62.08-1.21.21-1.79L9 15v1c0 1.1.9 2 2 2v1.93zm6.9-2.54c-.26-.81-1-1.39-1.9-1.39h-1v-3c0-.55-.45-1-1-1H8v-2h2c.55 0 1-.45 1-1V7h2c1.1 0 2-.9 2-2v-.41c2.93 1.19 5 4.06 5 7.41 0 2.08-.8 3.97-2.1 5.39z" fill="currentColor"/>
                   </svg>
-                  Google Drive Sync
+                  Cloud Sync
                 </h3>
 
-                {!googleUser ? (
-                  <div>
-                    <button className="data-button google-login" onClick={handleGoogleLogin}>
-                      <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" style={{marginRight: '0.5rem'}}>
-                        <path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm-1 17.93c-3.95-.49-7-3.85-7-7.93 0-.62.08-1.21.21-1.79L9 15v1c0 1.1.9 2 2 2v1.93zm6.9-2.54c-.26-.81-1-1.39-1.9-1.39h-1v-3c0-.55-.45-1-1-1H8v-2h2c.55 0 1-.45 1-1V7h2c1.1 0 2-.9 2-2v-.41c2.93 1.19 5 4.06 5 7.41 0 2.08-.8 3.97-2.1 5.39z" fill="currentColor"/>
-                      </svg>
-                      Sign in with Google
-                    </button>
-                    <p className="data-description">
-                      Sign in with Google to sync your progress across all devices
-                    </p>
-                  </div>
-                ) : (
-                  <div>
-                    <div className="google-user-info">
-                      <img src={googleUser.picture} alt={googleUser.name} className="google-avatar" />
-                      <div>
-                        <div className="google-name">{googleUser.name}</div>
-                        <div className="google-email">{googleUser.email}</div>
-                      </div>
-                      <button className="data-button secondary small" onClick={handleGoogleLogout}>
-                        Sign Out
+                <div className="setting-group">
+                  <label>Sync with</label>
+                  <select
+                    value={syncConfig.type}
+                    onChange={(e) => handleSyncBackendChange(e.target.value as SyncBackendType)}
+                  >
+                    <option value="google-drive">Google Drive</option>
+                    <option value="webdav">WebDAV server (Nextcloud, self-hosted)</option>
+                  </select>
+                </div>
+
+                {syncConfig.type === 'google-drive' ? (
+                  !googleUser ? (
+                    <div>
+                      <button className="data-button google-login" onClick={handleGoogleLogin}>
+                        <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" style={{marginRight: '0.5rem'}}>
+                          <path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm-1 17.93c-3.95-.49-7-3.85-7-7.93 0-.62.08-1.21.21-1.79L9 15v1c0 1.1.9 2 2 2v1.93zm6.9-2.54c-.26-.81-1-1.39-1.9-1.39h-1v-3c0-.55-.45-1-1-1H8v-2h2c.55 0 1-.45 1-1V7h2c1.1 0 2-.9 2-2v-.41c2.93 1.19 5 4.06 5 7.41 0 2.08-.8 3.97-2.1 5.39z" fill="currentColor"/>
+                        </svg>
+                        Sign in with Google
                       </button>
+                      <p className="data-description">
+                        Sign in with Google to sync your progress across all devices
+                      </p>
                     </div>
+                  ) : (
+                    <div>
+                      <div className="google-user-info">
+                        <img src={googleUser.picture} alt={googleUser.name} className="google-avatar" />
+                        <div>
+                          <div className="google-name">{googleUser.name}</div>
+                          <div className="google-email">{googleUser.email}</div>
+                        </div>
+                        <button className="data-button secondary small" onClick={handleGoogleLogout}>
+                          Sign Out
+                        </button>
+                      </div>
+                    </div>
+                  )
+                ) : (
+                  <div className="webdav-config">
+                    {syncReady ? (
+                      <div className="webdav-connected">
+                        <span className="webdav-url">{syncConfig.webdav?.url}</span>
+                        <button className="data-button secondary small" onClick={handleDisconnectWebdav}>
+                          Disconnect
+                        </button>
+                      </div>
+                    ) : (
+                      <>
+                        <input
+                          type="url"
+                          placeholder="https://cloud.example.org/remote.php/dav/files/me/WordPlay/"
+                          value={webdavForm.url}
+                          onChange={(e) => setWebdavForm({ ...webdavForm, url: e.target.value })}
+                        />
+                        <input
+                          type="text"
+                          placeholder="Username (optional)"
+                          autoComplete="username"
+                          value={webdavForm.username || ''}
+                          onChange={(e) => setWebdavForm({ ...webdavForm, username: e.target.value })}
+                        />
+                        <input
+                          type="password"
+                          placeholder="Password or app password"
+                          autoComplete="current-password"
+                          value={webdavForm.password || ''}
+                          onChange={(e) => setWebdavForm({ ...webdavForm, password: e.target.value })}
+                        />
+                        <button className="data-button primary" onClick={handleConnectWebdav} disabled={isTestingWebdav}>
+                          {isTestingWebdav ? 'Connecting...' : 'Connect'}
+                        </button>
+                        <p className="data-description">
+                          Works with any WebDAV folder that allows requests from this site. Credentials are stored on
+                          this device only; prefer an app password.
+                        </p>
+                      </>
+                    )}
+                  </div>
+                )}
 
+                {syncReady && (
+                  <div>
                     <div className="setting-group" style={{marginTop: '1rem'}}>
                       <label>Auto Sync</label>
                       <div className="toggle-switch">
@@ -752,6 +1011,61 @@ export const Settings: React.FC = () => {
                       </div>
                     </div>
 
+                    <div className="setting-group">
+                      <label>End-to-End Encryption</label>
+                      <div className="toggle-switch">
+                        <input
+                          type="checkbox"
+                          checked={encryptionEnabled || showEncryptionSetup}
+                          onChange={handleToggleEncryption}
+                        />
+                        <span className="toggle-description">
+                          Encrypt synced data with a passphrase only you know
+                        </span>
+                      </div>
+                    </div>
+
+                    {showEncryptionSetup && (
+                      <div className="encryption-setup">
+                        <input
+                          type="password"
+                          placeholder="Passphrase (at least 8 characters)"
+                          autoComplete="new-password"
+                          value={encryptionForm.passphrase}
+                          onChange={(e) => setEncryptionForm({ ...encryptionForm, passphrase: e.target.value })}
+                        />
+                        <input
+                          type="password"
+                          placeholder="Repeat passphrase"
+                          autoComplete="new-password"
+                          value={encryptionForm.confirm}
+                          onChange={(e) => setEncryptionForm({ ...encryptionForm, confirm: e.target.value })}
+                        />
+                        <button className="data-button primary" onClick={handleEnableEncryption}>
+                          Encrypt Synced Data
+                        </button>
+                        <p className="data-description">
+                          Data is encrypted in this browser before it's uploaded, and the passphrase is never stored or sent
+                          anywhere. Enter the same passphrase on your other devices. If you forget it, the encrypted cloud
+                          copy can't be recovered - the data on your devices stays readable. Snapshots taken before
+                          encryption was turned on stay unencrypted until they expire.
+                        </p>
+                      </div>
+                    )}
+
+                    {encryptionEnabled && !SyncEncryption.hasPassphrase() && (
+                      <p className="sync-queue-state">
+                        Synced data is encrypted.{' '}
+                        <button
+                          className="link-button"
+                          onClick={() => setPassphrasePrompt({ retry: handleSyncNow, error: null })}
+                        >
+                          Enter your passphrase
+                        </button>{' '}
+                        to sync on this device.
+                      </p>
+                    )}
+
                     {syncStatus.lastSyncTime && (
                       <p className="sync-status">
                         Last synced: {syncStatus.lastSyncTime.toLocaleString()}
@@ -797,6 +1111,123 @@ export const Settings: React.FC = () => {
                     <p className="data-description">
                       Sync merges local and cloud data intelligently. Upload/Download overwrites one with the other.
                     </p>
+
+                    {autoSync && (queueState.pending || !queueState.online) && (
+                      <p className="sync-queue-state">
+                        {!queueState.online
+                          ? 'Offline - changes will sync when the connection is back.'
+                          : queueState.retryAt
+                            ? `Sync failed ${queueState.failedAttempts} time(s); retrying at ${queueState.retryAt.toLocaleTimeString()}.`
+                            : 'Changes waiting to sync...'}
+                      </p>
+                    )}
+
+                    <div className="sync-snapshots">
+                      <div className="sync-log-header">
+                        <h4>Cloud Snapshots</h4>
+                        <button className="data-button secondary small" onClick={handleLoadSnapshots} disabled={isLoadingSnapshots}>
+                          {isLoadingSnapshots ? 'Loading...' : snapshots ? 'Refresh' : 'Show Snapshots'}
+                        </button>
+                      </div>
+                      <p className="data-description">
+                        A copy of the synced data is kept for each of the last {SyncSnapshots.DAILY_DAYS} days and one per
+                        week for 3 months, so you can go back to an earlier state.
+                      </p>
+                      {snapshots && snapshots.length === 0 && (
+                        <p className="data-description">No snapshots yet - one is saved on the first sync of each day.</p>
+                      )}
+                      {snapshots && snapshots.length > 0 && (
+                        <ul className="snapshot-list">
+                          {snapshots.map(snapshot => (
+                            <li key={snapshot.name}>
+                              <div className="snapshot-row">
+                                <div className="snapshot-info">
+                                  <strong>{snapshot.createdAt.toLocaleString()}</strong>
+                                  <span>
+                                    {snapshot.counts.userProgress || 0} words, {snapshot.counts.testResults || 0} test results,{' '}
+                                    {(snapshot.counts.flashcardSessions || 0) + (snapshot.counts.testSessions || 0)} sessions
+                                  </span>
+                                </div>
+                                <div className="snapshot-actions">
+                                  <button className="data-button secondary small" onClick={() => handleCompareSnapshot(snapshot)}>
+                                    {snapshotDiff?.name === snapshot.name ? 'Hide' : 'Compare'}
+                                  </button>
+                                  <button
+                                    className="data-button danger small"
+                                    onClick={() => setSnapshotToRestore(snapshot)}
+                                    disabled={syncStatus.isSyncing}
+                                  >
+                                    Restore
+                                  </button>
+                                </div>
+                              </div>
+                              {snapshotDiff?.name === snapshot.name && (
+                                <table className="snapshot-diff">
+                                  <thead>
+                                    <tr>
+                                      <th></th>
+                                      <th>Snapshot</th>
+                                      <th>This device</th>
+                                      <th>Only in snapshot</th>
+                                      <th>Only here</th>
+                                      <th>Changed</th>
+                                    </tr>
+                                  </thead>
+                                  <tbody>
+                                    {snapshotDiff.diff.stores.map(store => (
+                                      <tr key={store.store}>
+                                        <td>{STORE_LABELS[store.store]}</td>
+                                        <td>{store.snapshot}</td>
+                                        <td>{store.local}</td>
+                                        <td>{store.onlyInSnapshot}</td>
+                                        <td>{store.onlyLocal}</td>
+                                        <td>{store.store === 'userProgress' ? store.changed : '—'}</td>
+                                      </tr>
+                                    ))}
+                                  </tbody>
+                                </table>
+                              )}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+
+                    {syncLog.length > 0 && (
+                      <div className="sync-log">
+                        <div className="sync-log-header">
+                          <h4>Sync Log</h4>
+                          <button className="data-button secondary small" onClick={handleClearSyncLog}>
+                            Clear
+                          </button>
+                        </div>
+                        <table>
+                          <thead>
+                            <tr>
+                              <th>Time</th>
+                              <th>Direction</th>
+                              <th>Sent</th>
+                              <th>Received</th>
+                              <th>Result</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {syncLog.map((entry, index) => (
+                              <tr key={index} className={entry.error ? 'failed' : ''}>
+                                <td>{entry.time.toLocaleString()}</td>
+                                <td>
+                                  {SYNC_DIRECTION_LABELS[entry.direction]}
+                                  {entry.trigger !== 'manual' && <span className="sync-log-trigger"> ({entry.trigger})</span>}
+                                </td>
+                                <td>{entry.sent}</td>
+                                <td>{entry.received}</td>
+                                <td>{entry.error || `OK in ${(entry.durationMs / 1000).toFixed(1)}s`}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    )}
                   </div>
                 )}
               </div>
@@ -830,8 +1261,64 @@ export const Settings: React.FC = () => {
                 <p className="data-description">
                   Export your progress data as a backup file, or import from a previous backup.
                 </p>
+                <div className="data-buttons" style={{ marginTop: '1rem' }}>
+                  <button className="data-button secondary" onClick={() => navigate('/words/export')}>
+                    Export Word Lists
+                  </button>
+                  <button className="data-button secondary" onClick={() => navigate('/words/import')}>
+                    Import Word Lists
+                  </button>
+                </div>
+                <p className="data-description">
+                  Share words with their progress as CSV, Anki notes or a printable sheet, or bring in lists from spreadsheets and Anki.
+                </p>
               </div>
 
+              {conflictHistory.length > 0 && (
+                <div className="data-section">
+                  <h3>Conflict History</h3>
+                  <p className="data-description">
+                    How sync conflicts on this device were resolved, newest first.
+                  </p>
+                  <ul className="conflict-history">
+                    {conflictHistory.slice(0, 50).map((entry, index) => (
+                      <li key={index}>
+                        <span className="conflict-history-date">{entry.resolvedAt.toLocaleString()}</span>
+                        <strong>{DataManager.getWordById(entry.wordId)?.word || entry.wordId}</strong>
+                        <span className={`conflict-history-choice ${entry.choice}`}>
+                          {CONFLICT_CHOICE_LABELS[entry.choice]}{entry.bulk ? ' (bulk)' : ''}
+                        </span>
+                        <span className="conflict-history-result">
+                          seen {entry.localData.totalSeen} / {entry.remoteData.totalSeen} → {entry.result.totalSeen},
+                          mastery {entry.result.masteryLevel}%
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                  <button className="data-button secondary small" onClick={handleClearConflictHistory}>
+                    Clear History
+                  </button>
+                </div>
+              )}
+
+              {idMigrationReport && idMigrationReport.unmapped.length > 0 && (
+                <div className="data-section">
+                  <h3>Word ID Update</h3>
+                  <p className="data-description">
+                    On {idMigrationReport.migratedAt.toLocaleDateString()} your saved data was moved to
+                    the new word IDs. {idMigrationReport.unmapped.length} record(s) refer to words that
+                    are no longer in the word list and were left as they were:
+                  </p>
+                  <ul className="migration-unmapped">
+                    {idMigrationReport.unmapped.map((record, index) => (
+                      <li key={index}>
+                        <code>{record.wordId}</code> <span>({record.store})</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
               <div className="data-section">
                 <h3>Reset Options</h3>
                 <div className="data-buttons">
@@ -918,6 +1405,70 @@ export const Settings: React.FC = () => {
         </div>
       )}
 
+      {passphrasePrompt && (
+        <div className="confirm-dialog-overlay">
+          <div className="confirm-dialog">
+            <h3>Sync Passphrase</h3>
+            <p>Your synced data is encrypted. Enter the passphrase you chose when you turned on encryption.</p>
+            {passphrasePrompt.error && <p className="sync-error">{passphrasePrompt.error}</p>}
+            <input
+              type="password"
+              className="passphrase-input"
+              autoComplete="current-password"
+              autoFocus
+              value={passphraseInput}
+              onChange={(e) => setPassphraseInput(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSubmitPassphrase()}
+            />
+            <div className="confirm-buttons">
+              <button
+                className="confirm-button cancel"
+                onClick={() => {
+                  setPassphrasePrompt(null);
+                  setPassphraseInput('');
+                }}
+              >
+                Cancel
+              </button>
+              <button
+                className="confirm-button primary"
+                onClick={handleSubmitPassphrase}
+                disabled={!passphraseInput}
+              >
+                Unlock
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {snapshotToRestore && (
+        <div className="confirm-dialog-overlay">
+          <div className="confirm-dialog">
+            <h3>Restore Snapshot?</h3>
+            <p>
+              Your progress, test results and sessions on this device will be replaced with the snapshot
+              from {snapshotToRestore.createdAt.toLocaleString()}, and the restored data will be uploaded
+              to {syncLabel} so your other devices follow.
+            </p>
+            <div className="confirm-buttons">
+              <button
+                className="confirm-button cancel"
+                onClick={() => setSnapshotToRestore(null)}
+              >
+                Cancel
+              </button>
+              <button
+                className="confirm-button danger"
+                onClick={() => handleRestoreSnapshot(snapshotToRestore)}
+              >
+                Restore
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {showNotification.show && (
         <div className={`notification-popup ${showNotification.type}`}>
           <div className="notification-content">
@@ -963,7 +1514,7 @@ export const Settings: React.FC = () => {
       {/* Sync Conflicts Modal */}
       <SyncConflicts
         conflicts={syncStatus.conflicts || []}
-        onRefresh={loadGoogleUser}
+        onRefresh={handleConflictsResolved}
       />
     </div>
   );
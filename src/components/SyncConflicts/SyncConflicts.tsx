@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
-import { GoogleDriveSync } from '../../services/GoogleDriveSync';
-import { ProgressTracker } from '../../services/ProgressTracker';
+import { SyncService } from '../../services/SyncService';
+import { ConflictResolution, ConflictChoice, BulkConflictChoice } from '../../services/ConflictResolution';
+import { DataManager } from '../../data/DataManager';
 import { SyncConflict } from '../../types';
 import './SyncConflicts.css';
 
@@ -17,75 +18,39 @@ export const SyncConflicts: React.FC<SyncConflictsProps> = ({ conflicts: initial
     setConflicts(initialConflicts);
   }, [initialConflicts]);
 
-  const handleResolveConflict = (wordId: string, useLocal: boolean) => {
-    const conflict = conflicts.find(c => c.wordId === wordId);
-    if (!conflict) return;
-
-    // Apply the user's choice to the actual data
-    const userProgress = ProgressTracker.getUserProgress();
-    const dataToKeep = useLocal ? conflict.localData : conflict.remoteData;
-
-    const updatedProgress = userProgress.map(p => {
-      if (p.wordId === wordId) {
-        // Apply the chosen version
-        return {
-          ...p,
-          ...dataToKeep,
-          // Update sync metadata
-          lastModified: new Date(),
-          syncVersion: (dataToKeep.syncVersion || 0) + 1,
-        };
-      }
-      return p;
-    });
-
-    ProgressTracker.saveUserProgress(updatedProgress);
-
-    // Remove the resolved conflict
-    const updatedConflicts = conflicts.filter(c => c.wordId !== wordId);
-    setConflicts(updatedConflicts);
-
-    // Update sync status
-    const syncStatus = GoogleDriveSync.getSyncStatus();
-    GoogleDriveSync.updateSyncStatus({ ...syncStatus, conflicts: updatedConflicts });
-
-    // Notify parent to refresh if needed
-    if (onRefresh && updatedConflicts.length === 0) {
-      setTimeout(() => onRefresh(), 500);
+  const [isUploading, setIsUploading] = useState(false);
+
+  // Share the resolution right away instead of waiting for the next auto-sync
+  const uploadResolutions = async () => {
+    if (!SyncService.isReady()) return;
+    setIsUploading(true);
+    try {
+      await SyncService.sync('merge');
+    } catch (error) {
+      console.error('Uploading conflict resolutions failed:', error);
+    } finally {
+      setIsUploading(false);
     }
   };
 
-  const handleResolveAll = (useLocal: boolean) => {
-    const userProgress = ProgressTracker.getUserProgress();
-
-    // Apply all conflict resolutions
-    const updatedProgress = userProgress.map(p => {
-      const conflict = conflicts.find(c => c.wordId === p.wordId);
-      if (conflict) {
-        const dataToKeep = useLocal ? conflict.localData : conflict.remoteData;
-        return {
-          ...p,
-          ...dataToKeep,
-          lastModified: new Date(),
-          syncVersion: (dataToKeep.syncVersion || 0) + 1,
-        };
-      }
-      return p;
-    });
-
-    ProgressTracker.saveUserProgress(updatedProgress);
-
-    // Clear all conflicts
-    setConflicts([]);
-    const syncStatus = GoogleDriveSync.getSyncStatus();
-    GoogleDriveSync.updateSyncStatus({ ...syncStatus, conflicts: [] });
-
-    // Notify parent to refresh
+  const resolve = async (resolved: SyncConflict[], choice: BulkConflictChoice) => {
+    ConflictResolution.resolve(resolved, choice);
+
+    const resolvedIds = new Set(resolved.map(c => c.wordId));
+    setConflicts(conflicts.filter(c => !resolvedIds.has(c.wordId)));
+
+    await uploadResolutions();
+
+    // Notify parent so it picks up the new sync status and history
     if (onRefresh) {
-      setTimeout(() => onRefresh(), 500);
+      onRefresh();
     }
   };
 
+  const handleResolveConflict = (conflict: SyncConflict, choice: ConflictChoice) => resolve([conflict], choice);
+
+  const handleResolveAll = (choice: BulkConflictChoice) => resolve(conflicts, choice);
+
   if (conflicts.length === 0) {
     return null;
   }
@@ -96,70 +61,105 @@ export const SyncConflicts: React.FC<SyncConflictsProps> = ({ conflicts: initial
         <div className="sync-conflicts-header">
           <h2>⚠️ Sync Conflicts Detected</h2>
           <p>
-            The same words have been modified on different devices. Choose which
-            version to keep.
+            The same words were studied on different devices before they were synced.
+            Compare the versions and keep one, or combine the practice from both.
           </p>
         </div>
 
         <div className="conflicts-list">
-          {conflicts.map((conflict) => (
-            <div key={conflict.wordId} className="conflict-item">
-              <div className="conflict-word">
-                <strong>{conflict.wordId}</strong>
-                <span className="conflict-type">{conflict.conflictType}</span>
-              </div>
+          {conflicts.map((conflict) => {
+            const combined = ConflictResolution.preview(conflict, 'combine');
+            return (
+              <div key={conflict.wordId} className="conflict-item">
+                <div className="conflict-word">
+                  <strong>{DataManager.getWordById(conflict.wordId)?.word || conflict.wordId}</strong>
+                  <span className="conflict-type">{conflict.conflictType}</span>
+                </div>
 
-              <div className="conflict-comparison">
-                <div className="conflict-version local">
-                  <h4>Local (This Device)</h4>
-                  <div className="conflict-details">
-                    <div>Last Reviewed: {new Date(conflict.localData.lastReviewed).toLocaleString()}</div>
-                    <div>Repetitions: {conflict.localData.repetitions}</div>
-                    <div>Mastery: {conflict.localData.masteryLevel}%</div>
-                    <div>Accuracy: {(conflict.localData.accuracy * 100).toFixed(0)}%</div>
-                  </div>
+                <table className="conflict-diff">
+                  <thead>
+                    <tr>
+                      <th>Field</th>
+                      <th className="local">This Device</th>
+                      <th className="remote">Other Device</th>
+                      <th className="combined">Combined</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {ConflictResolution.FIELDS.map(field => (
+                      <tr
+                        key={field.key}
+                        className={ConflictResolution.differs(field, conflict.localData, conflict.remoteData) ? 'differs' : ''}
+                      >
+                        <td>{field.label}</td>
+                        <td>{field.format(conflict.localData[field.key])}</td>
+                        <td>{field.format(conflict.remoteData[field.key])}</td>
+                        <td>{field.format(combined[field.key])}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+
+                <div className="conflict-choices">
                   <button
                     className="resolve-button use-local"
-                    onClick={() => handleResolveConflict(conflict.wordId, true)}
+                    onClick={() => handleResolveConflict(conflict, 'local')}
+                    disabled={isUploading}
                   >
-                    Keep Local
+                    Keep This Device
                   </button>
-                </div>
-
-                <div className="conflict-version remote">
-                  <h4>Remote (Google Drive)</h4>
-                  <div className="conflict-details">
-                    <div>Last Reviewed: {new Date(conflict.remoteData.lastReviewed).toLocaleString()}</div>
-                    <div>Repetitions: {conflict.remoteData.repetitions}</div>
-                    <div>Mastery: {conflict.remoteData.masteryLevel}%</div>
-                    <div>Accuracy: {(conflict.remoteData.accuracy * 100).toFixed(0)}%</div>
-                  </div>
                   <button
                     className="resolve-button use-remote"
-                    onClick={() => handleResolveConflict(conflict.wordId, false)}
+                    onClick={() => handleResolveConflict(conflict, 'remote')}
+                    disabled={isUploading}
                   >
-                    Keep Remote
+                    Keep Other Device
+                  </button>
+                  <button
+                    className="resolve-button use-combined"
+                    onClick={() => handleResolveConflict(conflict, 'combine')}
+                    disabled={isUploading}
+                    title="Add up times seen and correct answers from both devices"
+                  >
+                    Combine
                   </button>
                 </div>
               </div>
-            </div>
-          ))}
+            );
+          })}
         </div>
 
         <div className="conflicts-actions">
+          <button
+            className="bulk-action-button keep-all-newest"
+            onClick={() => handleResolveAll('newest')}
+            disabled={isUploading}
+          >
+            Newest Wins for All ({conflicts.length})
+          </button>
           <button
             className="bulk-action-button keep-all-local"
-            onClick={() => handleResolveAll(true)}
+            onClick={() => handleResolveAll('local')}
+            disabled={isUploading}
           >
-            Keep All Local ({conflicts.length})
+            This Device Wins for All
           </button>
           <button
             className="bulk-action-button keep-all-remote"
-            onClick={() => handleResolveAll(false)}
+            onClick={() => handleResolveAll('remote')}
+            disabled={isUploading}
+          >
+            Other Device Wins for All
+          </button>
+          <button
+            className="bulk-action-button combine-all"
+            onClick={() => handleResolveAll('combine')}
+            disabled={isUploading}
           >
-            Keep All Remote ({conflicts.length})
+            Combine All
           </button>
         </div>
+        {isUploading && <p className="conflicts-uploading">Uploading resolutions...</p>}
       </div>
     </div>
   );
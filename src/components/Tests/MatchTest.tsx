@@ -4,20 +4,25 @@ import { WordRecord } from '../../types';
 import { DataManager } from '../../data/DataManager';
 import { TestGenerator, MatchQuestion, TestResult, TestSession } from '../../services/TestGenerator';
 import { ProgressTracker } from '../../services/ProgressTracker';
+import { TestGrading } from '../../services/TestGrading';
+import { useSettings } from '../../contexts/SettingsContext';
 import './MatchTest.css';
 
 interface MatchTestProps {
   questionCount?: number;
-  timeLimit?: number; // in seconds
+  timeLimit?: number; // in seconds; defaults to the Settings time limit
   onTestComplete?: (session: TestSession) => void;
 }
 
 export const MatchTest: React.FC<MatchTestProps> = ({
-  questionCount = 10,
-  timeLimit = 300, // 5 minutes default
+  questionCount: questionCountProp,
+  timeLimit: timeLimitProp,
   onTestComplete
 }) => {
   const navigate = useNavigate();
+  const { testSettings } = useSettings();
+  const questionCount = questionCountProp ?? testSettings.questionCount;
+  const timeLimit = timeLimitProp ?? testSettings.defaultTimeLimit * 60;
   const [questions, setQuestions] = useState<MatchQuestion[]>([]);
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
   const [results, setResults] = useState<TestResult[]>([]);
@@ -42,16 +47,19 @@ export const MatchTest: React.FC<MatchTestProps> = ({
         const elapsed = Date.now() - startTime.getTime();
         const remaining = Math.max(0, (timeLimit * 1000) - elapsed);
         setTimeLeft(remaining);
-        
-        if (remaining === 0) {
-          handleTestComplete();
-        }
       }, 1000);
       
       return () => clearInterval(timer);
     }
   }, [startTime, testCompleted, timeLimit]);
 
+  // Time's up; checked after render so the last answers are included
+  useEffect(() => {
+    if (startTime && !testCompleted && timeLeft === 0) {
+      handleTestComplete();
+    }
+  }, [timeLeft]);
+
   const initializeTest = async () => {
     setLoading(true);
     try {
@@ -92,14 +100,18 @@ export const MatchTest: React.FC<MatchTestProps> = ({
     };
     setResults(prev => [...prev, result]);
 
+    const wordId = DataManager.getWordId(currentQuestion.wordRecord);
+    const quality = TestGrading.gradeMatchAnswer(correct, timeSpent);
+
     ProgressTracker.saveTestResult({
       testType: 'match',
-      wordId: (currentQuestion.wordRecord as any).id || currentQuestion.word.toLowerCase(),
+      wordId,
       correct: correct,
       timeSpent,
       timestamp: new Date(),
-      quality: correct ? (timeSpent < 3000 ? 5 : timeSpent < 6000 ? 4 : 3) : 1
+      quality
     });
+    TestGrading.applyToSchedule('match', wordId, quality);
   };
 
   const handleNextQuestion = () => {
@@ -119,6 +131,13 @@ export const MatchTest: React.FC<MatchTestProps> = ({
     
     const endTime = new Date();
     const totalTime = endTime.getTime() - startTime.getTime();
+    TestGrading.recordSession(
+      'match',
+      startTime,
+      endTime,
+      questions.length,
+      results.filter(r => r.isCorrect).length
+    );
     const scoreData = TestGenerator.calculateScore(results, totalTime, timeLimit * 1000);
     
     const session: TestSession = {
@@ -247,6 +266,11 @@ export const MatchTest: React.FC<MatchTestProps> = ({
         <div className="word-display">
           <div className="word-box">
             <h1 className="target-word">{currentQuestion.word}</h1>
+            {testSettings.showHints && currentQuestion.wordRecord.example && (
+              <p className="usage-hint">
+                <strong>Hint:</strong> {currentQuestion.wordRecord.example}
+              </p>
+            )}
           </div>
         </div>
         
@@ -8,22 +8,27 @@ import {
   SentenceTestResult 
 } from '../../services/TestGenerator';
 import { ProgressTracker } from '../../services/ProgressTracker';
+import { TestGrading } from '../../services/TestGrading';
+import { useSettings } from '../../contexts/SettingsContext';
 import './SentenceTest.css';
 
 interface SentenceTestProps {
   questionCount?: number;
-  timeLimit?: number; // in seconds
+  timeLimit?: number; // in seconds; defaults to the Settings time limit
   testMode?: 'multiple-choice' | 'fill-in' | 'mixed';
   onTestComplete?: (results: any) => void;
 }
 
 export const SentenceTest: React.FC<SentenceTestProps> = ({
-  questionCount = 10,
-  timeLimit = 400, // ~6.5 minutes
+  questionCount: questionCountProp,
+  timeLimit: timeLimitProp,
   testMode = 'multiple-choice',
   onTestComplete
 }) => {
   const navigate = useNavigate();
+  const { testSettings } = useSettings();
+  const questionCount = questionCountProp ?? testSettings.questionCount;
+  const timeLimit = timeLimitProp ?? testSettings.defaultTimeLimit * 60;
   const [questions, setQuestions] = useState<SentenceQuestion[]>([]);
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
   const [results, setResults] = useState<SentenceTestResult[]>([]);
@@ -49,16 +54,19 @@ export const SentenceTest: React.FC<SentenceTestProps> = ({
         const elapsed = Date.now() - startTime.getTime();
         const remaining = Math.max(0, (timeLimit * 1000) - elapsed);
         setTimeLeft(remaining);
-        
-        if (remaining === 0) {
-          handleTestComplete();
-        }
       }, 1000);
       
       return () => clearInterval(timer);
     }
   }, [startTime, testCompleted, showFeedback, timeLimit]);
 
+  // Time's up; checked after render so the last answers are included
+  useEffect(() => {
+    if (startTime && !testCompleted && timeLeft === 0) {
+      handleTestComplete();
+    }
+  }, [timeLeft]);
+
   const initializeTest = async () => {
     setLoading(true);
     try {
@@ -110,15 +118,19 @@ export const SentenceTest: React.FC<SentenceTestProps> = ({
     setLastScore(evaluation.score);
     setShowFeedback(true);
     
+    const wordId = DataManager.getWordId(currentQuestion.wordRecord);
+    const quality = TestGrading.gradeSentenceAnswer(evaluation.matchType);
+
     // Save individual test result for progress tracking
     ProgressTracker.saveTestResult({
       testType: 'sentence',
-      wordId: (currentQuestion.wordRecord as any).id || currentQuestion.wordRecord.word.toLowerCase(),
+      wordId,
       correct: evaluation.score >= 0.5, // Consider fuzzy matches as correct
       timeSpent,
       timestamp: new Date(),
-      quality: evaluation.score >= 1.0 ? 5 : evaluation.score >= 0.5 ? 4 : evaluation.score > 0 ? 2 : 1
+      quality
     });
+    TestGrading.applyToSchedule('sentence', wordId, quality);
   };
 
   const handleNextQuestion = () => {
@@ -138,6 +150,13 @@ export const SentenceTest: React.FC<SentenceTestProps> = ({
     
     const endTime = new Date();
     const totalTime = endTime.getTime() - startTime.getTime();
+    TestGrading.recordSession(
+      'sentence',
+      startTime,
+      endTime,
+      questions.length,
+      results.filter(r => r.score >= 0.5).length
+    );
     
     setTestCompleted(true);
     
@@ -284,9 +303,11 @@ export const SentenceTest: React.FC<SentenceTestProps> = ({
             <p className="sentence-text">
               {currentQuestion.sentenceWithBlank}
             </p>
-            <p className="meaning-hint">
-              <strong>Hint:</strong> {currentQuestion.wordRecord.meaning}
-            </p>
+            {testSettings.showHints && (
+              <p className="meaning-hint">
+                <strong>Hint:</strong> {currentQuestion.wordRecord.meaning}
+              </p>
+            )}
           </div>
         </div>
         
@@ -337,9 +358,11 @@ export const SentenceTest: React.FC<SentenceTestProps> = ({
                     }
                   }}
                 />
-                <p className="input-hint">
-                  💡 Don't worry about perfect spelling - close answers count too!
-                </p>
+                {testSettings.showHints && (
+                  <p className="input-hint">
+                    💡 Don't worry about perfect spelling - close answers count too!
+                  </p>
+                )}
               </div>
             ))}
             
@@ -8,22 +8,27 @@ import {
   SynonymAntonymTestResult 
 } from '../../services/TestGenerator';
 import { ProgressTracker } from '../../services/ProgressTracker';
+import { TestGrading } from '../../services/TestGrading';
+import { useSettings } from '../../contexts/SettingsContext';
 import './SynonymAntonymTest.css';
 
 interface SynonymAntonymTestProps {
   questionCount?: number;
-  timeLimit?: number; // in seconds
+  timeLimit?: number; // in seconds; defaults to the Settings time limit
   choicesCount?: number;
   onTestComplete?: (results: any) => void;
 }
 
 export const SynonymAntonymTest: React.FC<SynonymAntonymTestProps> = ({
-  questionCount = 8,
-  timeLimit = 480, // 8 minutes
+  questionCount: questionCountProp,
+  timeLimit: timeLimitProp,
   choicesCount = 6,
   onTestComplete
 }) => {
   const navigate = useNavigate();
+  const { testSettings } = useSettings();
+  const questionCount = questionCountProp ?? testSettings.questionCount;
+  const timeLimit = timeLimitProp ?? testSettings.defaultTimeLimit * 60;
   const [questions, setQuestions] = useState<SynonymAntonymQuestion[]>([]);
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
   const [results, setResults] = useState<SynonymAntonymTestResult[]>([]);
@@ -49,16 +54,19 @@ export const SynonymAntonymTest: React.FC<SynonymAntonymTestProps> = ({
         const elapsed = Date.now() - startTime.getTime();
         const remaining = Math.max(0, (timeLimit * 1000) - elapsed);
         setTimeLeft(remaining);
-        
-        if (remaining === 0) {
-          handleTestComplete();
-        }
       }, 1000);
       
       return () => clearInterval(timer);
     }
   }, [startTime, testCompleted, showFeedback, timeLimit]);
 
+  // Time's up; checked after render so the last answers are included
+  useEffect(() => {
+    if (startTime && !testCompleted && timeLeft === 0) {
+      handleTestComplete();
+    }
+  }, [timeLeft]);
+
   const initializeTest = async () => {
     setLoading(true);
     try {
@@ -125,15 +133,19 @@ export const SynonymAntonymTest: React.FC<SynonymAntonymTestProps> = ({
     setCurrentFeedback(evaluation);
     setShowFeedback(true);
     
+    const wordId = DataManager.getWordId(currentQuestion.wordRecord);
+    const quality = TestGrading.gradeSynonymAntonymAnswer(evaluation.overallScore);
+
     // Save individual test result for progress tracking
     ProgressTracker.saveTestResult({
       testType: 'synonym-antonym',
-      wordId: (currentQuestion.wordRecord as any).id || currentQuestion.wordRecord.word.toLowerCase(),
+      wordId,
       correct: evaluation.overallScore >= 0.7, // Consider good scores as correct
       timeSpent,
       timestamp: new Date(),
-      quality: evaluation.overallScore >= 0.9 ? 5 : evaluation.overallScore >= 0.7 ? 4 : evaluation.overallScore >= 0.5 ? 3 : evaluation.overallScore > 0 ? 2 : 1
+      quality
     });
+    TestGrading.applyToSchedule('synonym-antonym', wordId, quality);
   };
 
   const handleNextQuestion = () => {
@@ -154,6 +166,13 @@ export const SynonymAntonymTest: React.FC<SynonymAntonymTestProps> = ({
     
     const endTime = new Date();
     const totalTime = endTime.getTime() - startTime.getTime();
+    TestGrading.recordSession(
+      'synonym-antonym',
+      startTime,
+      endTime,
+      questions.length,
+      results.filter(r => r.overallScore >= 0.7).length
+    );
     
     setTestCompleted(true);
     
@@ -298,7 +317,9 @@ export const SynonymAntonymTest: React.FC<SynonymAntonymTestProps> = ({
         <div className="word-display">
           <div className="word-box">
             <h1 className="target-word">{currentQuestion.word}</h1>
-            <p className="word-meaning">{currentQuestion.meaning}</p>
+            {testSettings.showHints && (
+              <p className="word-meaning">{currentQuestion.meaning}</p>
+            )}
           </div>
         </div>
         
@@ -0,0 +1,66 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import './TestsMenu.css';
+
+const TEST_OPTIONS = [
+  {
+    path: '/tests/match',
+    variant: 'match',
+    icon: '≈',
+    title: 'Word Matching Test',
+    description: 'Match English words with their Bangla meanings'
+  },
+  {
+    path: '/tests/sentence',
+    variant: 'sentence',
+    icon: '___',
+    title: 'Sentence Fill-in Test',
+    description: 'Complete sentences with the correct words'
+  },
+  {
+    path: '/tests/synonym-antonym',
+    variant: 'synonym-antonym',
+    icon: '⇄',
+    title: 'Synonym/Antonym Test',
+    description: 'Identify synonyms and antonyms'
+  }
+];
+
+export const TestsMenu: React.FC = () => {
+  const navigate = useNavigate();
+
+  return (
+    <div className="tests-menu">
+      <h1 className="tests-menu-title">
+        <span className="tests-menu-badge">T</span>
+        Vocabulary Tests
+      </h1>
+      <p className="tests-menu-subtitle">
+        Test your vocabulary knowledge with different types of challenges
+      </p>
+
+      <div className="tests-menu-options">
+        {TEST_OPTIONS.map(option => (
+          <button
+            key={option.path}
+            className={`test-option ${option.variant}`}
+            onClick={() => navigate(option.path)}
+          >
+            <div className="test-option-header">
+              <span className="test-option-icon">
+                <span>{option.icon}</span>
+              </span>
+              <span>{option.title}</span>
+            </div>
+            <div className="test-option-description">{option.description}</div>
+          </button>
+        ))}
+      </div>
+
+      <button className="tests-menu-back" onClick={() => navigate('/')}>
+        <span className="tests-menu-back-icon">←</span>
+        <span>Back to Dashboard</span>
+      </button>
+    </div>
+  );
+};
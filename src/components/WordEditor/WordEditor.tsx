@@ -0,0 +1,330 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { DataManager } from '../../data/DataManager';
+import { WordRecord } from '../../types';
+import './WordEditor.css';
+
+interface WordForm {
+  word: string;
+  meaning: string;
+  example: string;
+  synonyms: string;
+  antonyms: string;
+}
+
+const EMPTY_FORM: WordForm = {
+  word: '',
+  meaning: '',
+  example: '',
+  synonyms: '',
+  antonyms: ''
+};
+
+const MAX_LIST_RESULTS = 50;
+
+const toForm = (word: WordRecord): WordForm => ({
+  word: word.word,
+  meaning: word.meaning,
+  example: word.example,
+  synonyms: word.synonyms.join(', '),
+  antonyms: word.antonyms.join(', ')
+});
+
+const fromForm = (form: WordForm): WordRecord => ({
+  word: form.word,
+  meaning: form.meaning,
+  example: form.example,
+  synonyms: form.synonyms.split(','),
+  antonyms: form.antonyms.split(',')
+});
+
+export const WordEditor: React.FC = () => {
+  const navigate = useNavigate();
+  const { wordId } = useParams<{ wordId: string }>();
+  const [words, setWords] = useState<WordRecord[]>([]);
+  const [deletedWords, setDeletedWords] = useState<WordRecord[]>([]);
+  const [query, setQuery] = useState('');
+  const [form, setForm] = useState<WordForm>(EMPTY_FORM);
+  const [showDeleted, setShowDeleted] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const isNew = !wordId || wordId === 'new';
+
+  useEffect(() => {
+    loadWords();
+  }, []);
+
+  useEffect(() => {
+    setError(null);
+    setConfirmDelete(false);
+    if (isNew) {
+      setForm(EMPTY_FORM);
+      return;
+    }
+    const word = words.find(w => DataManager.getWordId(w) === wordId);
+    if (word) {
+      setForm(toForm(word));
+    }
+  }, [wordId, words]);
+
+  const loadWords = async () => {
+    try {
+      const allWords = await DataManager.loadWords();
+      setWords([...allWords]);
+      setDeletedWords(DataManager.getDeletedWords());
+    } catch (error) {
+      console.error('Error loading words:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const refresh = () => {
+    setWords([...DataManager.getWords()]);
+    setDeletedWords(DataManager.getDeletedWords());
+  };
+
+  const filteredWords = useMemo(() => {
+    const lowercaseQuery = query.trim().toLowerCase();
+    const matches = lowercaseQuery
+      ? words.filter(w =>
+          w.word.toLowerCase().includes(lowercaseQuery) ||
+          w.meaning.toLowerCase().includes(lowercaseQuery)
+        )
+      : words;
+    return [...matches].sort((a, b) => a.word.localeCompare(b.word));
+  }, [words, query]);
+
+  const updateField = (field: keyof WordForm, value: string) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const runAction = (action: () => void, message: string) => {
+    try {
+      action();
+      setError(null);
+      setNotice(message);
+      refresh();
+      setTimeout(() => setNotice(null), 3000);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Something went wrong');
+    }
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isNew) {
+      runAction(() => {
+        const added = DataManager.addWord(fromForm(form));
+        navigate(`/words/${DataManager.getWordId(added)}`, { replace: true });
+      }, `Added "${form.word.trim()}"`);
+    } else {
+      runAction(() => {
+        DataManager.updateWord(wordId!, fromForm(form));
+      }, 'Changes saved');
+    }
+  };
+
+  const handleDelete = () => {
+    runAction(() => {
+      DataManager.deleteWord(wordId!);
+      navigate('/words', { replace: true });
+    }, `Deleted "${form.word}"`);
+  };
+
+  const handleRevert = (id: string) => {
+    runAction(() => {
+      DataManager.revertWord(id);
+    }, 'Restored the original word');
+  };
+
+  if (loading) {
+    return (
+      <div className="word-editor-loading">
+        <div className="loading-spinner"></div>
+        <p>Loading words...</p>
+      </div>
+    );
+  }
+
+  const status = isNew ? null : DataManager.getWordStatus(wordId!);
+  const wordExists = isNew || words.some(w => DataManager.getWordId(w) === wordId);
+
+  return (
+    <div className="word-editor">
+      <div className="word-editor-header">
+        <button className="back-button" onClick={() => navigate('/')}>
+          ← Back to Dashboard
+        </button>
+        <h1>
+          <span className="icon">✎</span>
+          Word Editor
+        </h1>
+        <p className="subtitle">
+          Add missing words or fix meanings and examples. Your changes are kept when the word list updates.
+        </p>
+      </div>
+
+      {notice && <div className="word-editor-notice">{notice}</div>}
+
+      <div className="word-editor-layout">
+        <div className="word-list-panel">
+          <div className="word-list-toolbar">
+            <input
+              type="search"
+              placeholder="Search words or meanings..."
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+            />
+            <button className="add-word-button" onClick={() => navigate('/words/new')}>
+              ＋ New
+            </button>
+            <button className="import-words-button" title="Import from CSV, TSV or Anki" onClick={() => navigate('/words/import')}>
+              ⇪
+            </button>
+            <button className="import-words-button" title="Export to CSV, Anki or a printable sheet" onClick={() => navigate('/words/export')}>
+              ⇩
+            </button>
+          </div>
+
+          <div className="word-list">
+            {filteredWords.slice(0, MAX_LIST_RESULTS).map(word => {
+              const id = DataManager.getWordId(word);
+              const wordStatus = DataManager.getWordStatus(id);
+              return (
+                <button
+                  key={id}
+                  className={`word-list-item ${id === wordId ? 'selected' : ''}`}
+                  onClick={() => navigate(`/words/${id}`)}
+                >
+                  <span className="word-list-word">{word.word}</span>
+                  {wordStatus !== 'bundled' && (
+                    <span className={`word-badge ${wordStatus}`}>
+                      {wordStatus === 'added' ? 'Custom' : 'Edited'}
+                    </span>
+                  )}
+                </button>
+              );
+            })}
+            {filteredWords.length > MAX_LIST_RESULTS && (
+              <p className="word-list-more">
+                Showing {MAX_LIST_RESULTS} of {filteredWords.length} — refine your search
+              </p>
+            )}
+            {filteredWords.length === 0 && <p className="word-list-more">No matching words</p>}
+          </div>
+
+          {deletedWords.length > 0 && (
+            <div className="deleted-words">
+              <button className="deleted-toggle" onClick={() => setShowDeleted(!showDeleted)}>
+                {showDeleted ? '▾' : '▸'} Deleted words ({deletedWords.length})
+              </button>
+              {showDeleted && deletedWords.map(word => (
+                <div key={DataManager.getWordId(word)} className="deleted-word">
+                  <span>{word.word}</span>
+                  <button onClick={() => handleRevert(DataManager.getWordId(word))}>Restore</button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <form className="word-form" onSubmit={handleSave}>
+          {!wordExists ? (
+            <p className="word-form-missing">This word no longer exists. Pick another one from the list.</p>
+          ) : (
+            <>
+              <h2>
+                {isNew ? 'Add a Word' : 'Edit Word'}
+                {status === 'edited' && <span className="word-badge edited">Edited</span>}
+                {status === 'added' && <span className="word-badge added">Custom</span>}
+              </h2>
+
+              <label>
+                Word
+                <input
+                  type="text"
+                  value={form.word}
+                  onChange={(e) => updateField('word', e.target.value)}
+                  required
+                />
+              </label>
+
+              <label>
+                Meaning (Bangla)
+                <input
+                  type="text"
+                  value={form.meaning}
+                  onChange={(e) => updateField('meaning', e.target.value)}
+                  required
+                />
+              </label>
+
+              <label>
+                Example sentence
+                <textarea
+                  rows={3}
+                  value={form.example}
+                  onChange={(e) => updateField('example', e.target.value)}
+                />
+              </label>
+
+              <label>
+                Synonyms <span className="field-hint">comma separated</span>
+                <input
+                  type="text"
+                  value={form.synonyms}
+                  onChange={(e) => updateField('synonyms', e.target.value)}
+                />
+              </label>
+
+              <label>
+                Antonyms <span className="field-hint">comma separated</span>
+                <input
+                  type="text"
+                  value={form.antonyms}
+                  onChange={(e) => updateField('antonyms', e.target.value)}
+                />
+              </label>
+
+              {error && <p className="word-form-error">{error}</p>}
+
+              <div className="word-form-actions">
+                <button type="submit" className="save-button">
+                  {isNew ? 'Add Word' : 'Save Changes'}
+                </button>
+                {status === 'edited' && (
+                  <button type="button" className="secondary-button" onClick={() => handleRevert(wordId!)}>
+                    Revert to Original
+                  </button>
+                )}
+                {!isNew && !confirmDelete && (
+                  <button type="button" className="delete-button" onClick={() => setConfirmDelete(true)}>
+                    Delete
+                  </button>
+                )}
+              </div>
+
+              {confirmDelete && (
+                <div className="word-form-confirm">
+                  <p>
+                    {status === 'added'
+                      ? 'Delete this word permanently?'
+                      : 'Hide this word from sessions and tests? You can restore it later.'}
+                  </p>
+                  <button type="button" className="delete-button" onClick={handleDelete}>Delete</button>
+                  <button type="button" className="secondary-button" onClick={() => setConfirmDelete(false)}>
+                    Cancel
+                  </button>
+                </div>
+              )}
+            </>
+          )}
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,211 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { DeckManager } from '../../data/DeckManager';
+import { WordExporter, ExportFilter, ExportRow, MasteryBand } from '../../services/WordExporter';
+import { Deck } from '../../types';
+import './WordExport.css';
+
+const LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'.split('');
+const PREVIEW_LIMIT = 10;
+
+export const WordExport: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const [decks, setDecks] = useState<Deck[]>([]);
+  const [filter, setFilter] = useState<ExportFilter>({
+    deckId: searchParams.get('deck') || undefined,
+    weakOnly: searchParams.get('weak') === '1'
+  });
+  const [rows, setRows] = useState<ExportRow[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setDecks(DeckManager.getDecks());
+  }, []);
+
+  useEffect(() => {
+    loadRows();
+  }, [filter]);
+
+  const loadRows = async () => {
+    try {
+      setRows(await WordExporter.selectRows(filter));
+    } catch (error) {
+      console.error('Error selecting words for export:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateFilter = (changes: Partial<ExportFilter>) => {
+    setFilter(prev => ({ ...prev, ...changes }));
+  };
+
+  const deckName = filter.deckId ? decks.find(deck => deck.id === filter.deckId)?.name : undefined;
+
+  const getTitle = () => {
+    const parts = [deckName || 'WordPlay'];
+    if (filter.letter) parts.push(`Letter ${filter.letter}`);
+    if (filter.masteryBand) parts.push(WordExporter.getBandLabel(filter.masteryBand));
+    if (filter.weakOnly) parts.push(filter.limit ? `${filter.limit} weakest words` : 'Weak words');
+    return parts.join(' · ');
+  };
+
+  const getFileName = (extension: string) => {
+    const base = getTitle().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    return `${base || 'wordplay'}-${new Date().toISOString().split('T')[0]}.${extension}`;
+  };
+
+  const download = (content: string, fileName: string, type: string) => {
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleCsv = () => {
+    download(WordExporter.toCsv(rows), getFileName('csv'), 'text/csv;charset=utf-8');
+  };
+
+  const handleAnki = () => {
+    download(WordExporter.toAnkiTsv(rows, deckName), getFileName('txt'), 'text/plain;charset=utf-8');
+  };
+
+  const handleHtml = () => {
+    download(WordExporter.toPrintableHtml(rows, getTitle()), getFileName('html'), 'text/html;charset=utf-8');
+  };
+
+  // Opens the sheet in a new window; "Save as PDF" in the print dialog produces the PDF
+  const handlePrint = () => {
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) return;
+    printWindow.document.write(WordExporter.toPrintableHtml(rows, getTitle()));
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+  };
+
+  return (
+    <div className="word-export">
+      <div className="word-export-header">
+        <button className="back-button" onClick={() => navigate(-1)}>
+          ← Back
+        </button>
+        <h1>
+          <span className="icon">⇩</span>
+          Export Words
+        </h1>
+        <p className="subtitle">
+          Share word lists with their review progress as a spreadsheet, an Anki deck or a printable study sheet
+        </p>
+      </div>
+
+      <section className="export-filters">
+        <label>
+          Deck
+          <select
+            value={filter.deckId || ''}
+            onChange={(e) => updateFilter({ deckId: e.target.value || undefined })}
+          >
+            <option value="">All words</option>
+            {decks.map(deck => (
+              <option key={deck.id} value={deck.id}>{deck.name}</option>
+            ))}
+          </select>
+        </label>
+
+        <label>
+          Letter
+          <select
+            value={filter.letter || ''}
+            onChange={(e) => updateFilter({ letter: e.target.value || undefined })}
+          >
+            <option value="">Any</option>
+            {LETTERS.map(letter => (
+              <option key={letter} value={letter}>{letter}</option>
+            ))}
+          </select>
+        </label>
+
+        <label>
+          Mastery
+          <select
+            value={filter.masteryBand || ''}
+            onChange={(e) => updateFilter({ masteryBand: (e.target.value || undefined) as MasteryBand | undefined })}
+          >
+            <option value="">Any</option>
+            {WordExporter.MASTERY_BANDS.map(band => (
+              <option key={band.id} value={band.id}>{band.label}</option>
+            ))}
+          </select>
+        </label>
+
+        <label>
+          Limit
+          <input
+            type="number"
+            min="0"
+            placeholder="All"
+            value={filter.limit || ''}
+            onChange={(e) => updateFilter({ limit: parseInt(e.target.value) || undefined })}
+          />
+        </label>
+
+        <label className="checkbox-filter">
+          <input
+            type="checkbox"
+            checked={!!filter.weakOnly}
+            onChange={(e) => updateFilter({ weakOnly: e.target.checked })}
+          />
+          Weak words only (lowest accuracy first)
+        </label>
+
+        <button
+          className="weakest-preset"
+          onClick={() => updateFilter({ weakOnly: true, limit: 50, masteryBand: undefined, letter: undefined })}
+        >
+          50 weakest words
+        </button>
+      </section>
+
+      <section className="export-preview">
+        <h2>{loading ? 'Loading...' : `${rows.length} word${rows.length === 1 ? '' : 's'} selected`}</h2>
+        {rows.length > 0 && (
+          <ul>
+            {rows.slice(0, PREVIEW_LIMIT).map(row => (
+              <li key={row.wordId}>
+                <strong>{row.word.word}</strong> — {row.word.meaning}
+                <span className={`export-band ${row.band}`}>{WordExporter.getBandLabel(row.band)}</span>
+              </li>
+            ))}
+            {rows.length > PREVIEW_LIMIT && <li className="more">…and {rows.length - PREVIEW_LIMIT} more</li>}
+          </ul>
+        )}
+      </section>
+
+      <section className="export-actions">
+        <button disabled={rows.length === 0} onClick={handleCsv}>
+          <strong>CSV</strong>
+          <span>Spreadsheet with review stats</span>
+        </button>
+        <button disabled={rows.length === 0} onClick={handleAnki}>
+          <strong>Anki</strong>
+          <span>Plain-text notes tagged by mastery</span>
+        </button>
+        <button disabled={rows.length === 0} onClick={handleHtml}>
+          <strong>HTML</strong>
+          <span>Study sheet file</span>
+        </button>
+        <button disabled={rows.length === 0} onClick={handlePrint}>
+          <strong>Print / PDF</strong>
+          <span>Open the sheet and print or save as PDF</span>
+        </button>
+      </section>
+    </div>
+  );
+};
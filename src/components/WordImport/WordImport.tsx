@@ -0,0 +1,337 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { DataManager } from '../../data/DataManager';
+import { DeckManager } from '../../data/DeckManager';
+import {
+  WordImporter,
+  ColumnMapping,
+  ImportFormat,
+  ImportResult,
+  ImportField
+} from '../../services/WordImporter';
+import { Deck } from '../../types';
+import './WordImport.css';
+
+const PREVIEW_LIMIT = 200;
+
+const LIST_DELIMITERS = [
+  { value: ';', label: 'Semicolon ( ; )' },
+  { value: ',', label: 'Comma ( , )' },
+  { value: '|', label: 'Pipe ( | )' },
+  { value: '/', label: 'Slash ( / )' }
+];
+
+export const WordImport: React.FC = () => {
+  const navigate = useNavigate();
+  const [text, setText] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [format, setFormat] = useState<ImportFormat>('csv');
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [listDelimiter, setListDelimiter] = useState(';');
+  const [decks, setDecks] = useState<Deck[]>([]);
+  const [targetMode, setTargetMode] = useState<'new' | 'existing'>('new');
+  const [targetDeckId, setTargetDeckId] = useState('');
+  const [newDeckName, setNewDeckName] = useState('');
+  const [linkExisting, setLinkExisting] = useState(true);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [wordsLoaded, setWordsLoaded] = useState(false);
+
+  useEffect(() => {
+    // Duplicate detection needs the full word list
+    DataManager.loadWords().then(() => setWordsLoaded(true));
+    const loadedDecks = DeckManager.getDecks();
+    setDecks(loadedDecks);
+    if (loadedDecks.length > 0) {
+      setTargetDeckId(loadedDecks[0].id);
+    }
+  }, []);
+
+  const parsed = useMemo(
+    () => (text.trim() ? WordImporter.parse(text, format, hasHeader) : null),
+    [text, format, hasHeader]
+  );
+
+  // Re-guess the mapping whenever the columns change shape
+  const columnsKey = parsed ? parsed.columns.join('\u0000') : '';
+  useEffect(() => {
+    setMapping(parsed ? WordImporter.guessMapping(parsed) : null);
+  }, [columnsKey]);
+
+  const preview = useMemo(
+    () => (parsed && mapping && wordsLoaded ? WordImporter.buildPreview(parsed, mapping, listDelimiter) : []),
+    [parsed, mapping, listDelimiter, wordsLoaded]
+  );
+
+  const counts = useMemo(() => ({
+    ready: preview.filter(row => row.errors.length === 0 && row.duplicate === null).length,
+    existing: preview.filter(row => row.errors.length === 0 && row.duplicate === 'existing').length,
+    repeated: preview.filter(row => row.duplicate === 'file').length,
+    invalid: preview.filter(row => row.errors.length > 0).length
+  }), [preview]);
+
+  const loadText = (content: string, name: string) => {
+    setText(content);
+    setFileName(name);
+    setFormat(WordImporter.detectFormat(content, name));
+    setResult(null);
+    setError(null);
+    if (!newDeckName && name) {
+      setNewDeckName(name.replace(/\.[^.]+$/, ''));
+    }
+  };
+
+  const handlePaste = (content: string) => {
+    // Only guess the format when starting fresh, so a manual choice sticks while editing
+    if (!text.trim()) {
+      setFormat(WordImporter.detectFormat(content));
+    }
+    setText(content);
+    setResult(null);
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      const reader = new FileReader();
+      reader.onload = (e) => loadText(e.target?.result as string, file.name);
+      reader.readAsText(file);
+    }
+    // Reset input value so the same file can be selected again
+    event.target.value = '';
+  };
+
+  const updateMapping = (field: ImportField, value: string) => {
+    if (!mapping) return;
+    setMapping({ ...mapping, [field]: value === '' ? null : parseInt(value) });
+  };
+
+  const handleImport = () => {
+    try {
+      const target = targetMode === 'existing'
+        ? { deckId: targetDeckId }
+        : { newDeckName };
+      setResult(WordImporter.importRows(preview, target, linkExisting));
+      setError(null);
+      setText('');
+      setFileName('');
+      setDecks(DeckManager.getDecks());
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Import failed');
+    }
+  };
+
+  const importable = counts.ready + (linkExisting ? counts.existing : 0);
+  const targetReady = targetMode === 'existing' ? !!targetDeckId : !!newDeckName.trim();
+
+  return (
+    <div className="word-import">
+      <div className="word-import-header">
+        <button className="back-button" onClick={() => navigate('/words')}>
+          ← Back to Word Editor
+        </button>
+        <h1>
+          <span className="icon">⇪</span>
+          Import Words
+        </h1>
+        <p className="subtitle">
+          Bring in lists from spreadsheets (CSV/TSV) or Anki plain-text note exports
+        </p>
+      </div>
+
+      {result && (
+        <div className="import-result">
+          <p>
+            Added <strong>{result.added}</strong> new word{result.added === 1 ? '' : 's'}
+            {result.linked > 0 && <> and linked <strong>{result.linked}</strong> existing</>} to
+            "{result.deck.name}"{result.skipped > 0 && <> — {result.skipped} row(s) skipped</>}.
+          </p>
+          <button onClick={() => navigate('/decks')}>Go to Decks</button>
+        </div>
+      )}
+
+      <section className="import-step">
+        <h2>1. Choose a file</h2>
+        <div className="import-source">
+          <label className="file-button">
+            Select File
+            <input
+              type="file"
+              accept=".csv,.tsv,.txt"
+              onChange={handleFileChange}
+              style={{ display: 'none' }}
+            />
+          </label>
+          <span className="file-name">{fileName || 'or paste rows below'}</span>
+        </div>
+        <textarea
+          className="import-paste"
+          rows={5}
+          placeholder={'word,meaning,example,synonyms,antonyms\nAbate,কমানো,The storm began to abate.,subside; lessen,intensify'}
+          value={text}
+          onChange={(e) => handlePaste(e.target.value)}
+        />
+      </section>
+
+      {parsed && mapping && (
+        <>
+          <section className="import-step">
+            <h2>2. Map columns</h2>
+            <div className="import-options">
+              <label>
+                Format
+                <select value={format} onChange={(e) => setFormat(e.target.value as ImportFormat)}>
+                  <option value="csv">CSV</option>
+                  <option value="tsv">TSV (tab separated)</option>
+                  <option value="anki">Anki notes (plain text)</option>
+                </select>
+              </label>
+              {format !== 'anki' && (
+                <label className="checkbox-option">
+                  <input type="checkbox" checked={hasHeader} onChange={(e) => setHasHeader(e.target.checked)} />
+                  First row is a header
+                </label>
+              )}
+              <label>
+                Synonym/antonym separator
+                <select value={listDelimiter} onChange={(e) => setListDelimiter(e.target.value)}>
+                  {LIST_DELIMITERS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            <div className="mapping-grid">
+              {WordImporter.FIELDS.map(field => (
+                <label key={field.id}>
+                  {field.label}{field.required && <span className="required">*</span>}
+                  <select
+                    value={mapping[field.id] ?? ''}
+                    onChange={(e) => updateMapping(field.id, e.target.value)}
+                  >
+                    <option value="">— not imported —</option>
+                    {parsed.columns.map((column, index) => (
+                      <option key={index} value={index}>
+                        {column}{parsed.rows[0]?.[index] ? ` (e.g. ${parsed.rows[0][index].slice(0, 24)})` : ''}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+          </section>
+
+          <section className="import-step">
+            <h2>3. Preview</h2>
+            <div className="preview-counts">
+              <span className="count ready">{counts.ready} new</span>
+              <span className="count existing">{counts.existing} already in list</span>
+              <span className="count repeated">{counts.repeated} repeated in file</span>
+              <span className="count invalid">{counts.invalid} with errors</span>
+            </div>
+
+            <div className="preview-table-wrapper">
+              <table className="preview-table">
+                <thead>
+                  <tr>
+                    <th>#</th>
+                    <th>Word</th>
+                    <th>Meaning</th>
+                    <th>Example</th>
+                    <th>Synonyms</th>
+                    <th>Antonyms</th>
+                    <th>Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.slice(0, PREVIEW_LIMIT).map(row => (
+                    <tr
+                      key={row.rowNumber}
+                      className={row.errors.length > 0 ? 'row-invalid' : row.duplicate ? 'row-duplicate' : ''}
+                    >
+                      <td>{row.rowNumber}</td>
+                      <td>{row.word.word}</td>
+                      <td>{row.word.meaning}</td>
+                      <td>{row.word.example}</td>
+                      <td>{row.word.synonyms.join(', ')}</td>
+                      <td>{row.word.antonyms.join(', ')}</td>
+                      <td>
+                        {row.errors.map(message => (
+                          <div key={message} className="row-error">{message}</div>
+                        ))}
+                        {row.errors.length === 0 && row.duplicate === 'existing' && 'Already in word list'}
+                        {row.duplicate === 'file' && 'Repeated in file'}
+                        {row.errors.length === 0 && row.duplicate === null && '✓'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {preview.length > PREVIEW_LIMIT && (
+              <p className="preview-more">Showing the first {PREVIEW_LIMIT} of {preview.length} rows</p>
+            )}
+          </section>
+
+          <section className="import-step">
+            <h2>4. Add to a deck</h2>
+            <div className="target-options">
+              <label className="checkbox-option">
+                <input
+                  type="radio"
+                  checked={targetMode === 'new'}
+                  onChange={() => setTargetMode('new')}
+                />
+                New deck
+                <input
+                  type="text"
+                  value={newDeckName}
+                  placeholder="Deck name"
+                  onChange={(e) => setNewDeckName(e.target.value)}
+                  onFocus={() => setTargetMode('new')}
+                />
+              </label>
+              <label className="checkbox-option">
+                <input
+                  type="radio"
+                  checked={targetMode === 'existing'}
+                  disabled={decks.length === 0}
+                  onChange={() => setTargetMode('existing')}
+                />
+                Existing deck
+                <select
+                  value={targetDeckId}
+                  disabled={decks.length === 0}
+                  onChange={(e) => {
+                    setTargetDeckId(e.target.value);
+                    setTargetMode('existing');
+                  }}
+                >
+                  {decks.map(deck => (
+                    <option key={deck.id} value={deck.id}>{deck.name}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="checkbox-option">
+                <input type="checkbox" checked={linkExisting} onChange={(e) => setLinkExisting(e.target.checked)} />
+                Add words that are already in the list to the deck
+              </label>
+            </div>
+
+            {error && <p className="import-error">{error}</p>}
+
+            <button
+              className="import-button"
+              disabled={importable === 0 || !targetReady}
+              onClick={handleImport}
+            >
+              Import {importable} word{importable === 1 ? '' : 's'}
+            </button>
+          </section>
+        </>
+      )}
+    </div>
+  );
+};
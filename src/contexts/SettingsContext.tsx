@@ -0,0 +1,43 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { SettingsService, UserSettings } from '../services/SettingsService';
+
+const SettingsContext = createContext<UserSettings>(SettingsService.get());
+
+/**
+ * Provides the current settings to the app and re-renders consumers when
+ * they change. Appearance settings are mirrored onto <html> as data
+ * attributes so stylesheets can react to them.
+ */
+export const SettingsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [settings, setSettings] = useState<UserSettings>(SettingsService.get());
+
+  useEffect(() => SettingsService.subscribe(setSettings), []);
+
+  const { theme, fontSize, animations } = settings.appearanceSettings;
+  useEffect(() => {
+    const root = document.documentElement;
+    root.dataset.fontSize = fontSize;
+    root.dataset.animations = animations ? 'on' : 'off';
+  }, [fontSize, animations]);
+
+  // Auto follows the system setting, including changes while the app is open
+  useEffect(() => {
+    const root = document.documentElement;
+    if (theme !== 'auto') {
+      root.dataset.theme = theme;
+      return;
+    }
+
+    const query = window.matchMedia('(prefers-color-scheme: dark)');
+    const apply = () => {
+      root.dataset.theme = query.matches ? 'dark' : 'light';
+    };
+    apply();
+    query.addEventListener('change', apply);
+    return () => query.removeEventListener('change', apply);
+  }, [theme]);
+
+  return <SettingsContext.Provider value={settings}>{children}</SettingsContext.Provider>;
+};
+
+export const useSettings = (): UserSettings => useContext(SettingsContext);
@@ -1,34 +1,66 @@
 import { WordRecord } from '../types';
+import { WordOverrides } from './WordOverrides';
+import { WordIdMigration } from './WordIdMigration';
+import { ReviewLog } from '../services/ReviewLog';
 
 export class DataManager {
+  private static bundledWords: WordRecord[] = [];
   private static words: WordRecord[] = [];
 
   static async loadWords(): Promise<WordRecord[]> {
-    if (this.words.length === 0) {
+    if (this.bundledWords.length === 0) {
       try {
         const response = await fetch('/words.txt');
         const text = await response.text();
         const wordsData = JSON.parse(text);
-        this.words = wordsData.map((word: any, index: number) => ({
-          ...word,
-          id: word.word.toLowerCase() + '-' + index
-        }));
+        const seen = new Map<string, number>();
+        this.bundledWords = wordsData.map((word: any) => {
+          // IDs come from the word itself so inserting a word doesn't shift the others
+          const baseId = this.createWordId(word.word);
+          const count = (seen.get(baseId) || 0) + 1;
+          seen.set(baseId, count);
+          return { ...word, id: count === 1 ? baseId : `${baseId}-${count}` };
+        });
       } catch (error) {
         console.error('Error loading words:', error);
-        this.words = [];
+        this.bundledWords = [];
       }
+      if (this.bundledWords.length > 0) {
+        WordIdMigration.runOnce(this.bundledWords);
+        // The review log's starting state must use the migrated IDs
+        ReviewLog.ensureBaseline();
+      }
+      this.words = WordOverrides.apply(this.bundledWords);
     }
     return this.words;
   }
 
+  // Re-apply user overrides after an add, edit or delete
+  private static refreshWords(): void {
+    this.words = WordOverrides.apply(this.bundledWords);
+  }
+
   static getWords(): WordRecord[] {
     return this.words;
   }
 
+  // The shipped list without user overrides applied
+  static getBundledWords(): WordRecord[] {
+    return this.bundledWords;
+  }
+
+  static createWordId(word: string): string {
+    return word.trim().toLowerCase().replace(/\s+/g, '-');
+  }
+
   static getWordById(id: string): WordRecord | undefined {
     return this.words.find(word => (word as any).id === id);
   }
 
+  static getWordId(word: WordRecord): string {
+    return (word as any).id || this.createWordId(word.word);
+  }
+
   static getRandomWords(count: number): WordRecord[] {
     const shuffled = [...this.words].sort(() => Math.random() - 0.5);
     return shuffled.slice(0, count);
@@ -57,6 +89,124 @@ export class DataManager {
     );
   }
 
+  private static cleanWordInput(input: WordRecord): WordRecord {
+    const cleanList = (items: string[]) => [...new Set(items.map(item => item.trim()).filter(Boolean))];
+    return {
+      word: input.word?.trim(),
+      meaning: input.meaning?.trim(),
+      example: (input.example ?? '').trim(),
+      synonyms: Array.isArray(input.synonyms) ? cleanList(input.synonyms) : input.synonyms,
+      antonyms: Array.isArray(input.antonyms) ? cleanList(input.antonyms) : input.antonyms
+    };
+  }
+
+  // Field problems with a word, empty when it can be saved
+  static getWordErrors(input: WordRecord): string[] {
+    const word = this.cleanWordInput(input);
+    if (!this.validateWordData([word])) {
+      return ['Word data is malformed'];
+    }
+    const errors: string[] = [];
+    if (!word.word) errors.push('Word cannot be empty');
+    if (!word.meaning) errors.push('Meaning cannot be empty');
+    return errors;
+  }
+
+  private static normalizeWordInput(input: WordRecord): WordRecord {
+    const errors = this.getWordErrors(input);
+    if (errors.length > 0) {
+      throw new Error(errors[0]);
+    }
+    return this.cleanWordInput(input);
+  }
+
+  // Same rule as deduplicateWords: spelling compared case-insensitively
+  private static assertUniqueWord(word: string, exceptId?: string): void {
+    const key = word.toLowerCase();
+    const existing = this.words.find(w => w.word.toLowerCase() === key && this.getWordId(w) !== exceptId);
+    if (existing) {
+      throw new Error(`"${existing.word}" is already in the word list`);
+    }
+  }
+
+  static addWord(input: WordRecord): WordRecord {
+    return this.addWords([input])[0];
+  }
+
+  // All-or-nothing: nothing is saved if any word is invalid or already present
+  static addWords(inputs: WordRecord[]): WordRecord[] {
+    const words = inputs.map(input => this.normalizeWordInput(input));
+    const seen = new Set<string>();
+    words.forEach(word => {
+      this.assertUniqueWord(word.word);
+      const key = word.word.toLowerCase();
+      if (seen.has(key)) {
+        throw new Error(`"${word.word}" appears more than once`);
+      }
+      seen.add(key);
+    });
+
+    const now = new Date();
+    const added = words.map(word => ({
+      id: WordOverrides.generateUserWordId(),
+      type: 'added' as const,
+      word,
+      lastModified: now
+    }));
+    WordOverrides.saveOverrides([...WordOverrides.getOverrides(), ...added]);
+    this.refreshWords();
+    return added.map(override => this.getWordById(override.id)!);
+  }
+
+  // Case-insensitive lookup, the same key deduplicateWords uses
+  static findWordBySpelling(word: string): WordRecord | undefined {
+    const key = word.trim().toLowerCase();
+    return this.words.find(w => w.word.toLowerCase() === key);
+  }
+
+  static updateWord(id: string, input: WordRecord): WordRecord {
+    if (!this.getWordById(id)) {
+      throw new Error('Word not found');
+    }
+    const word = this.normalizeWordInput(input);
+    this.assertUniqueWord(word.word, id);
+
+    // User-added words stay 'added' so they still survive without a bundled entry
+    const type = WordOverrides.isUserWordId(id) ? 'added' : 'edited';
+    WordOverrides.setOverride({ id, type, word, lastModified: new Date() });
+    this.refreshWords();
+    return this.getWordById(id)!;
+  }
+
+  // Progress for the word is kept so restoring it brings its history back
+  static deleteWord(id: string): void {
+    if (WordOverrides.isUserWordId(id)) {
+      WordOverrides.removeOverride(id);
+    } else {
+      WordOverrides.setOverride({ id, type: 'deleted', lastModified: new Date() });
+    }
+    this.refreshWords();
+  }
+
+  // Drop any edit or deletion of a bundled word, back to the shipped version
+  static revertWord(id: string): void {
+    if (WordOverrides.isUserWordId(id)) return;
+    WordOverrides.removeOverride(id);
+    this.refreshWords();
+  }
+
+  static getDeletedWords(): WordRecord[] {
+    const deletedIds = new Set(
+      WordOverrides.getOverrides().filter(o => o.type === 'deleted').map(o => o.id)
+    );
+    return this.bundledWords.filter(word => deletedIds.has(this.getWordId(word)));
+  }
+
+  static getWordStatus(id: string): 'bundled' | 'edited' | 'added' {
+    if (WordOverrides.isUserWordId(id)) return 'added';
+    return WordOverrides.getOverride(id)?.type === 'edited' ? 'edited' : 'bundled';
+  }
+
   static deduplicateWords(words: WordRecord[]): WordRecord[] {
     const seen = new Set<string>();
     return words.filter(word => {
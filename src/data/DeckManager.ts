@@ -0,0 +1,120 @@
+import { Deck, WordRecord } from '../types';
+import { DataManager } from './DataManager';
+
+/**
+ * DeckManager - Named word collections on top of the bundled word list
+ *
+ * Decks only hold word IDs; progress stays keyed per word in ProgressTracker,
+ * so the same word can sit in several decks and share one review history.
+ */
+export class DeckManager {
+  private static readonly STORAGE_KEY = 'wordplay-decks';
+
+  static readonly DEFAULT_NEW_CARD_LIMIT = 10;
+
+  static getDecks(): Deck[] {
+    const data = localStorage.getItem(this.STORAGE_KEY);
+    return data ? JSON.parse(data).map((d: any) => ({
+      ...d,
+      createdAt: new Date(d.createdAt),
+      lastModified: new Date(d.lastModified)
+    })) : [];
+  }
+
+  static saveDecks(decks: Deck[]): void {
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(decks));
+  }
+
+  static getDeck(deckId: string): Deck | undefined {
+    return this.getDecks().find(deck => deck.id === deckId);
+  }
+
+  static createDeck(
+    name: string,
+    options: { wordIds?: string[]; newCardLimit?: number } = {}
+  ): Deck {
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      throw new Error('Deck name cannot be empty');
+    }
+
+    const decks = this.getDecks();
+    if (decks.some(deck => deck.name.toLowerCase() === trimmedName.toLowerCase())) {
+      throw new Error(`A deck named "${trimmedName}" already exists`);
+    }
+
+    const now = new Date();
+    const deck: Deck = {
+      id: `deck-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      name: trimmedName,
+      wordIds: [...new Set(options.wordIds || [])],
+      newCardLimit: options.newCardLimit ?? this.DEFAULT_NEW_CARD_LIMIT,
+      createdAt: now,
+      lastModified: now
+    };
+
+    this.saveDecks([...decks, deck]);
+    return deck;
+  }
+
+  static updateDeck(deckId: string, changes: Partial<Omit<Deck, 'id' | 'createdAt'>>): Deck {
+    const decks = this.getDecks();
+    const index = decks.findIndex(deck => deck.id === deckId);
+    if (index < 0) {
+      throw new Error('Deck not found');
+    }
+
+    if (changes.name !== undefined) {
+      const trimmedName = changes.name.trim();
+      if (!trimmedName) {
+        throw new Error('Deck name cannot be empty');
+      }
+      if (decks.some(deck => deck.id !== deckId && deck.name.toLowerCase() === trimmedName.toLowerCase())) {
+        throw new Error(`A deck named "${trimmedName}" already exists`);
+      }
+      changes = { ...changes, name: trimmedName };
+    }
+
+    const updated: Deck = { ...decks[index], ...changes, lastModified: new Date() };
+    decks[index] = updated;
+    this.saveDecks(decks);
+    return updated;
+  }
+
+  static renameDeck(deckId: string, name: string): Deck {
+    return this.updateDeck(deckId, { name });
+  }
+
+  static deleteDeck(deckId: string): void {
+    this.saveDecks(this.getDecks().filter(deck => deck.id !== deckId));
+  }
+
+  static addWords(deckId: string, wordIds: string[]): Deck {
+    const deck = this.getDeck(deckId);
+    if (!deck) {
+      throw new Error('Deck not found');
+    }
+    return this.updateDeck(deckId, { wordIds: [...new Set([...deck.wordIds, ...wordIds])] });
+  }
+
+  static removeWords(deckId: string, wordIds: string[]): Deck {
+    const deck = this.getDeck(deckId);
+    if (!deck) {
+      throw new Error('Deck not found');
+    }
+    const toRemove = new Set(wordIds);
+    return this.updateDeck(deckId, { wordIds: deck.wordIds.filter(id => !toRemove.has(id)) });
+  }
+
+  static getDecksForWord(wordId: string): Deck[] {
+    return this.getDecks().filter(deck => deck.wordIds.includes(wordId));
+  }
+
+  // Resolve a deck's word IDs against the loaded word list, skipping IDs that no longer exist
+  static getDeckWords(deck: Deck, allWords: WordRecord[] = DataManager.getWords()): WordRecord[] {
+    const wordsById = new Map(allWords.map(word => [DataManager.getWordId(word), word]));
+    return deck.wordIds
+      .map(id => wordsById.get(id))
+      .filter((word): word is WordRecord => word !== undefined);
+  }
+}
@@ -0,0 +1,169 @@
+import { UserProgress, WordRecord } from '../types';
+import { ProgressTracker } from '../services/ProgressTracker';
+import { DeckManager } from './DeckManager';
+import { WordOverrides } from './WordOverrides';
+
+export type MigratedStore = 'userProgress' | 'testResults' | 'decks' | 'wordOverrides';
+
+export interface UnmappedRecord {
+  store: MigratedStore;
+  wordId: string;
+}
+
+export interface WordIdMigrationReport {
+  migratedAt: Date;
+  remapped: Record<MigratedStore, number>;
+  merged: number; // progress records that collapsed onto an existing record for the same word
+  unmapped: UnmappedRecord[];
+}
+
+/**
+ * WordIdMigration - Moves stored data from index-based to content-based word IDs
+ *
+ * Old IDs looked like `abate-12`: the lowercased word plus its position in
+ * words.txt. The position is unreliable, but the word part isn't, so old IDs
+ * are resolved by spelling against the current list. Records that can't be
+ * resolved are left untouched and listed in the report. Sessions don't
+ * reference words, so only progress, test results, decks and overrides move.
+ */
+export class WordIdMigration {
+  private static readonly STORAGE_KEY = 'wordplay-word-id-migration';
+  private static readonly LEGACY_ID_PATTERN = /^(.+)-\d+$/;
+
+  static getReport(): WordIdMigrationReport | null {
+    const data = localStorage.getItem(this.STORAGE_KEY);
+    if (!data) return null;
+    const report = JSON.parse(data);
+    return { ...report, migratedAt: new Date(report.migratedAt) };
+  }
+
+  private static createResolver(bundledWords: WordRecord[]): (wordId: string) => string | null {
+    const validIds = new Set(bundledWords.map(word => (word as any).id as string));
+    const idsBySpelling = new Map<string, string>();
+    bundledWords.forEach(word => {
+      const key = word.word.trim().toLowerCase();
+      if (!idsBySpelling.has(key)) {
+        idsBySpelling.set(key, (word as any).id);
+      }
+    });
+
+    return (wordId: string) => {
+      if (validIds.has(wordId) || WordOverrides.isUserWordId(wordId)) return wordId;
+      const legacy = wordId.match(this.LEGACY_ID_PATTERN);
+      if (legacy && idsBySpelling.has(legacy[1])) return idsBySpelling.get(legacy[1])!;
+      return idsBySpelling.get(wordId.toLowerCase()) ?? null;
+    };
+  }
+
+  /**
+   * Return a remapped copy of a backup or sync payload ({ userProgress, testResults, ... }).
+   * Used for data that arrives after the local migration already ran.
+   */
+  static remapData(data: any, bundledWords: WordRecord[]): { data: any; report: WordIdMigrationReport } {
+    const resolve = this.createResolver(bundledWords);
+    const report: WordIdMigrationReport = {
+      migratedAt: new Date(),
+      remapped: { userProgress: 0, testResults: 0, decks: 0, wordOverrides: 0 },
+      merged: 0,
+      unmapped: []
+    };
+
+    const result = { ...data };
+
+    if (Array.isArray(data.userProgress)) {
+      const byId = new Map<string, UserProgress>();
+      data.userProgress.forEach((progress: UserProgress) => {
+        const newId = resolve(progress.wordId);
+        if (newId === null) {
+          report.unmapped.push({ store: 'userProgress', wordId: progress.wordId });
+          byId.set(progress.wordId, progress);
+          return;
+        }
+        if (newId !== progress.wordId) report.remapped.userProgress++;
+
+        // Two old IDs for the same word: keep the most recently reviewed record
+        const existing = byId.get(newId);
+        if (existing) {
+          report.merged++;
+          if (new Date(existing.lastReviewed) >= new Date(progress.lastReviewed)) return;
+        }
+        byId.set(newId, { ...progress, wordId: newId });
+      });
+      result.userProgress = Array.from(byId.values());
+    }
+
+    if (Array.isArray(data.testResults)) {
+      result.testResults = data.testResults.map((testResult: any) => {
+        const newId = resolve(testResult.wordId);
+        if (newId === null) {
+          report.unmapped.push({ store: 'testResults', wordId: testResult.wordId });
+          return testResult;
+        }
+        if (newId !== testResult.wordId) report.remapped.testResults++;
+        return { ...testResult, wordId: newId };
+      });
+    }
+
+    return { data: result, report };
+  }
+
+  /**
+   * Migrate everything in local storage once. Later calls are no-ops and
+   * return null; the stored report stays available through getReport().
+   */
+  static runOnce(bundledWords: WordRecord[]): WordIdMigrationReport | null {
+    if (localStorage.getItem(this.STORAGE_KEY)) return null;
+
+    const resolve = this.createResolver(bundledWords);
+    const { data, report } = this.remapData(
+      {
+        userProgress: ProgressTracker.getUserProgress(),
+        testResults: ProgressTracker.getTestResults()
+      },
+      bundledWords
+    );
+
+    if (report.remapped.userProgress > 0 || report.merged > 0) {
+      ProgressTracker.saveUserProgress(data.userProgress);
+    }
+    if (report.remapped.testResults > 0) {
+      ProgressTracker.saveTestResults(data.testResults);
+    }
+
+    const decks = DeckManager.getDecks();
+    if (decks.length > 0) {
+      DeckManager.saveDecks(decks.map(deck => {
+        const wordIds = deck.wordIds.map(wordId => {
+          const newId = resolve(wordId);
+          if (newId === null) {
+            report.unmapped.push({ store: 'decks', wordId });
+            return wordId;
+          }
+          if (newId !== wordId) report.remapped.decks++;
+          return newId;
+        });
+        return { ...deck, wordIds: [...new Set(wordIds)] };
+      }));
+    }
+
+    const overrides = WordOverrides.getOverrides();
+    if (overrides.length > 0) {
+      WordOverrides.saveOverrides(overrides.map(override => {
+        const newId = resolve(override.id);
+        if (newId === null) {
+          report.unmapped.push({ store: 'wordOverrides', wordId: override.id });
+          return override;
+        }
+        if (newId !== override.id) report.remapped.wordOverrides++;
+        return { ...override, id: newId };
+      }));
+    }
+
+    if (report.unmapped.length > 0) {
+      console.warn(`Word ID migration could not map ${report.unmapped.length} record(s):`, report.unmapped);
+    }
+
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(report));
+    return report;
+  }
+}
@@ -0,0 +1,68 @@
+import { WordOverride, WordRecord } from '../types';
+
+/**
+ * WordOverrides - User edits layered over the bundled word list
+ *
+ * public/words.txt is never modified. Additions, edits and deletions are kept
+ * here and re-applied every time the list is loaded, so shipping a new word
+ * list doesn't clobber anything the user changed.
+ */
+export class WordOverrides {
+  private static readonly STORAGE_KEY = 'wordplay-word-overrides';
+
+  static readonly USER_WORD_PREFIX = 'user-';
+
+  static getOverrides(): WordOverride[] {
+    const data = localStorage.getItem(this.STORAGE_KEY);
+    return data ? JSON.parse(data).map((o: any) => ({
+      ...o,
+      lastModified: new Date(o.lastModified)
+    })) : [];
+  }
+
+  static saveOverrides(overrides: WordOverride[]): void {
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(overrides));
+  }
+
+  static getOverride(id: string): WordOverride | undefined {
+    return this.getOverrides().find(override => override.id === id);
+  }
+
+  static setOverride(override: WordOverride): void {
+    const overrides = this.getOverrides().filter(o => o.id !== override.id);
+    this.saveOverrides([...overrides, override]);
+  }
+
+  static removeOverride(id: string): void {
+    this.saveOverrides(this.getOverrides().filter(o => o.id !== id));
+  }
+
+  static generateUserWordId(): string {
+    return `${this.USER_WORD_PREFIX}${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  // Bundled IDs are the word itself, so match the full generated shape, not just the prefix
+  static isUserWordId(id: string): boolean {
+    return /^user-\d+-[a-z0-9]+$/.test(id);
+  }
+
+  // Bundled words keep their position; user-added words go at the end
+  static apply(bundledWords: WordRecord[]): WordRecord[] {
+    const overrides = new Map(this.getOverrides().map(o => [o.id, o]));
+
+    const words = bundledWords
+      .filter(word => overrides.get((word as any).id)?.type !== 'deleted')
+      .map(word => {
+        const override = overrides.get((word as any).id);
+        return override?.type === 'edited' && override.word
+          ? { ...override.word, id: (word as any).id }
+          : word;
+      });
+
+    const added = [...overrides.values()]
+      .filter(o => o.type === 'added' && o.word)
+      .map(o => ({ ...o.word!, id: o.id }));
+
+    return [...words, ...added];
+  }
+}
@@ -2,9 +2,41 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.jsx'
+import { ProgressTracker } from './services/ProgressTracker'
 
-createRoot(document.getElementById('root')).render(
-  <StrictMode>
-    <App />
-  </StrictMode>,
-)
+const root = createRoot(document.getElementById('root'))
+
+const renderNotice = (title, message) => {
+  root.render(
+    <div className="storage-notice">
+      <h1>{title}</h1>
+      <p>{message}</p>
+    </div>,
+  )
+}
+
+// An upgrade waits for tabs running an older version to close
+ProgressTracker.setBlockedCallback(() => renderNotice(
+  'Word Play is open in another tab',
+  'Close the other Word Play tabs to finish updating. This page continues on its own.',
+))
+
+// Progress lives in IndexedDB, so load it before anything reads it. If it
+// can't be loaded the app isn't shown at all: studying or syncing on top of
+// an empty cache would overwrite the saved progress.
+ProgressTracker.initialize()
+  .then(() => {
+    ProgressTracker.setBlockedCallback(null)
+    root.render(
+      <StrictMode>
+        <App />
+      </StrictMode>,
+    )
+  })
+  .catch(error => {
+    console.error('Error initializing storage:', error)
+    renderNotice(
+      'Your progress could not be loaded',
+      'Word Play could not open its storage in this browser. Close other Word Play tabs and reload the page; your saved progress has not been changed.',
+    )
+  })
@@ -0,0 +1,334 @@
+import { FlashcardSession, TestResult, TestSession, UserProgress, WordRecord } from '../types';
+import { DataManager } from '../data/DataManager';
+import { CramSession } from './CramSession';
+import { ProgressTracker } from './ProgressTracker';
+import { StreakService } from './StreakService';
+
+export type AchievementCategory = 'streak' | 'accuracy' | 'time' | 'mastery' | 'tests' | 'special';
+
+// Which answers or test sessions a count includes; every condition must hold
+export interface RecordFilter {
+  testTypes?: TestResult['testType'][];
+  correct?: boolean; // answers only
+  perfect?: boolean; // test sessions only: every question right
+  maxDuration?: number; // test sessions only, in ms
+  hours?: [number, number]; // local hour of day, from (inclusive) to (exclusive)
+}
+
+export type AchievementMetric =
+  | { kind: 'count'; source: 'answers' | 'tests' | 'flashcard-sessions'; where?: RecordFilter }
+  | { kind: 'best-streak' }
+  | { kind: 'accuracy'; minWords: number } // average word accuracy in %, once minWords are studied
+  | { kind: 'mastered-words' }
+  | { kind: 'mastered-share'; prefix: string } // % of the word list starting with prefix that is mastered
+  | { kind: 'time-spent' } // ms
+  | { kind: 'longest-break'; after: number }; // days between two answers, once `after` answers exist
+
+export interface AchievementTier {
+  id: string; // stored unlock key; never rename a shipped one
+  name: string;
+  description: string;
+  target: number;
+  points: number;
+  icon?: string; // defaults to the rule's icon
+}
+
+/**
+ * One achievement, or a series of tiers measured the same way. Rules are
+ * plain data: adding one here is all it takes, and the next evaluation
+ * unlocks it for anyone whose history already meets it.
+ */
+export interface AchievementRule {
+  id: string;
+  category: AchievementCategory;
+  icon: string;
+  metric: AchievementMetric;
+  hidden?: boolean; // name and description stay secret until unlocked
+  tiers: AchievementTier[];
+}
+
+export type AchievementUnit = 'count' | 'percent' | 'duration' | 'days';
+
+// A single tier as the rest of the app sees it
+export interface AchievementDefinition {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  type: AchievementCategory;
+  requirement: number;
+  points: number;
+  hidden: boolean;
+  unit: AchievementUnit;
+  series: string; // the rule id
+  tier: number; // 1-based position within the series
+  tierCount: number;
+}
+
+// Everything the rules are measured against
+export interface AchievementHistory {
+  progress: UserProgress[];
+  testResults: TestResult[];
+  testSessions: TestSession[];
+  flashcardSessions: FlashcardSession[];
+  words: WordRecord[]; // empty until the word list has loaded
+  bestStreak: number;
+}
+
+export interface AchievementCheck {
+  value: number;
+  reachedAt?: Date; // when the history first met the target, if it can tell
+}
+
+interface Measurement {
+  value: number;
+  times?: number[]; // sorted times of counted records: times[n - 1] is when the count reached n
+}
+
+/**
+ * AchievementEngine - Measures the achievement rules against study history
+ *
+ * Every check replays the whole history, so rules apply retroactively: a
+ * rule shipped today unlocks on the next check for anyone who qualified
+ * last month. Count rules also know when their target was first reached,
+ * which becomes the unlock date.
+ */
+export class AchievementEngine {
+  static readonly MASTERY_THRESHOLD = 80; // masteryLevel at which a word counts as mastered
+
+  private static readonly DAY_MS = 1000 * 60 * 60 * 24;
+
+  private static readonly RULES: AchievementRule[] = [
+    {
+      id: 'streak', category: 'streak', icon: '🔥', metric: { kind: 'best-streak' },
+      tiers: [
+        { id: 'streak_3', name: 'Getting Started', description: '3 day learning streak', target: 3, points: 50 },
+        { id: 'streak_7', name: 'Week Warrior', description: '7 day learning streak', target: 7, points: 100 },
+        { id: 'streak_14', name: 'Two Week Champion', description: '14 day learning streak', target: 14, points: 200 },
+        { id: 'streak_30', name: 'Month Master', description: '30 day learning streak', target: 30, points: 500 },
+        { id: 'streak_100', name: 'Century Streak', description: '100 day learning streak', target: 100, points: 1000, icon: '🏆' }
+      ]
+    },
+    {
+      id: 'accuracy', category: 'accuracy', icon: '🎯', metric: { kind: 'accuracy', minWords: 10 },
+      tiers: [
+        { id: 'accuracy_80', name: 'Sharp Shooter', description: 'Maintain 80% accuracy over 10+ words', target: 80, points: 100 },
+        { id: 'accuracy_90', name: 'Precision Master', description: 'Maintain 90% accuracy over 10+ words', target: 90, points: 250 },
+        { id: 'accuracy_95', name: 'Perfect Aim', description: 'Maintain 95% accuracy over 10+ words', target: 95, points: 500 }
+      ]
+    },
+    {
+      id: 'tests', category: 'tests', icon: '📝', metric: { kind: 'count', source: 'tests' },
+      tiers: [
+        { id: 'tests_10', name: 'Test Taker', description: 'Complete 10 tests', target: 10, points: 75 },
+        { id: 'tests_50', name: 'Test Master', description: 'Complete 50 tests', target: 50, points: 200 },
+        { id: 'tests_100', name: 'Test Champion', description: 'Complete 100 tests', target: 100, points: 400, icon: '🏆' }
+      ]
+    },
+    {
+      id: 'perfect_sentence', category: 'tests', icon: '✍️',
+      metric: { kind: 'count', source: 'tests', where: { testTypes: ['sentence'], perfect: true } },
+      tiers: [
+        { id: 'perfect_sentence_5', name: 'Wordsmith', description: 'Score 100% on 5 sentence tests', target: 5, points: 150 },
+        { id: 'perfect_sentence_25', name: 'Sentence Virtuoso', description: 'Score 100% on 25 sentence tests', target: 25, points: 400 }
+      ]
+    },
+    {
+      id: 'mastery', category: 'mastery', icon: '📚', metric: { kind: 'mastered-words' },
+      tiers: [
+        { id: 'mastery_10', name: 'Word Explorer', description: 'Master 10 words', target: 10, points: 100 },
+        { id: 'mastery_50', name: 'Vocabulary Builder', description: 'Master 50 words', target: 50, points: 300 },
+        { id: 'mastery_100', name: 'Word Wizard', description: 'Master 100 words', target: 100, points: 600, icon: '🧙' },
+        { id: 'mastery_250', name: 'Vocabulary Sage', description: 'Master 250 words', target: 250, points: 1200, icon: '🧙' }
+      ]
+    },
+    {
+      id: 'letter_q', category: 'mastery', icon: '👸', metric: { kind: 'mastered-share', prefix: 'q' },
+      tiers: [
+        { id: 'letter_q', name: 'Quintessential', description: 'Master every word starting with Q', target: 100, points: 300 }
+      ]
+    },
+    {
+      id: 'time', category: 'time', icon: '⏱️', metric: { kind: 'time-spent' },
+      tiers: [
+        { id: 'time_1h', name: 'Dedicated Learner', description: 'Spend 1 hour learning', target: 3600000, points: 100 },
+        { id: 'time_10h', name: 'Committed Student', description: 'Spend 10 hours learning', target: 36000000, points: 300 },
+        { id: 'time_50h', name: 'Learning Legend', description: 'Spend 50 hours learning', target: 180000000, points: 1000, icon: '👑' }
+      ]
+    },
+    {
+      id: 'perfect_test', category: 'special', icon: '⭐',
+      metric: { kind: 'count', source: 'tests', where: { perfect: true } },
+      tiers: [
+        { id: 'perfect_test', name: 'Perfectionist', description: 'Score 100% on a test', target: 1, points: 150 }
+      ]
+    },
+    {
+      id: 'speed_demon', category: 'special', icon: '⚡',
+      metric: { kind: 'count', source: 'tests', where: { maxDuration: 60000 } },
+      tiers: [
+        { id: 'speed_demon', name: 'Speed Demon', description: 'Complete a test in under 60 seconds', target: 1, points: 200 }
+      ]
+    },
+    {
+      id: 'comeback_kid', category: 'special', icon: '💪', hidden: true,
+      metric: { kind: 'longest-break', after: 5 },
+      tiers: [
+        { id: 'comeback_kid', name: 'Comeback Kid', description: 'Return after 7+ day break', target: 7, points: 100 }
+      ]
+    },
+    {
+      id: 'early_bird', category: 'special', icon: '🌅', hidden: true,
+      metric: { kind: 'count', source: 'answers', where: { hours: [5, 6] } },
+      tiers: [
+        { id: 'early_bird', name: 'Early Bird', description: 'Review a word at 5am', target: 1, points: 50 }
+      ]
+    },
+    {
+      id: 'night_owl', category: 'special', icon: '🦉', hidden: true,
+      metric: { kind: 'count', source: 'answers', where: { hours: [0, 4] } },
+      tiers: [
+        { id: 'night_owl', name: 'Night Owl', description: 'Review a word between midnight and 4am', target: 1, points: 50 }
+      ]
+    }
+  ];
+
+  private static definitions: AchievementDefinition[] | null = null;
+
+  static getDefinitions(): AchievementDefinition[] {
+    if (!this.definitions) {
+      this.definitions = this.RULES.flatMap(rule => rule.tiers.map((tier, index) => ({
+        id: tier.id,
+        name: tier.name,
+        description: tier.description,
+        icon: tier.icon || rule.icon,
+        type: rule.category,
+        requirement: tier.target,
+        points: tier.points,
+        hidden: !!rule.hidden,
+        unit: this.getUnit(rule.metric),
+        series: rule.id,
+        tier: index + 1,
+        tierCount: rule.tiers.length
+      })));
+    }
+    return this.definitions;
+  }
+
+  static getHistory(): AchievementHistory {
+    return {
+      progress: ProgressTracker.getUserProgress(),
+      testResults: ProgressTracker.getTestResults().filter(result => CramSession.earnsRewards(result)),
+      testSessions: ProgressTracker.getTestSessions(),
+      flashcardSessions: ProgressTracker.getFlashcardSessions(),
+      words: DataManager.getWords(),
+      bestStreak: StreakService.getStreak().best
+    };
+  }
+
+  // Where each tier stands against the history, by tier id
+  static evaluate(history: AchievementHistory = this.getHistory()): Map<string, AchievementCheck> {
+    const checks = new Map<string, AchievementCheck>();
+
+    this.RULES.forEach(rule => {
+      const { value, times } = this.measure(rule.metric, history);
+      rule.tiers.forEach(tier => {
+        const reached = times && value >= tier.target ? times[tier.target - 1] : undefined;
+        checks.set(tier.id, { value, reachedAt: reached !== undefined ? new Date(reached) : undefined });
+      });
+    });
+
+    return checks;
+  }
+
+  private static measure(metric: AchievementMetric, history: AchievementHistory): Measurement {
+    switch (metric.kind) {
+      case 'count': {
+        const times = this.getRecords(metric.source, history)
+          .filter(record => this.matches(record, metric.where))
+          .map(record => record.time)
+          .sort((a, b) => a - b);
+        return { value: times.length, times };
+      }
+      case 'best-streak':
+        return { value: history.bestStreak };
+      case 'accuracy': {
+        if (history.progress.length < metric.minWords) return { value: 0 };
+        const average = history.progress.reduce((sum, p) => sum + p.accuracy, 0) / history.progress.length;
+        return { value: Math.round(average * 100) };
+      }
+      case 'mastered-words':
+        return { value: history.progress.filter(p => p.masteryLevel >= this.MASTERY_THRESHOLD).length };
+      case 'mastered-share': {
+        const prefix = metric.prefix.toLowerCase();
+        const ids = new Set(history.words
+          .filter(word => word.word.trim().toLowerCase().startsWith(prefix))
+          .map(word => DataManager.getWordId(word)));
+        if (ids.size === 0) return { value: 0 };
+        const mastered = history.progress.filter(p => ids.has(p.wordId) && p.masteryLevel >= this.MASTERY_THRESHOLD).length;
+        return { value: Math.floor((mastered / ids.size) * 100) };
+      }
+      case 'time-spent':
+        return { value: history.testResults.reduce((sum, r) => sum + r.timeSpent, 0) };
+      case 'longest-break': {
+        const times = history.testResults.map(r => new Date(r.timestamp).getTime()).sort((a, b) => a - b);
+        let longest = 0;
+        for (let i = metric.after + 1; i < times.length; i++) {
+          longest = Math.max(longest, Math.floor((times[i] - times[i - 1]) / this.DAY_MS));
+        }
+        return { value: longest };
+      }
+    }
+  }
+
+  private static getRecords(source: 'answers' | 'tests' | 'flashcard-sessions', history: AchievementHistory) {
+    switch (source) {
+      case 'answers':
+        return history.testResults.map(r => ({
+          time: new Date(r.timestamp).getTime(),
+          testType: r.testType,
+          correct: r.correct
+        }));
+      case 'tests':
+        // Sessions without questions (an abandoned test) don't count
+        return history.testSessions.filter(s => s.totalQuestions > 0).map(s => ({
+          time: new Date(s.endTime || s.startTime).getTime(),
+          testType: s.testType,
+          perfect: s.correctAnswers === s.totalQuestions,
+          duration: s.timeSpent
+        }));
+      case 'flashcard-sessions':
+        return history.flashcardSessions.map(s => ({
+          time: new Date(s.endTime || s.startTime).getTime(),
+          testType: 'flashcard' as const
+        }));
+    }
+  }
+
+  private static matches(
+    record: { time: number; testType: TestResult['testType']; correct?: boolean; perfect?: boolean; duration?: number },
+    where?: RecordFilter
+  ): boolean {
+    if (!where) return true;
+    if (where.testTypes && !where.testTypes.includes(record.testType)) return false;
+    if (where.correct !== undefined && record.correct !== where.correct) return false;
+    if (where.perfect && !record.perfect) return false;
+    if (where.maxDuration !== undefined && !(record.duration !== undefined && record.duration <= where.maxDuration)) return false;
+    if (where.hours) {
+      const hour = new Date(record.time).getHours();
+      if (hour < where.hours[0] || hour >= where.hours[1]) return false;
+    }
+    return true;
+  }
+
+  private static getUnit(metric: AchievementMetric): AchievementUnit {
+    switch (metric.kind) {
+      case 'accuracy':
+      case 'mastered-share': return 'percent';
+      case 'time-spent': return 'duration';
+      case 'best-streak':
+      case 'longest-break': return 'days';
+      default: return 'count';
+    }
+  }
+}
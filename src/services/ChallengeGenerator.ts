@@ -0,0 +1,418 @@
+import { TestResult, TestSession } from '../types';
+import { CramSession } from './CramSession';
+import { ProgressTracker } from './ProgressTracker';
+import { SchedulerService } from './Scheduler';
+import { SettingsService } from './SettingsService';
+import { StreakService } from './StreakService';
+import { GradedTestType } from './TestGrading';
+
+export type ChallengeTier = 'daily' | 'weekly';
+
+export type ChallengeStepType =
+  | 'review-due' // review each of the snapshotted due cards
+  | 'weak-words' // answer each of the snapshotted weak words correctly
+  | 'flashcards'
+  | 'tests'
+  | 'test-score' // best score (%) on one test of testType
+  | 'accuracy' // running accuracy (%) once minAnswers are in
+  | 'goal-days' // days that reached the daily goal
+  | 'test-types'; // different test types completed
+
+export interface ChallengeStep {
+  type: ChallengeStepType;
+  description: string;
+  target: number;
+  progress: number;
+  completed: boolean;
+  completedAt?: string; // when the answer or test that finished the step happened
+  unit?: '%';
+  testType?: GradedTestType;
+  wordIds?: string[];
+  minAnswers?: number;
+}
+
+export interface DailyChallenge {
+  id: string; // tier, period and template, so devices can tell the same challenge apart
+  tier: ChallengeTier;
+  date: string; // the day, or the Monday of the week, as a StreakService day key
+  title: string;
+  description: string;
+  icon: string;
+  reward: number;
+  steps: ChallengeStep[];
+  completed: boolean;
+  rewardedBy?: string; // device that credited the reward, so a synced challenge pays out once
+}
+
+// What a challenge is generated from; the same state and date give the same challenge
+export interface ChallengeState {
+  dueWordIds: string[]; // most overdue first
+  weakWordIds: string[]; // weakest first
+  leastUsedTestType: GradedTestType;
+  questionCount: number;
+  dailyGoal: number;
+  weekendStudy: boolean;
+}
+
+interface ChallengeTemplate {
+  id: string;
+  title: string;
+  icon: string;
+  reward: number;
+  weight: (state: ChallengeState) => number; // 0 = not offered
+  steps: (state: ChallengeState) => Omit<ChallengeStep, 'progress' | 'completed'>[];
+}
+
+const TEST_LABELS: Record<GradedTestType, string> = {
+  match: 'Word Matching',
+  sentence: 'Sentence',
+  'synonym-antonym': 'Synonym/Antonym'
+};
+
+const GRADED_TEST_TYPES: GradedTestType[] = ['match', 'sentence', 'synonym-antonym'];
+
+// A score step asks for 80% of the configured test length, e.g. 8/10
+const scoreStep = (state: ChallengeState) => {
+  const needed = Math.ceil(state.questionCount * 0.8);
+  return {
+    type: 'test-score' as const,
+    description: `Score ${needed}/${state.questionCount} on a ${TEST_LABELS[state.leastUsedTestType]} test`,
+    target: 80,
+    unit: '%' as const,
+    testType: state.leastUsedTestType
+  };
+};
+
+const roundToFive = (value: number) => Math.max(5, Math.round(value / 5) * 5);
+
+const DAILY_TEMPLATES: ChallengeTemplate[] = [
+  {
+    id: 'backlog',
+    title: 'Backlog Buster',
+    icon: '📅',
+    reward: 200,
+    weight: state => (state.dueWordIds.length >= 15 ? 3 : state.dueWordIds.length >= 5 ? 1 : 0),
+    steps: state => {
+      const wordIds = state.dueWordIds.slice(0, 30);
+      return [
+        { type: 'review-due', description: `Review all ${wordIds.length} due cards`, target: wordIds.length, wordIds },
+        scoreStep(state)
+      ];
+    }
+  },
+  {
+    id: 'weak-spots',
+    title: 'Weak Spot Workout',
+    icon: '💪',
+    reward: 175,
+    weight: state => (state.weakWordIds.length >= 3 ? 2 : 0),
+    steps: state => {
+      const wordIds = state.weakWordIds.slice(0, 8);
+      return [
+        { type: 'weak-words', description: `Answer your ${wordIds.length} weakest words correctly`, target: wordIds.length, wordIds },
+        { type: 'accuracy', description: 'Keep 80% accuracy over at least 15 answers', target: 80, unit: '%', minAnswers: 15 }
+      ];
+    }
+  },
+  {
+    id: 'explorer',
+    title: 'Try Something Different',
+    icon: '🧭',
+    reward: 100,
+    weight: () => 1,
+    steps: state => [
+      { type: 'tests', description: `Complete a ${TEST_LABELS[state.leastUsedTestType]} test`, target: 1, testType: state.leastUsedTestType }
+    ]
+  },
+  {
+    id: 'flash',
+    title: 'Flash Forward',
+    icon: '🎴',
+    reward: 100,
+    weight: () => 1,
+    steps: state => {
+      const cards = roundToFive(state.dailyGoal);
+      return [{ type: 'flashcards', description: `Review ${cards} flashcards`, target: cards }];
+    }
+  },
+  {
+    id: 'precision',
+    title: 'Precision Practice',
+    icon: '🎯',
+    reward: 150,
+    weight: () => 1,
+    steps: () => [
+      { type: 'accuracy', description: 'Keep 85% accuracy over at least 20 answers', target: 85, unit: '%', minAnswers: 20 }
+    ]
+  }
+];
+
+const WEEKLY_TEMPLATES: ChallengeTemplate[] = [
+  {
+    id: 'steady',
+    title: 'Steady Week',
+    icon: '📆',
+    reward: 500,
+    weight: () => 1,
+    steps: state => {
+      const days = state.weekendStudy ? 6 : 5;
+      return [{ type: 'goal-days', description: `Reach your daily goal on ${days} days`, target: days }];
+    }
+  },
+  {
+    id: 'all-rounder',
+    title: 'All-Rounder',
+    icon: '🏅',
+    reward: 450,
+    weight: () => 1,
+    steps: () => [
+      { type: 'test-types', description: 'Complete one test of each type', target: GRADED_TEST_TYPES.length },
+      { type: 'tests', description: 'Complete 5 more tests', target: 5 }
+    ]
+  },
+  {
+    id: 'marathon',
+    title: 'Card Marathon',
+    icon: '🏃',
+    reward: 500,
+    weight: () => 1,
+    steps: state => {
+      const cards = roundToFive(state.dailyGoal * 5);
+      return [
+        { type: 'flashcards', description: `Review ${cards} flashcards`, target: cards },
+        scoreStep(state)
+      ];
+    }
+  }
+];
+
+/**
+ * ChallengeGenerator - Daily and weekly challenges
+ *
+ * A challenge is picked by a generator seeded with its tier and date, from
+ * templates weighted by the user's state (due backlog, weak words, least used
+ * test type), so devices with the same synced data get the same challenge.
+ * Steps are done in order; progress is worked out from the period's test
+ * results and test sessions, and a step only counts activity after the step
+ * before it was finished.
+ */
+export class ChallengeGenerator {
+  static getState(now: Date = new Date()): ChallengeState {
+    const progress = ProgressTracker.getUserProgress();
+    const { testSettings, studySettings } = SettingsService.get();
+
+    const dueWordIds = SchedulerService.getDueWords(progress)
+      .sort((a, b) => new Date(a.nextReview).getTime() - new Date(b.nextReview).getTime())
+      .map(p => p.wordId);
+
+    const weakWordIds = ProgressTracker.getWeakWords(8)
+      .filter(p => p.accuracy < 0.7)
+      .map(p => p.wordId);
+
+    // The test type with the fewest answers over the last two weeks
+    const since = StreakService.addDays(StreakService.dayKey(now), -13);
+    const usage = new Map<GradedTestType, number>(GRADED_TEST_TYPES.map(type => [type, 0]));
+    ProgressTracker.getTestResults().forEach(result => {
+      if (result.testType === 'flashcard') return;
+      if (StreakService.dayKey(new Date(result.timestamp)) < since) return;
+      usage.set(result.testType, (usage.get(result.testType) || 0) + 1);
+    });
+    const leastUsedTestType = GRADED_TEST_TYPES.reduce((least, type) =>
+      (usage.get(type) || 0) < (usage.get(least) || 0) ? type : least
+    );
+
+    return {
+      dueWordIds,
+      weakWordIds,
+      leastUsedTestType,
+      questionCount: testSettings.questionCount,
+      dailyGoal: studySettings.dailyGoal,
+      weekendStudy: studySettings.weekendStudy
+    };
+  }
+
+  // The day key that starts the tier's current period (weeks start on Monday)
+  static getPeriod(tier: ChallengeTier, now: Date = new Date()): string {
+    const today = StreakService.dayKey(now);
+    if (tier === 'daily') return today;
+    const weekday = new Date(`${today}T00:00:00Z`).getUTCDay();
+    return StreakService.addDays(today, -((weekday + 6) % 7));
+  }
+
+  static generate(tier: ChallengeTier, period: string, state: ChallengeState): DailyChallenge {
+    const templates = tier === 'daily' ? DAILY_TEMPLATES : WEEKLY_TEMPLATES;
+    const random = this.seededRandom(`${tier}:${period}`);
+
+    const offered = templates.map(template => ({ template, weight: template.weight(state) }))
+      .filter(option => option.weight > 0);
+    const totalWeight = offered.reduce((sum, option) => sum + option.weight, 0);
+
+    let pick = random() * totalWeight;
+    const template = (offered.find(option => (pick -= option.weight) < 0) || offered[offered.length - 1]).template;
+    const steps = template.steps(state).map(step => ({ ...step, progress: 0, completed: false }));
+
+    return {
+      id: `${tier}-${period}-${template.id}`,
+      tier,
+      date: period,
+      title: template.title,
+      description: steps
+        .map((step, index) => (index === 0 ? step.description : step.description[0].toLowerCase() + step.description.slice(1)))
+        .join(', then '),
+      icon: template.icon,
+      reward: template.reward,
+      steps,
+      completed: false
+    };
+  }
+
+  /**
+   * Work out each step's progress from the activity in the challenge's
+   * period. Finished steps stay finished even if the data behind them is
+   * later replaced (e.g. by an import).
+   */
+  static evaluate(
+    challenge: DailyChallenge,
+    results: TestResult[],
+    sessions: TestSession[],
+    dailyGoal: number
+  ): DailyChallenge {
+    const lastDay = challenge.tier === 'daily' ? challenge.date : StreakService.addDays(challenge.date, 6);
+    const inPeriod = (time: Date) => {
+      const day = StreakService.dayKey(time);
+      return day >= challenge.date && day <= lastDay;
+    };
+
+    const periodResults = results
+      .map(result => ({ ...result, time: new Date(result.timestamp) }))
+      .filter(result => inPeriod(result.time))
+      .sort((a, b) => a.time.getTime() - b.time.getTime());
+    const periodSessions = sessions
+      .map(session => ({ ...session, time: new Date(session.endTime || session.startTime) }))
+      .filter(session => inPeriod(session.time))
+      .sort((a, b) => a.time.getTime() - b.time.getTime());
+
+    let startAfter = 0;
+    let previousDone = true;
+    const steps = challenge.steps.map(step => {
+      if (step.completed) {
+        startAfter = step.completedAt ? new Date(step.completedAt).getTime() : startAfter;
+        return step;
+      }
+      if (!previousDone) return step;
+
+      const stepResults = periodResults.filter(result => result.time.getTime() >= startAfter);
+      const stepSessions = periodSessions.filter(session => session.time.getTime() >= startAfter);
+      const { progress, completedAt } = this.evaluateStep(step, stepResults, stepSessions, dailyGoal);
+
+      previousDone = completedAt !== null;
+      if (completedAt) startAfter = completedAt.getTime();
+      return {
+        ...step,
+        progress: completedAt ? step.target : progress,
+        completed: completedAt !== null,
+        completedAt: completedAt?.toISOString()
+      };
+    });
+
+    return { ...challenge, steps, completed: steps.every(step => step.completed) };
+  }
+
+  // Progress so far, and the moment the step was finished (null while it isn't)
+  private static evaluateStep(
+    step: ChallengeStep,
+    results: (TestResult & { time: Date })[],
+    sessions: (TestSession & { time: Date })[],
+    dailyGoal: number
+  ): { progress: number; completedAt: Date | null } {
+    let progress = 0;
+    // Cram answers only count towards the daily goal, as they do for the streak
+    const answers = step.type === 'goal-days' ? results : results.filter(result => CramSession.earnsRewards(result));
+
+    switch (step.type) {
+      case 'review-due':
+      case 'weak-words': {
+        const pending = new Set(step.wordIds || []);
+        for (const result of answers) {
+          const counts = step.type === 'review-due' ? result.testType === 'flashcard' : result.correct;
+          if (!counts || !pending.delete(result.wordId)) continue;
+          progress++;
+          if (progress >= step.target) return { progress, completedAt: result.time };
+        }
+        break;
+      }
+      case 'flashcards':
+        for (const result of answers) {
+          if (result.testType !== 'flashcard') continue;
+          progress++;
+          if (progress >= step.target) return { progress, completedAt: result.time };
+        }
+        break;
+      case 'tests':
+        for (const session of sessions) {
+          if (step.testType && session.testType !== step.testType) continue;
+          progress++;
+          if (progress >= step.target) return { progress, completedAt: session.time };
+        }
+        break;
+      case 'test-score':
+        for (const session of sessions) {
+          if (session.testType !== step.testType) continue;
+          progress = Math.max(progress, session.score);
+          if (progress >= step.target) return { progress, completedAt: session.time };
+        }
+        break;
+      case 'accuracy': {
+        // Finished the first time the running accuracy reaches the target
+        const minAnswers = step.minAnswers || 1;
+        let correct = 0;
+        for (let index = 0; index < answers.length; index++) {
+          if (answers[index].correct) correct++;
+          if (index + 1 < minAnswers) continue;
+          progress = Math.round((correct / (index + 1)) * 100);
+          if (progress >= step.target) return { progress, completedAt: answers[index].time };
+        }
+        break;
+      }
+      case 'goal-days': {
+        const answersPerDay = new Map<string, number>();
+        for (const result of results) {
+          const day = StreakService.dayKey(result.time);
+          const answers = (answersPerDay.get(day) || 0) + 1;
+          answersPerDay.set(day, answers);
+          if (answers !== Math.max(1, dailyGoal)) continue;
+          progress++;
+          if (progress >= step.target) return { progress, completedAt: result.time };
+        }
+        break;
+      }
+      case 'test-types': {
+        const done = new Set<string>();
+        for (const session of sessions) {
+          if (done.has(session.testType) || session.testType === 'flashcard') continue;
+          done.add(session.testType);
+          progress++;
+          if (progress >= step.target) return { progress, completedAt: session.time };
+        }
+        break;
+      }
+    }
+
+    return { progress, completedAt: null };
+  }
+
+  // FNV-1a hash of the seed feeding a mulberry32 generator
+  private static seededRandom(seed: string): () => number {
+    let state = 2166136261;
+    for (let i = 0; i < seed.length; i++) {
+      state = Math.imul(state ^ seed.charCodeAt(i), 16777619);
+    }
+
+    return () => {
+      state = (state + 0x6d2b79f5) | 0;
+      let t = Math.imul(state ^ (state >>> 15), 1 | state);
+      t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+}
@@ -0,0 +1,151 @@
+import { SyncConflict, UserProgress } from '../types';
+import { ReviewLog } from './ReviewLog';
+import { SyncService } from './SyncService';
+
+export type ConflictChoice = 'local' | 'remote' | 'combine';
+
+// 'newest' picks local or remote per word by last review
+export type BulkConflictChoice = ConflictChoice | 'newest';
+
+export interface ConflictHistoryEntry {
+  wordId: string;
+  choice: ConflictChoice;
+  bulk: boolean;
+  resolvedAt: Date;
+  localData: UserProgress;
+  remoteData: UserProgress;
+  result: UserProgress;
+}
+
+export interface ProgressField {
+  key: keyof UserProgress;
+  label: string;
+  format: (value: any) => string;
+}
+
+const formatDate = (value: any) => (value ? new Date(value).toLocaleString() : '—');
+const formatNumber = (value: any) => (typeof value === 'number' ? String(Math.round(value * 100) / 100) : '—');
+
+/**
+ * ConflictResolution - Applying the user's choice for sync conflicts
+ *
+ * Resolutions are written through ReviewLog.setProgress, so every device
+ * ends up with the chosen progress, and each one is kept in a local history
+ * so a choice can be looked up (and redone by hand) later.
+ */
+export class ConflictResolution {
+  private static readonly HISTORY_KEY = 'wordplay-conflict-history';
+  private static readonly MAX_HISTORY = 200;
+
+  // The UserProgress fields shown side by side, in display order
+  static readonly FIELDS: ProgressField[] = [
+    { key: 'lastReviewed', label: 'Last reviewed', format: formatDate },
+    { key: 'nextReview', label: 'Next review', format: formatDate },
+    { key: 'totalSeen', label: 'Times seen', format: formatNumber },
+    { key: 'correctCount', label: 'Correct', format: formatNumber },
+    { key: 'accuracy', label: 'Accuracy', format: value => `${Math.round((value || 0) * 100)}%` },
+    { key: 'masteryLevel', label: 'Mastery', format: value => `${value || 0}%` },
+    { key: 'repetitions', label: 'Repetitions', format: formatNumber },
+    { key: 'interval', label: 'Interval (days)', format: formatNumber },
+    { key: 'easeFactor', label: 'Ease factor', format: formatNumber },
+    { key: 'stability', label: 'Stability', format: formatNumber },
+    { key: 'difficulty', label: 'Difficulty', format: formatNumber },
+    { key: 'scheduler', label: 'Scheduler', format: value => (value ? String(value).toUpperCase() : 'SM2') }
+  ];
+
+  static differs(field: ProgressField, a: UserProgress, b: UserProgress): boolean {
+    return field.format(a[field.key]) !== field.format(b[field.key]);
+  }
+
+  /**
+   * Both devices' practice counted together: seen and correct counts are
+   * summed, scheduling comes from the more recently reviewed side, and
+   * accuracy and mastery are recomputed from the totals.
+   */
+  static combine(local: UserProgress, remote: UserProgress): UserProgress {
+    const newer = new Date(remote.lastReviewed).getTime() > new Date(local.lastReviewed).getTime() ? remote : local;
+    const totalSeen = local.totalSeen + remote.totalSeen;
+    const correctCount = local.correctCount + remote.correctCount;
+    const accuracy = totalSeen > 0 ? correctCount / totalSeen : 0;
+
+    return {
+      ...newer,
+      totalSeen,
+      correctCount,
+      accuracy,
+      // Same mastery scale as the schedulers
+      masteryLevel: Math.min(100, Math.round(accuracy * 100 * (1 + newer.repetitions * 0.1)))
+    };
+  }
+
+  private static effectiveChoice(conflict: SyncConflict, choice: BulkConflictChoice): ConflictChoice {
+    if (choice !== 'newest') return choice;
+    const localTime = new Date(conflict.localData.lastReviewed).getTime();
+    const remoteTime = new Date(conflict.remoteData.lastReviewed).getTime();
+    return remoteTime > localTime ? 'remote' : 'local';
+  }
+
+  // The progress a choice would produce, without applying it
+  static preview(conflict: SyncConflict, choice: ConflictChoice): UserProgress {
+    switch (choice) {
+      case 'local':
+        return conflict.localData;
+      case 'remote':
+        return conflict.remoteData;
+      case 'combine':
+        // Rebuilding from the starting states counts reviews made since the conflict only once
+        return ReviewLog.rebuildFromBaselines(conflict.wordId, (own, other) => this.combine(own, other)) ||
+          this.combine(conflict.localData, conflict.remoteData);
+    }
+  }
+
+  /**
+   * Apply a choice to the given conflicts, record it in the history and drop
+   * them from the sync status. Upload afterwards to share the result.
+   */
+  static resolve(conflicts: SyncConflict[], choice: BulkConflictChoice): UserProgress[] {
+    if (conflicts.length === 0) return [];
+
+    const resolvedAt = new Date();
+    const entries: ConflictHistoryEntry[] = conflicts.map(conflict => {
+      const effective = this.effectiveChoice(conflict, choice);
+      return {
+        wordId: conflict.wordId,
+        choice: effective,
+        bulk: conflicts.length > 1,
+        resolvedAt,
+        localData: conflict.localData,
+        remoteData: conflict.remoteData,
+        result: { ...this.preview(conflict, effective), wordId: conflict.wordId, lastModified: resolvedAt }
+      };
+    });
+
+    const results = entries.map(entry => entry.result);
+    ReviewLog.setProgress(results);
+    this.saveHistory([...entries, ...this.getHistory()]);
+
+    const resolvedIds = new Set(conflicts.map(conflict => conflict.wordId));
+    const status = SyncService.getSyncStatus();
+    SyncService.updateSyncStatus({
+      ...status,
+      conflicts: (status.conflicts || []).filter(conflict => !resolvedIds.has(conflict.wordId))
+    });
+
+    return results;
+  }
+
+  // Newest first
+  static getHistory(): ConflictHistoryEntry[] {
+    const stored = localStorage.getItem(this.HISTORY_KEY);
+    if (!stored) return [];
+    return JSON.parse(stored).map((entry: any) => ({ ...entry, resolvedAt: new Date(entry.resolvedAt) }));
+  }
+
+  private static saveHistory(entries: ConflictHistoryEntry[]): void {
+    localStorage.setItem(this.HISTORY_KEY, JSON.stringify(entries.slice(0, this.MAX_HISTORY)));
+  }
+
+  static clearHistory(): void {
+    localStorage.removeItem(this.HISTORY_KEY);
+  }
+}
@@ -0,0 +1,133 @@
+import { Deck, Quality, TestResult, UserProgress, WordRecord } from '../types';
+import { DataManager } from '../data/DataManager';
+import { DeckManager } from '../data/DeckManager';
+import { ProgressTracker } from './ProgressTracker';
+import { StudyEvents } from './StudyEvents';
+
+export type CramSource =
+  | { type: 'deck'; deckId: string }
+  | { type: 'letter'; letter: string }
+  | { type: 'weak' }; // studied words below WEAK_ACCURACY
+
+export interface CramCard {
+  wordId: string;
+  streak: number; // correct answers in a row
+  attempts: number;
+  misses: number;
+}
+
+export interface CramState {
+  queue: string[]; // word ids still being drilled, the current card first
+  cards: Record<string, CramCard>;
+  target: number; // correct answers in a row that retire a word
+  answered: number;
+  correct: number;
+}
+
+/**
+ * CramSession - Drill a set of words until each is answered correctly
+ * `target` times in a row
+ *
+ * Cramming is last-minute practice, not evidence of long-term memory, so it
+ * never goes through the Scheduler: intervals, ease and mastery stay as they
+ * were. Answers are still saved as TestResults marked `cram`; earnsRewards
+ * decides what they count for.
+ */
+export class CramSession {
+  static readonly WEAK_ACCURACY = 0.6;
+  static readonly RETRY_GAP = 3; // a missed word comes back after this many other cards
+
+  static selectWords(
+    source: CramSource,
+    words: WordRecord[],
+    progress: UserProgress[] = ProgressTracker.getUserProgress()
+  ): WordRecord[] {
+    switch (source.type) {
+      case 'deck': {
+        const deck: Deck | undefined = DeckManager.getDeck(source.deckId);
+        return deck ? DeckManager.getDeckWords(deck, words) : [];
+      }
+      case 'letter': {
+        const letter = source.letter.toLowerCase();
+        return words.filter(word => word.word.trim().toLowerCase().startsWith(letter));
+      }
+      case 'weak': {
+        const weakIds = new Set(progress
+          .filter(p => p.totalSeen > 0 && p.accuracy < this.WEAK_ACCURACY)
+          .map(p => p.wordId));
+        return words.filter(word => weakIds.has(DataManager.getWordId(word)));
+      }
+    }
+  }
+
+  static start(wordIds: string[], target: number): CramState {
+    const queue = [...wordIds].sort(() => Math.random() - 0.5);
+    const cards: Record<string, CramCard> = {};
+    queue.forEach(wordId => {
+      cards[wordId] = { wordId, streak: 0, attempts: 0, misses: 0 };
+    });
+    return { queue, cards, target: Math.max(1, target), answered: 0, correct: 0 };
+  }
+
+  // Answer the current card: a word that reaches the target leaves the loop,
+  // a correct one goes to the back and a missed one comes back soon
+  static answer(state: CramState, correct: boolean): CramState {
+    const [wordId, ...rest] = state.queue;
+    if (!wordId) return state;
+
+    const previous = state.cards[wordId];
+    const card: CramCard = {
+      ...previous,
+      streak: correct ? previous.streak + 1 : 0,
+      attempts: previous.attempts + 1,
+      misses: previous.misses + (correct ? 0 : 1)
+    };
+
+    let queue = rest;
+    if (!correct) {
+      const position = Math.min(this.RETRY_GAP, rest.length);
+      queue = [...rest.slice(0, position), wordId, ...rest.slice(position)];
+    } else if (card.streak < state.target) {
+      queue = [...rest, wordId];
+    }
+
+    return {
+      ...state,
+      queue,
+      cards: { ...state.cards, [wordId]: card },
+      answered: state.answered + 1,
+      correct: state.correct + (correct ? 1 : 0)
+    };
+  }
+
+  static isFinished(state: CramState): boolean {
+    return state.queue.length === 0;
+  }
+
+  /**
+   * The one rule for what an answer counts towards. Cram answers are real
+   * study, so the daily goal and the streak include them, but they repeat the
+   * same words until they're right, so they earn no XP and don't advance
+   * challenges or achievements.
+   */
+  static earnsRewards(result: Pick<TestResult, 'cram'>): boolean {
+    return !result.cram;
+  }
+
+  // Save a cram answer without touching the word's schedule
+  static recordAnswer(wordId: string, quality: Quality, timeSpent: number, deckId?: string): TestResult {
+    const result: TestResult = {
+      testType: 'flashcard',
+      wordId,
+      correct: quality >= 3,
+      timeSpent,
+      timestamp: new Date(),
+      quality,
+      cram: true
+    };
+
+    ProgressTracker.saveTestResult(result);
+    StudyEvents.emit({ type: 'card-reviewed', result, deckId });
+    return result;
+  }
+}
@@ -0,0 +1,382 @@
+import { DataManager } from '../data/DataManager';
+import { WordIdMigration } from '../data/WordIdMigration';
+import { WordRecord } from '../types';
+import { StoreName, StoreRecords, STORE_NAMES, reviveRecords } from './StorageBackend';
+import type { GamificationState } from './GameificationService';
+
+export type BackupData = { schemaVersion: number; gamification?: GamificationState } & { [S in StoreName]?: StoreRecords[S][] };
+
+export interface UpgradeSummary {
+  fromVersion: number;
+  unmappedWordIds: number; // records whose word ID no longer matches a word
+}
+
+interface MigrationContext {
+  bundledWords: WordRecord[];
+  summary: UpgradeSummary;
+}
+
+// Upgrades a payload from version N to N + 1
+type Migration = (data: any, context: MigrationContext) => any;
+
+type FieldRule = 'string' | 'number' | 'boolean' | 'date' | 'object' | readonly string[];
+
+interface RecordSchema {
+  required: Record<string, FieldRule>;
+  optional?: Record<string, FieldRule>;
+}
+
+const TEST_TYPES = ['flashcard', 'match', 'sentence', 'synonym-antonym'] as const;
+
+const RECORD_SCHEMAS: Record<StoreName, RecordSchema> = {
+  userProgress: {
+    required: {
+      wordId: 'string',
+      easeFactor: 'number',
+      repetitions: 'number',
+      interval: 'number',
+      nextReview: 'date',
+      totalSeen: 'number',
+      correctCount: 'number',
+      accuracy: 'number',
+      lastReviewed: 'date',
+      masteryLevel: 'number'
+    },
+    optional: {
+      scheduler: ['sm2', 'fsrs'],
+      stability: 'number',
+      difficulty: 'number',
+      lastModified: 'date',
+      syncVersion: 'number'
+    }
+  },
+  testResults: {
+    required: {
+      testType: TEST_TYPES,
+      wordId: 'string',
+      correct: 'boolean',
+      timeSpent: 'number',
+      timestamp: 'date',
+      quality: 'number'
+    },
+    optional: { cram: 'boolean' }
+  },
+  flashcardSessions: {
+    required: {
+      id: 'string',
+      startTime: 'date',
+      cardsStudied: 'number',
+      correctAnswers: 'number',
+      averageTime: 'number'
+    },
+    optional: { endTime: 'date' }
+  },
+  testSessions: {
+    required: {
+      id: 'string',
+      testType: TEST_TYPES,
+      startTime: 'date',
+      totalQuestions: 'number',
+      correctAnswers: 'number',
+      score: 'number',
+      timeSpent: 'number'
+    },
+    optional: { endTime: 'date' }
+  },
+  reviewEvents: {
+    required: {
+      id: 'string',
+      deviceId: 'string',
+      seq: 'number',
+      clock: 'number',
+      type: ['review', 'set'],
+      wordId: 'string',
+      timestamp: 'date'
+    },
+    optional: {
+      quality: 'number',
+      scheduler: ['sm2', 'fsrs'],
+      maxInterval: 'number',
+      progress: 'object'
+    }
+  }
+};
+
+// Gamification state is a single optional object rather than a store.
+// Challenges saved before they had steps still pass; they are ignored on import.
+const CHALLENGE_SCHEMA: RecordSchema = {
+  required: {
+    id: 'string',
+    date: 'string',
+    completed: 'boolean'
+  },
+  optional: {
+    tier: ['daily', 'weekly'],
+    reward: 'number',
+    rewardedBy: 'string'
+  }
+};
+
+const CHALLENGE_STEP_SCHEMA: RecordSchema = {
+  required: {
+    type: 'string',
+    target: 'number',
+    progress: 'number',
+    completed: 'boolean'
+  },
+  optional: { completedAt: 'date' }
+};
+
+/**
+ * Thrown when a backup or sync payload can't be used. `issues` lists every
+ * offending field as `store[index].field: problem`.
+ */
+export class DataSchemaError extends Error {
+  readonly issues: string[];
+
+  constructor(summary: string, issues: string[] = []) {
+    const shown = issues.slice(0, DataSchema.MAX_REPORTED_ISSUES);
+    const more = issues.length - shown.length;
+    super([summary, ...shown].join('\n') + (more > 0 ? `\n…and ${more} more` : ''));
+    this.name = 'DataSchemaError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * DataSchema - Versioning for backups and sync files
+ *
+ * Every export carries `schemaVersion`. Older payloads are upgraded one
+ * version at a time by MIGRATIONS, then checked against the current record
+ * shapes before anything is written locally.
+ *
+ * Versions:
+ *   1 - unversioned files with index-based word IDs (`abate-12`)
+ *   2 - content-stable word IDs
+ *   3 - review event log (reviewEvents)
+ *
+ * The optional `gamification` object (achievements, XP, challenges)
+ * needed no new version: older apps ignore it.
+ */
+export class DataSchema {
+  static readonly CURRENT_VERSION = 3;
+  static readonly MAX_REPORTED_ISSUES = 10;
+
+  // MIGRATIONS[n] upgrades version n + 1 to n + 2
+  private static readonly MIGRATIONS: Migration[] = [
+    (data, context) => {
+      const { data: remapped, report } = WordIdMigration.remapData(data, context.bundledWords);
+      context.summary.unmappedWordIds += report.unmapped.length;
+      return remapped;
+    },
+    // The review log is a new, optional store; ReviewLog.afterImport starts one for imported progress
+    data => data
+  ];
+
+  static stamp<T extends object>(data: T): T & { schemaVersion: number } {
+    return { ...data, schemaVersion: this.CURRENT_VERSION };
+  }
+
+  /**
+   * Parse, upgrade and validate a payload. Throws DataSchemaError without
+   * side effects if any part of it is unusable.
+   */
+  static async parse(json: string): Promise<{ data: BackupData; summary: UpgradeSummary }> {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(json);
+    } catch {
+      throw new DataSchemaError('The file is not valid JSON.');
+    }
+    return this.upgrade(raw);
+  }
+
+  static async upgrade(raw: unknown): Promise<{ data: BackupData; summary: UpgradeSummary }> {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      throw new DataSchemaError('The file does not contain WordPlay data.');
+    }
+
+    const fromVersion = this.getVersion(raw as Record<string, unknown>);
+    const summary: UpgradeSummary = { fromVersion, unmappedWordIds: 0 };
+
+    let data: any = raw;
+    if (fromVersion < this.CURRENT_VERSION) {
+      await DataManager.loadWords();
+      const context: MigrationContext = { bundledWords: DataManager.getBundledWords(), summary };
+
+      for (let version = fromVersion; version < this.CURRENT_VERSION; version++) {
+        try {
+          data = this.MIGRATIONS[version - 1](data, context);
+        } catch (error) {
+          // Malformed records usually break a migration; report them instead
+          const issues = this.validate(data);
+          if (issues.length > 0) throw this.invalid(issues);
+          throw new DataSchemaError(
+            `Could not upgrade the data from version ${version} to ${version + 1}: ${error instanceof Error ? error.message : error}`
+          );
+        }
+      }
+    }
+
+    const issues = this.validate(data);
+    if (issues.length > 0) throw this.invalid(issues);
+
+    const result: BackupData = { schemaVersion: this.CURRENT_VERSION };
+    STORE_NAMES.forEach(store => {
+      if (Array.isArray(data[store])) {
+        (result as any)[store] = reviveRecords(store, data[store]);
+      }
+    });
+    if (data.gamification) {
+      result.gamification = data.gamification;
+    }
+
+    return { data: result, summary };
+  }
+
+  private static getVersion(data: Record<string, unknown>): number {
+    const version = data.schemaVersion;
+    if (version === undefined) return 1;
+
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+      throw new DataSchemaError('The file has an invalid schema version.', [`schemaVersion: expected a positive whole number, got ${this.describe(version)}`]);
+    }
+    this.assertSupported(version);
+    return version;
+  }
+
+  // Reject data written by a newer app before trying to use it
+  static assertSupported(version: number): void {
+    if (version > this.CURRENT_VERSION) {
+      throw new DataSchemaError(
+        `The data was written by a newer version of WordPlay (schema ${version}; this app reads up to ${this.CURRENT_VERSION}). Update the app on this device first.`
+      );
+    }
+  }
+
+  private static invalid(issues: string[]): DataSchemaError {
+    return new DataSchemaError(issues.length === 1
+      ? '1 field doesn\'t match the expected format:'
+      : `${issues.length} fields don't match the expected format:`, issues);
+  }
+
+  // Check every present store against the current record shapes
+  static validate(data: any): string[] {
+    const issues: string[] = [];
+
+    STORE_NAMES.forEach(store => {
+      const records = data[store];
+      if (records === undefined) return;
+      if (!Array.isArray(records)) {
+        issues.push(`${store}: expected a list, got ${this.describe(records)}`);
+        return;
+      }
+
+      records.forEach((record: any, index: number) => {
+        this.checkRecord(RECORD_SCHEMAS[store], record, `${store}[${index}]`, issues);
+
+        // 'set' events carry a full progress record
+        if (store === 'reviewEvents' && record?.progress && typeof record.progress === 'object') {
+          this.checkRecord(RECORD_SCHEMAS.userProgress, record.progress, `${store}[${index}].progress`, issues);
+        }
+      });
+    });
+
+    if (data.gamification !== undefined) {
+      this.validateGamification(data.gamification, issues);
+    }
+
+    return issues;
+  }
+
+  private static validateGamification(state: any, issues: string[]): void {
+    if (!state || typeof state !== 'object' || Array.isArray(state)) {
+      issues.push(`gamification: expected a record, got ${this.describe(state)}`);
+      return;
+    }
+
+    const checkMap = (field: 'achievements' | 'experience', rule: FieldRule) => {
+      const map = state[field];
+      if (!map || typeof map !== 'object' || Array.isArray(map)) {
+        issues.push(`gamification.${field}: expected a record, got ${this.describe(map)}`);
+        return;
+      }
+      Object.entries(map).forEach(([key, value]) => {
+        const problem = this.checkField(value, rule);
+        if (problem) issues.push(`gamification.${field}.${key}: ${problem}`);
+      });
+    };
+    checkMap('achievements', 'date');
+    checkMap('experience', 'number');
+
+    if (state.bestRun !== undefined) {
+      const problem = this.checkField(state.bestRun, 'number');
+      if (problem) issues.push(`gamification.bestRun: ${problem}`);
+    }
+
+    (['dailyChallenge', 'weeklyChallenge'] as const).forEach(field => {
+      const challenge = state[field];
+      if (challenge === null || challenge === undefined) return;
+
+      const path = `gamification.${field}`;
+      this.checkRecord(CHALLENGE_SCHEMA, challenge, path, issues);
+      if (challenge?.steps === undefined) return;
+      if (!Array.isArray(challenge.steps)) {
+        issues.push(`${path}.steps: expected a list, got ${this.describe(challenge.steps)}`);
+        return;
+      }
+      challenge.steps.forEach((step: any, index: number) => {
+        this.checkRecord(CHALLENGE_STEP_SCHEMA, step, `${path}.steps[${index}]`, issues);
+      });
+    });
+  }
+
+  private static checkRecord(schema: RecordSchema, record: any, path: string, issues: string[]): void {
+    if (!record || typeof record !== 'object') {
+      issues.push(`${path}: expected a record, got ${this.describe(record)}`);
+      return;
+    }
+
+    Object.entries(schema.required).forEach(([field, rule]) => {
+      const problem = record[field] === undefined ? 'missing' : this.checkField(record[field], rule);
+      if (problem) issues.push(`${path}.${field}: ${problem}`);
+    });
+
+    Object.entries(schema.optional || {}).forEach(([field, rule]) => {
+      if (record[field] === undefined || record[field] === null) return;
+      const problem = this.checkField(record[field], rule);
+      if (problem) issues.push(`${path}.${field}: ${problem}`);
+    });
+  }
+
+  private static checkField(value: unknown, rule: FieldRule): string | null {
+    if (Array.isArray(rule)) {
+      return rule.includes(value as string) ? null : `expected one of ${rule.join(', ')}, got ${this.describe(value)}`;
+    }
+
+    switch (rule) {
+      case 'string':
+        return typeof value === 'string' && value.length > 0 ? null : `expected text, got ${this.describe(value)}`;
+      case 'number':
+        return typeof value === 'number' && Number.isFinite(value) ? null : `expected a number, got ${this.describe(value)}`;
+      case 'boolean':
+        return typeof value === 'boolean' ? null : `expected true or false, got ${this.describe(value)}`;
+      case 'object':
+        return value !== null && typeof value === 'object' && !Array.isArray(value) ? null : `expected a record, got ${this.describe(value)}`;
+      case 'date': {
+        const valid = value instanceof Date
+          ? !isNaN(value.getTime())
+          : (typeof value === 'string' || typeof value === 'number') && !isNaN(new Date(value).getTime());
+        return valid ? null : `expected a date, got ${this.describe(value)}`;
+      }
+      default:
+        return null;
+    }
+  }
+
+  private static describe(value: unknown): string {
+    if (value === undefined) return 'nothing';
+    const text = JSON.stringify(value);
+    return text && text.length > 40 ? `${text.slice(0, 37)}...` : String(text);
+  }
+}
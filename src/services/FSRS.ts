@@ -0,0 +1,174 @@
+import { UserProgress, Quality } from '../types';
+
+type Rating = 1 | 2 | 3 | 4; // Again, Hard, Good, Easy
+
+/**
+ * FSRSAlgorithm - Free Spaced Repetition Scheduler (FSRS-4.5 memory model)
+ *
+ * Models each word with a stability (days until recall probability drops to 90%)
+ * and a difficulty (1-10). Intervals grow with stability instead of a fixed ease
+ * multiplier, which keeps large collections from piling up on the same days.
+ */
+export class FSRSAlgorithm {
+  private static readonly WEIGHTS = [
+    0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474,
+    0.1367, 1.0461, 2.1072, 0.0793, 0.3246, 1.587, 0.2272, 2.8755
+  ];
+  private static readonly DECAY = -0.5;
+  private static readonly FACTOR = 19 / 81;
+  private static readonly REQUEST_RETENTION = 0.9;
+  private static readonly MAXIMUM_INTERVAL = 36500;
+  private static readonly DAY_MS = 1000 * 60 * 60 * 24;
+
+  // SM-2 style grades (0-5) collapse onto the four FSRS ratings
+  static qualityToRating(quality: Quality): Rating {
+    if (quality < 3) return 1;
+    if (quality === 3) return 2;
+    if (quality === 4) return 3;
+    return 4;
+  }
+
+  static retrievability(elapsedDays: number, stability: number): number {
+    return Math.pow(1 + this.FACTOR * elapsedDays / stability, this.DECAY);
+  }
+
+  static nextInterval(stability: number): number {
+    const interval = stability / this.FACTOR * (Math.pow(this.REQUEST_RETENTION, 1 / this.DECAY) - 1);
+    return Math.min(this.MAXIMUM_INTERVAL, Math.max(1, Math.round(interval)));
+  }
+
+  private static clampDifficulty(difficulty: number): number {
+    return Math.min(10, Math.max(1, difficulty));
+  }
+
+  private static initialStability(rating: Rating): number {
+    return Math.max(0.1, this.WEIGHTS[rating - 1]);
+  }
+
+  private static initialDifficulty(rating: Rating): number {
+    const w = this.WEIGHTS;
+    return this.clampDifficulty(w[4] - (rating - 3) * w[5]);
+  }
+
+  private static nextDifficulty(difficulty: number, rating: Rating): number {
+    const w = this.WEIGHTS;
+    const updated = difficulty - w[6] * (rating - 3);
+    // Mean reversion towards the default difficulty of a "Good" first answer
+    return this.clampDifficulty(w[7] * this.initialDifficulty(3) + (1 - w[7]) * updated);
+  }
+
+  private static nextRecallStability(difficulty: number, stability: number, retrievability: number, rating: Rating): number {
+    const w = this.WEIGHTS;
+    const hardPenalty = rating === 2 ? w[15] : 1;
+    const easyBonus = rating === 4 ? w[16] : 1;
+    return stability * (
+      1 +
+      Math.exp(w[8]) *
+      (11 - difficulty) *
+      Math.pow(stability, -w[9]) *
+      (Math.exp((1 - retrievability) * w[10]) - 1) *
+      hardPenalty *
+      easyBonus
+    );
+  }
+
+  private static nextForgetStability(difficulty: number, stability: number, retrievability: number): number {
+    const w = this.WEIGHTS;
+    const forgetStability = w[11] *
+      Math.pow(difficulty, -w[12]) *
+      (Math.pow(stability + 1, w[13]) - 1) *
+      Math.exp((1 - retrievability) * w[14]);
+    // A lapse should never leave the word more stable than it was
+    return Math.min(forgetStability, stability);
+  }
+
+  static initializeUserProgress(wordId: string): UserProgress {
+    return {
+      wordId,
+      easeFactor: 2.5,
+      repetitions: 0,
+      interval: 1,
+      nextReview: new Date(),
+      totalSeen: 0,
+      correctCount: 0,
+      accuracy: 0,
+      lastReviewed: new Date(),
+      masteryLevel: 0,
+      scheduler: 'fsrs'
+    };
+  }
+
+  static updateUserProgress(
+    userProgress: UserProgress,
+    quality: Quality,
+    now: Date = new Date()
+  ): UserProgress {
+    const rating = this.qualityToRating(quality);
+    const isFirstReview = userProgress.stability === undefined || userProgress.difficulty === undefined;
+
+    let stability: number;
+    let difficulty: number;
+
+    if (isFirstReview) {
+      stability = this.initialStability(rating);
+      difficulty = this.initialDifficulty(rating);
+    } else {
+      const elapsedDays = Math.max(0, (now.getTime() - new Date(userProgress.lastReviewed).getTime()) / this.DAY_MS);
+      const retrievability = this.retrievability(elapsedDays, userProgress.stability!);
+      difficulty = this.nextDifficulty(userProgress.difficulty!, rating);
+      stability = rating === 1
+        ? this.nextForgetStability(userProgress.difficulty!, userProgress.stability!, retrievability)
+        : this.nextRecallStability(userProgress.difficulty!, userProgress.stability!, retrievability, rating);
+    }
+
+    const interval = rating === 1 ? 1 : this.nextInterval(stability);
+    const nextReview = new Date(now);
+    nextReview.setDate(nextReview.getDate() + interval);
+
+    const repetitions = rating === 1 ? 0 : userProgress.repetitions + 1;
+    const totalSeen = userProgress.totalSeen + 1;
+    const correctCount = quality >= 3 ? userProgress.correctCount + 1 : userProgress.correctCount;
+    const accuracy = correctCount / totalSeen;
+    // Same mastery scale as SM-2 so dashboards stay comparable across schedulers
+    const masteryLevel = Math.min(100, Math.round(accuracy * 100 * (1 + repetitions * 0.1)));
+
+    return {
+      ...userProgress,
+      repetitions,
+      interval,
+      nextReview,
+      stability: Math.round(stability * 10000) / 10000,
+      difficulty: Math.round(difficulty * 10000) / 10000,
+      totalSeen,
+      correctCount,
+      accuracy,
+      lastReviewed: now,
+      masteryLevel,
+      scheduler: 'fsrs'
+    };
+  }
+
+  // Seed stability/difficulty from an SM-2 record: the current interval is the
+  // best estimate of how long the word is remembered, and ease maps inversely to difficulty.
+  static migrateUserProgress(userProgress: UserProgress): UserProgress {
+    if (userProgress.scheduler === 'fsrs') {
+      return userProgress;
+    }
+
+    if (userProgress.totalSeen === 0) {
+      return { ...userProgress, stability: undefined, difficulty: undefined, scheduler: 'fsrs' };
+    }
+
+    const stability = userProgress.repetitions === 0
+      ? this.initialStability(1)
+      : Math.max(userProgress.interval, this.initialStability(3));
+    const difficulty = this.clampDifficulty(1 + (3.0 - userProgress.easeFactor) * (9 / 1.7));
+
+    return {
+      ...userProgress,
+      stability: Math.round(stability * 10000) / 10000,
+      difficulty: Math.round(difficulty * 10000) / 10000,
+      scheduler: 'fsrs'
+    };
+  }
+}
@@ -1,24 +1,17 @@
+import { AchievementCheck, AchievementDefinition, AchievementEngine } from './AchievementEngine';
 import { ProgressTracker } from './ProgressTracker';
-
-export interface Achievement {
-  id: string;
-  name: string;
-  description: string;
-  icon: string;
-  type: 'streak' | 'accuracy' | 'time' | 'mastery' | 'tests' | 'special';
-  requirement: number;
-  points: number;
+import { ChallengeGenerator, ChallengeTier, DailyChallenge } from './ChallengeGenerator';
+import { CramSession } from './CramSession';
+import { ReviewLog } from './ReviewLog';
+import { QuickPracticeMode } from './SessionConfig';
+import { SettingsService } from './SettingsService';
+import { StreakData, StreakService } from './StreakService';
+import { StudyEvent, StudyEvents } from './StudyEvents';
+
+export interface Achievement extends AchievementDefinition {
   unlocked: boolean;
   unlockedAt?: Date;
-}
-
-export interface StreakData {
-  current: number;
-  best: number;
-  lastActivity: Date;
-  frozen: boolean;
-  freezesUsed: number;
-  maxFreezes: number;
+  progress: number; // current value of the rule's metric, in the unit of `requirement`
 }
 
 export interface MasteryLevel {
@@ -29,19 +22,6 @@ export interface MasteryLevel {
   minReviews: number;
 }
 
-export interface DailyChallenge {
-  id: string;
-  date: string;
-  title: string;
-  description: string;
-  type: 'flashcard' | 'test' | 'streak' | 'accuracy';
-  target: number;
-  progress: number;
-  completed: boolean;
-  reward: number;
-  icon: string;
-}
-
 export interface UserStats {
   level: number;
   experience: number;
@@ -50,51 +30,61 @@ export interface UserStats {
   achievements: Achievement[];
   streak: StreakData;
   dailyChallenge: DailyChallenge | null;
+  weeklyChallenge: DailyChallenge | null;
 }
 
+// Everything gamification keeps, as it travels in backups and sync files
+export interface GamificationState {
+  achievements: Record<string, string>; // achievement id -> ISO unlock date
+  experience: Record<string, number>; // device id -> XP earned on that device
+  dailyChallenge: DailyChallenge | null;
+  weeklyChallenge: DailyChallenge | null;
+  bestRun?: number; // longest streak builder run; missing in older files
+}
+
+// What a study event changed, for notifications and live displays
+export interface GamificationUpdate {
+  unlocked: Achievement[];
+  experienceGained: number;
+  levelUp: boolean;
+  completedChallenges: DailyChallenge[];
+}
+
+/**
+ * GameificationService - Achievements, XP, levels and daily challenges
+ *
+ * Once started it listens to StudyEvents, so every study flow awards XP,
+ * advances the daily challenge and unlocks achievements without calling in
+ * here; the streak comes from StreakService. Subscribers get a
+ * GamificationUpdate after each event and after imports. Achievements are
+ * defined as rules in AchievementEngine and re-checked against the whole
+ * history, so new rules apply to past study too.
+ *
+ * XP is kept per device (like a counter that only grows) so devices can merge
+ * their totals without double counting; achievement points are added on top
+ * from the unlocked achievements, and the level is derived from the total.
+ */
 export class GameificationService {
   private static readonly STORAGE_KEYS = {
     ACHIEVEMENTS: 'wordplay-achievements',
-    STREAK_DATA: 'wordplay-streak-data',
+    STREAK_DATA: 'wordplay-streak-data', // no longer written; see StreakService
     DAILY_CHALLENGE: 'wordplay-daily-challenge',
-    USER_LEVEL: 'wordplay-user-level',
-    USER_EXPERIENCE: 'wordplay-user-experience'
+    WEEKLY_CHALLENGE: 'wordplay-weekly-challenge',
+    USER_LEVEL: 'wordplay-user-level', // no longer written; the level is derived from XP
+    USER_EXPERIENCE: 'wordplay-user-experience',
+    BEST_RUN: 'wordplay-best-run'
   };
 
-  private static readonly ACHIEVEMENTS: Omit<Achievement, 'unlocked' | 'unlockedAt'>[] = [
-    // Streak achievements
-    { id: 'streak_3', name: 'Getting Started', description: '3 day learning streak', icon: '🔥', type: 'streak', requirement: 3, points: 50 },
-    { id: 'streak_7', name: 'Week Warrior', description: '7 day learning streak', icon: '🔥', type: 'streak', requirement: 7, points: 100 },
-    { id: 'streak_14', name: 'Two Week Champion', description: '14 day learning streak', icon: '🔥', type: 'streak', requirement: 14, points: 200 },
-    { id: 'streak_30', name: 'Month Master', description: '30 day learning streak', icon: '🔥', type: 'streak', requirement: 30, points: 500 },
-    { id: 'streak_100', name: 'Century Streak', description: '100 day learning streak', icon: '🏆', type: 'streak', requirement: 100, points: 1000 },
-
-    // Accuracy achievements
-    { id: 'accuracy_80', name: 'Sharp Shooter', description: 'Maintain 80% accuracy', icon: '🎯', type: 'accuracy', requirement: 80, points: 100 },
-    { id: 'accuracy_90', name: 'Precision Master', description: 'Maintain 90% accuracy', icon: '🎯', type: 'accuracy', requirement: 90, points: 250 },
-    { id: 'accuracy_95', name: 'Perfect Aim', description: 'Maintain 95% accuracy', icon: '🎯', type: 'accuracy', requirement: 95, points: 500 },
-
-    // Test achievements
-    { id: 'tests_10', name: 'Test Taker', description: 'Complete 10 tests', icon: '📝', type: 'tests', requirement: 10, points: 75 },
-    { id: 'tests_50', name: 'Test Master', description: 'Complete 50 tests', icon: '📝', type: 'tests', requirement: 50, points: 200 },
-    { id: 'tests_100', name: 'Test Champion', description: 'Complete 100 tests', icon: '🏆', type: 'tests', requirement: 100, points: 400 },
-
-    // Mastery achievements
-    { id: 'mastery_10', name: 'Word Explorer', description: 'Master 10 words', icon: '📚', type: 'mastery', requirement: 10, points: 100 },
-    { id: 'mastery_50', name: 'Vocabulary Builder', description: 'Master 50 words', icon: '📚', type: 'mastery', requirement: 50, points: 300 },
-    { id: 'mastery_100', name: 'Word Wizard', description: 'Master 100 words', icon: '🧙', type: 'mastery', requirement: 100, points: 600 },
-    { id: 'mastery_250', name: 'Vocabulary Sage', description: 'Master 250 words', icon: '🧙', type: 'mastery', requirement: 250, points: 1200 },
-
-    // Time achievements
-    { id: 'time_1h', name: 'Dedicated Learner', description: 'Spend 1 hour learning', icon: '⏱️', type: 'time', requirement: 3600000, points: 100 },
-    { id: 'time_10h', name: 'Committed Student', description: 'Spend 10 hours learning', icon: '⏱️', type: 'time', requirement: 36000000, points: 300 },
-    { id: 'time_50h', name: 'Learning Legend', description: 'Spend 50 hours learning', icon: '👑', type: 'time', requirement: 180000000, points: 1000 },
-
-    // Special achievements
-    { id: 'perfect_test', name: 'Perfectionist', description: 'Score 100% on a test', icon: '⭐', type: 'special', requirement: 100, points: 150 },
-    { id: 'speed_demon', name: 'Speed Demon', description: 'Complete a test in under 60 seconds', icon: '⚡', type: 'special', requirement: 60000, points: 200 },
-    { id: 'comeback_kid', name: 'Comeback Kid', description: 'Return after 7+ day break', icon: '💪', type: 'special', requirement: 7, points: 100 }
-  ];
+  private static readonly XP = {
+    CARD_REVIEWED: 2,
+    CARD_CORRECT: 3, // on top of CARD_REVIEWED
+    TEST_COMPLETED: 10,
+    TEST_CORRECT_ANSWER: 5,
+    SESSION_ENDED: 10
+  };
+
+  private static unsubscribe: (() => void) | null = null;
+  private static listeners = new Set<(update: GamificationUpdate) => void>();
 
   private static readonly MASTERY_LEVELS: MasteryLevel[] = [
     { level: 'bronze', name: 'Bronze', color: '#CD7F32', minAccuracy: 60, minReviews: 3 },
@@ -104,9 +94,81 @@ export class GameificationService {
     { level: 'diamond', name: 'Diamond', color: '#B9F2FF', minAccuracy: 95, minReviews: 15 }
   ];
 
+  static start(): void {
+    if (this.unsubscribe) return;
+    this.unsubscribe = StudyEvents.subscribe(event => this.handleStudyEvent(event));
+    this.refreshAchievements();
+  }
+
+  /**
+   * Re-check achievements outside of a study event, e.g. on start-up after
+   * an update shipped new rules, and announce whatever that unlocked.
+   */
+  static refreshAchievements(): Achievement[] {
+    const levelBefore = this.getUserLevel();
+    const unlocked = this.checkAndUnlockAchievements();
+    if (unlocked.length > 0) {
+      this.notify({
+        unlocked,
+        experienceGained: unlocked.reduce((sum, a) => sum + a.points, 0),
+        levelUp: this.getUserLevel() > levelBefore,
+        completedChallenges: []
+      });
+    }
+    return unlocked;
+  }
+
+  static stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  static subscribe(listener: (update: GamificationUpdate) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private static notify(update: GamificationUpdate): void {
+    this.listeners.forEach(listener => listener(update));
+  }
+
+  private static handleStudyEvent(event: StudyEvent): void {
+    const levelBefore = this.getUserLevel();
+    let earned = 0;
+
+    switch (event.type) {
+      case 'card-reviewed':
+        if (!CramSession.earnsRewards(event.result)) break;
+        earned = this.XP.CARD_REVIEWED + (event.result.correct ? this.XP.CARD_CORRECT : 0);
+        break;
+      case 'test-completed':
+        earned = this.XP.TEST_COMPLETED + event.session.correctAnswers * this.XP.TEST_CORRECT_ANSWER;
+        break;
+      case 'session-ended':
+        earned = this.XP.SESSION_ENDED;
+        break;
+    }
+
+    this.addExperience(earned);
+    const completedChallenges = this.refreshChallenges();
+    const unlocked = this.checkAndUnlockAchievements();
+
+    this.notify({
+      unlocked,
+      experienceGained: earned
+        + completedChallenges.reduce((sum, c) => sum + c.reward, 0)
+        + unlocked.reduce((sum, a) => sum + a.points, 0),
+      levelUp: this.getUserLevel() > levelBefore,
+      completedChallenges
+    });
+  }
+
   static getUserStats(): UserStats {
+    this.refreshChallenges();
     const achievements = this.getAchievements();
-    const streak = this.getStreakData();
+    const streak = StreakService.getStreak();
     const level = this.getUserLevel();
     const experience = this.getUserExperience();
     const totalPoints = achievements.filter(a => a.unlocked).reduce((sum, a) => sum + a.points, 0);
@@ -118,74 +180,47 @@ export class GameificationService {
       totalPoints,
       achievements,
       streak,
-      dailyChallenge: this.getDailyChallenge()
+      dailyChallenge: this.getChallenge('daily'),
+      weeklyChallenge: this.getChallenge('weekly')
     };
   }
 
-  static getAchievements(): Achievement[] {
+  private static getUnlockedMap(): Record<string, string> {
     const stored = localStorage.getItem(this.STORAGE_KEYS.ACHIEVEMENTS);
-    const unlockedAchievements = stored ? JSON.parse(stored) : {};
-    
-    return this.ACHIEVEMENTS.map(achievement => ({
-      ...achievement,
-      unlocked: !!unlockedAchievements[achievement.id],
-      unlockedAt: unlockedAchievements[achievement.id] ? new Date(unlockedAchievements[achievement.id]) : undefined
+    return stored ? JSON.parse(stored) : {};
+  }
+
+  static getAchievements(): Achievement[] {
+    return this.buildAchievements(AchievementEngine.evaluate());
+  }
+
+  private static buildAchievements(checks: Map<string, AchievementCheck>): Achievement[] {
+    const unlockedAchievements = this.getUnlockedMap();
+
+    return AchievementEngine.getDefinitions().map(definition => ({
+      ...definition,
+      progress: checks.get(definition.id)?.value || 0,
+      unlocked: !!unlockedAchievements[definition.id],
+      unlockedAt: unlockedAchievements[definition.id] ? new Date(unlockedAchievements[definition.id]) : undefined
     }));
   }
 
+  /**
+   * Unlock every achievement the history now meets, including ones from
+   * rules added since the last check. The unlock date is when the history
+   * first met the rule where that's known, otherwise now.
+   */
   static checkAndUnlockAchievements(): Achievement[] {
-    const currentAchievements = this.getAchievements();
-    const stats = ProgressTracker.getOverallStats();
-    const testResults = ProgressTracker.getTestResults();
+    const checks = AchievementEngine.evaluate();
+    const unlockedAchievements = this.getUnlockedMap();
     const newlyUnlocked: Achievement[] = [];
 
-    const stored = localStorage.getItem(this.STORAGE_KEYS.ACHIEVEMENTS);
-    const unlockedAchievements = stored ? JSON.parse(stored) : {};
-
-    currentAchievements.forEach(achievement => {
-      if (achievement.unlocked) return;
-
-      let shouldUnlock = false;
-
-      switch (achievement.type) {
-        case 'streak':
-          shouldUnlock = stats.currentStreak >= achievement.requirement;
-          break;
-        case 'accuracy':
-          shouldUnlock = (stats.averageAccuracy * 100) >= achievement.requirement;
-          break;
-        case 'tests':
-          shouldUnlock = testResults.length >= achievement.requirement;
-          break;
-        case 'mastery':
-          shouldUnlock = stats.masteredWords >= achievement.requirement;
-          break;
-        case 'time':
-          shouldUnlock = stats.totalTimeSpent >= achievement.requirement;
-          break;
-        case 'special':
-          if (achievement.id === 'perfect_test') {
-            shouldUnlock = testResults.some(r => r.correct && (r as any).score === 100);
-          } else if (achievement.id === 'speed_demon') {
-            shouldUnlock = testResults.some(r => r.timeSpent <= achievement.requirement);
-          } else if (achievement.id === 'comeback_kid') {
-            const lastActivity = testResults[testResults.length - 1]?.timestamp;
-            const now = new Date();
-            if (lastActivity) {
-              const daysDiff = (now.getTime() - lastActivity.getTime()) / (1000 * 60 * 60 * 24);
-              shouldUnlock = daysDiff >= achievement.requirement && testResults.length > 5;
-            }
-          }
-          break;
-      }
+    this.buildAchievements(checks).forEach(achievement => {
+      if (achievement.unlocked || achievement.progress < achievement.requirement) return;
 
-      if (shouldUnlock) {
-        unlockedAchievements[achievement.id] = new Date().toISOString();
-        achievement.unlocked = true;
-        achievement.unlockedAt = new Date();
-        newlyUnlocked.push(achievement);
-        this.addExperience(achievement.points);
-      }
+      const unlockedAt = checks.get(achievement.id)?.reachedAt || new Date();
+      unlockedAchievements[achievement.id] = unlockedAt.toISOString();
+      newlyUnlocked.push({ ...achievement, unlocked: true, unlockedAt });
     });
 
     if (newlyUnlocked.length > 0) {
@@ -195,71 +230,6 @@ export class GameificationService {
     return newlyUnlocked;
   }
 
-  static getStreakData(): StreakData {
-    const stored = localStorage.getItem(this.STORAGE_KEYS.STREAK_DATA);
-    if (stored) {
-      const data = JSON.parse(stored);
-      return {
-        ...data,
-        lastActivity: new Date(data.lastActivity)
-      };
-    }
-
-    return {
-      current: 0,
-      best: 0,
-      lastActivity: new Date(),
-      frozen: false,
-      freezesUsed: 0,
-      maxFreezes: 3
-    };
-  }
-
-  static updateStreak(activity: boolean = true): StreakData {
-    const streak = this.getStreakData();
-    const now = new Date();
-    const lastActivity = streak.lastActivity;
-    const daysDiff = Math.floor((now.getTime() - lastActivity.getTime()) / (1000 * 60 * 60 * 24));
-
-    if (activity) {
-      if (daysDiff === 0) {
-        // Same day activity, no change to streak
-      } else if (daysDiff === 1) {
-        // Consecutive day, increment streak
-        streak.current++;
-        streak.best = Math.max(streak.best, streak.current);
-        streak.frozen = false;
-      } else if (daysDiff > 1 && streak.frozen && streak.freezesUsed < streak.maxFreezes) {
-        // Streak was frozen, use a freeze
-        streak.freezesUsed++;
-        streak.frozen = false;
-      } else {
-        // Streak broken
-        streak.current = 1;
-        streak.freezesUsed = 0;
-        streak.frozen = false;
-      }
-      streak.lastActivity = now;
-    }
-
-    this.saveStreakData(streak);
-    return streak;
-  }
-
-  static freezeStreak(): boolean {
-    const streak = this.getStreakData();
-    if (streak.freezesUsed < streak.maxFreezes) {
-      streak.frozen = true;
-      this.saveStreakData(streak);
-      return true;
-    }
-    return false;
-  }
-
-  private static saveStreakData(streak: StreakData): void {
-    localStorage.setItem(this.STORAGE_KEYS.STREAK_DATA, JSON.stringify(streak));
-  }
-
   static getWordMasteryLevel(accuracy: number, totalSeen: number): MasteryLevel {
     const accuracyPercent = accuracy * 100;
     
@@ -273,98 +243,110 @@ export class GameificationService {
     return this.MASTERY_LEVELS[0]; // Default to bronze
   }
 
-  static getDailyChallenge(): DailyChallenge | null {
-    const today = new Date().toISOString().split('T')[0];
-    const stored = localStorage.getItem(this.STORAGE_KEYS.DAILY_CHALLENGE);
-    
-    if (stored) {
-      const challenge = JSON.parse(stored);
-      if (challenge.date === today) {
-        return challenge;
-      }
-    }
+  private static challengeKey(tier: ChallengeTier): string {
+    return tier === 'daily' ? this.STORAGE_KEYS.DAILY_CHALLENGE : this.STORAGE_KEYS.WEEKLY_CHALLENGE;
+  }
 
-    // Generate new daily challenge
-    return this.generateDailyChallenge(today);
+  private static readChallenge(tier: ChallengeTier): DailyChallenge | null {
+    const stored = localStorage.getItem(this.challengeKey(tier));
+    const challenge = stored ? JSON.parse(stored) : null;
+    // Challenges from before steps existed are replaced
+    return challenge && Array.isArray(challenge.steps) ? challenge : null;
   }
 
-  private static generateDailyChallenge(date: string): DailyChallenge {
-    const challenges = [
-      { type: 'flashcard', title: 'Flash Forward', description: 'Review 20 flashcards', target: 20, reward: 100, icon: '🎴' },
-      { type: 'test', title: 'Test Yourself', description: 'Complete 3 tests', target: 3, reward: 150, icon: '📝' },
-      { type: 'accuracy', title: 'Precision Practice', description: 'Achieve 85% accuracy today', target: 85, reward: 200, icon: '🎯' },
-      { type: 'streak', title: 'Keep It Going', description: 'Maintain your learning streak', target: 1, reward: 50, icon: '🔥' }
-    ];
+  private static saveChallenge(challenge: DailyChallenge): void {
+    localStorage.setItem(this.challengeKey(challenge.tier), JSON.stringify(challenge));
+  }
 
-    const randomChallenge = challenges[Math.floor(Math.random() * challenges.length)];
-    
-    const challenge: DailyChallenge = {
-      id: `daily-${date}`,
-      date,
-      title: randomChallenge.title,
-      description: randomChallenge.description,
-      type: randomChallenge.type as any,
-      target: randomChallenge.target,
-      progress: 0,
-      completed: false,
-      reward: randomChallenge.reward,
-      icon: randomChallenge.icon
-    };
+  // The tier's challenge for the current day or week, generated on first use
+  static getChallenge(tier: ChallengeTier): DailyChallenge {
+    const period = ChallengeGenerator.getPeriod(tier);
+    const stored = this.readChallenge(tier);
+    if (stored && stored.date === period) {
+      return stored;
+    }
 
-    localStorage.setItem(this.STORAGE_KEYS.DAILY_CHALLENGE, JSON.stringify(challenge));
+    // Progress (and the reward) is left to refreshChallenges
+    const challenge = ChallengeGenerator.generate(tier, period, ChallengeGenerator.getState());
+    this.saveChallenge(challenge);
     return challenge;
   }
 
-  static updateDailyChallengeProgress(type: string, amount: number = 1): DailyChallenge | null {
-    const challenge = this.getDailyChallenge();
-    if (!challenge || challenge.completed || challenge.type !== type) {
-      return challenge;
-    }
-
-    if (type === 'accuracy') {
-      // For accuracy, we need to calculate the current day's accuracy
-      const stats = ProgressTracker.getOverallStats();
-      challenge.progress = Math.round(stats.averageAccuracy * 100);
-    } else {
-      challenge.progress += amount;
-    }
+  private static evaluateChallenge(challenge: DailyChallenge): DailyChallenge {
+    return ChallengeGenerator.evaluate(
+      challenge,
+      ProgressTracker.getTestResults(),
+      ProgressTracker.getTestSessions(),
+      SettingsService.get().studySettings.dailyGoal
+    );
+  }
 
-    if (challenge.progress >= challenge.target) {
-      challenge.completed = true;
-      challenge.progress = challenge.target;
-      this.addExperience(challenge.reward);
-    }
+  /**
+   * Recompute both challenges from the latest activity and credit the reward
+   * of any that just finished, unless another device already has (the
+   * challenge syncs with its `rewardedBy`). Returns the newly completed challenges.
+   */
+  static refreshChallenges(): DailyChallenge[] {
+    const completed: DailyChallenge[] = [];
+
+    (['daily', 'weekly'] as const).forEach(tier => {
+      const challenge = this.getChallenge(tier);
+      if (challenge.completed) return;
+
+      const updated = this.evaluateChallenge(challenge);
+      if (updated.completed && !updated.rewardedBy) {
+        updated.rewardedBy = ReviewLog.getDeviceId();
+        this.saveChallenge(updated);
+        this.addExperience(updated.reward);
+        completed.push(updated);
+      } else {
+        this.saveChallenge(updated);
+      }
+    });
 
-    localStorage.setItem(this.STORAGE_KEYS.DAILY_CHALLENGE, JSON.stringify(challenge));
-    return challenge;
+    return completed;
   }
 
   static getUserLevel(): number {
-    const stored = localStorage.getItem(this.STORAGE_KEYS.USER_LEVEL);
-    return stored ? parseInt(stored, 10) : 1;
+    return this.calculateLevel(this.getUserExperience());
   }
 
   static getUserExperience(): number {
+    const earned = Object.values(this.getExperienceLedger()).reduce((sum, amount) => sum + amount, 0);
+    return earned + this.getUnlockedPoints();
+  }
+
+  private static getUnlockedPoints(): number {
+    const unlocked = this.getUnlockedMap();
+    return AchievementEngine.getDefinitions().filter(a => unlocked[a.id]).reduce((sum, a) => sum + a.points, 0);
+  }
+
+  private static getExperienceLedger(): Record<string, number> {
     const stored = localStorage.getItem(this.STORAGE_KEYS.USER_EXPERIENCE);
-    return stored ? parseInt(stored, 10) : 0;
+    if (!stored) return {};
+
+    const parsed = JSON.parse(stored);
+    // Older versions kept one number that already included achievement points
+    if (typeof parsed === 'number') {
+      return { [ReviewLog.getDeviceId()]: Math.max(0, parsed - this.getUnlockedPoints()) };
+    }
+    return parsed;
+  }
+
+  private static saveExperienceLedger(ledger: Record<string, number>): void {
+    localStorage.setItem(this.STORAGE_KEYS.USER_EXPERIENCE, JSON.stringify(ledger));
   }
 
   static addExperience(amount: number): { levelUp: boolean; newLevel: number } {
-    const currentExp = this.getUserExperience();
     const currentLevel = this.getUserLevel();
-    const newExp = currentExp + amount;
-    
-    localStorage.setItem(this.STORAGE_KEYS.USER_EXPERIENCE, newExp.toString());
-
-    // Check for level up
-    const newLevel = this.calculateLevel(newExp);
-    const levelUp = newLevel > currentLevel;
+    const ledger = this.getExperienceLedger();
+    const deviceId = ReviewLog.getDeviceId();
 
-    if (levelUp) {
-      localStorage.setItem(this.STORAGE_KEYS.USER_LEVEL, newLevel.toString());
-    }
+    ledger[deviceId] = (ledger[deviceId] || 0) + amount;
+    this.saveExperienceLedger(ledger);
 
-    return { levelUp, newLevel };
+    const newLevel = this.getUserLevel();
+    return { levelUp: newLevel > currentLevel, newLevel };
   }
 
   private static calculateLevel(experience: number): number {
@@ -379,7 +361,7 @@ export class GameificationService {
     return Math.max(0, expForNextLevel - currentExp);
   }
 
-  static getQuickPracticeModes() {
+  static getQuickPracticeModes(): QuickPracticeMode[] {
     return [
       {
         id: 'quick_10',
@@ -408,10 +390,10 @@ export class GameificationService {
       {
         id: 'time_challenge',
         name: 'Time Challenge',
-        description: 'Beat the clock in tests',
+        description: 'Beat the clock on a match test',
         icon: '⏰',
         type: 'test',
-        params: { timeLimit: 120, questionCount: 10 }
+        params: { testType: 'match', timeLimit: 120, questionCount: 10 }
       },
       {
         id: 'streak_builder',
@@ -424,6 +406,107 @@ export class GameificationService {
     ];
   }
 
+  // Longest run of correct answers in a streak builder session
+  static getBestRun(): number {
+    return Number(localStorage.getItem(this.STORAGE_KEYS.BEST_RUN)) || 0;
+  }
+
+  // Keeps the run if it beats the best so far; returns whether it did
+  static recordRun(run: number): boolean {
+    if (run <= this.getBestRun()) return false;
+    localStorage.setItem(this.STORAGE_KEYS.BEST_RUN, String(run));
+    return true;
+  }
+
+  static exportState(): GamificationState {
+    return {
+      achievements: this.getUnlockedMap(),
+      experience: this.getExperienceLedger(),
+      dailyChallenge: this.readChallenge('daily'),
+      weeklyChallenge: this.readChallenge('weekly'),
+      bestRun: this.getBestRun()
+    };
+  }
+
+  // Replace local state with a restored backup
+  static importState(state: GamificationState): void {
+    localStorage.setItem(this.STORAGE_KEYS.ACHIEVEMENTS, JSON.stringify(state.achievements));
+    this.saveExperienceLedger(state.experience);
+    localStorage.setItem(this.STORAGE_KEYS.BEST_RUN, String(state.bestRun || 0));
+    localStorage.removeItem(this.STORAGE_KEYS.USER_LEVEL);
+
+    (['daily', 'weekly'] as const).forEach(tier => {
+      const challenge = tier === 'daily' ? state.dailyChallenge : state.weeklyChallenge;
+      if (challenge && Array.isArray(challenge.steps)) {
+        this.saveChallenge(challenge);
+      } else {
+        localStorage.removeItem(this.challengeKey(tier));
+      }
+    });
+
+    this.notify({ unlocked: [], experienceGained: 0, levelUp: false, completedChallenges: [] });
+  }
+
+  /**
+   * Combine another device's state with ours: achievements keep the earliest
+   * unlock, XP keeps the larger count per device, the best run keeps the
+   * longer one and challenges keep their finished steps. The streak and
+   * challenge progress need no merging: they are worked out from the synced
+   * answers.
+   *
+   * If both devices finished the same challenge before syncing, each credited
+   * its reward; the credit that synced first stands and ours is taken back.
+   */
+  static mergeState(remote: GamificationState): void {
+    const local = this.exportState();
+    const deviceId = ReviewLog.getDeviceId();
+
+    // Files from before challenges had steps carry an old-style challenge
+    const usable = (challenge?: DailyChallenge | null) => (challenge && Array.isArray(challenge.steps) ? challenge : null);
+    const dailyChallenge = this.mergeChallenges(local.dailyChallenge, usable(remote.dailyChallenge));
+    const weeklyChallenge = this.mergeChallenges(local.weeklyChallenge, usable(remote.weeklyChallenge));
+
+    const withdrawn = [[local.dailyChallenge, dailyChallenge], [local.weeklyChallenge, weeklyChallenge]]
+      .filter(([ours, merged]) => ours?.rewardedBy === deviceId && merged?.id === ours.id && merged.rewardedBy !== deviceId)
+      .reduce((sum, [ours]) => sum + ours!.reward, 0);
+    if (withdrawn > 0) {
+      local.experience[deviceId] = Math.max(0, (local.experience[deviceId] || 0) - withdrawn);
+    }
+
+    const achievements = { ...remote.achievements };
+    Object.entries(local.achievements).forEach(([id, date]) => {
+      if (!achievements[id] || new Date(date) < new Date(achievements[id])) achievements[id] = date;
+    });
+
+    const experience = { ...remote.experience };
+    Object.entries(local.experience).forEach(([deviceId, amount]) => {
+      experience[deviceId] = Math.max(amount, experience[deviceId] || 0);
+    });
+
+    this.importState({
+      achievements,
+      experience,
+      dailyChallenge,
+      weeklyChallenge,
+      bestRun: Math.max(local.bestRun || 0, remote.bestRun || 0)
+    });
+  }
+
+  private static mergeChallenges(local: DailyChallenge | null, remote: DailyChallenge | null): DailyChallenge | null {
+    if (!local || !remote) return local || remote;
+    if (local.date !== remote.date) return local.date > remote.date ? local : remote;
+    // Before syncing, each device may have drawn a different challenge; the synced one wins
+    if (local.id !== remote.id) return remote;
+    // Progress is recomputed from the merged activity; finished steps stay finished
+    const steps = remote.steps.map((step, i) => (!step.completed && local.steps[i]?.completed ? local.steps[i] : step));
+    return {
+      ...remote,
+      steps,
+      completed: local.completed || remote.completed,
+      rewardedBy: remote.rewardedBy || local.rewardedBy
+    };
+  }
+
   static clearAllData(): void {
     Object.values(this.STORAGE_KEYS).forEach(key => {
       localStorage.removeItem(key);
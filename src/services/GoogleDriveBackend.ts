@@ -0,0 +1,173 @@
+import { GoogleAuth } from './GoogleAuth';
+import { SyncBackend, SyncFile, SyncFileInfo, SyncRevisionConflictError } from './SyncBackend';
+
+interface DriveFile {
+  id: string;
+  name: string;
+  version: string;
+  modifiedTime?: string;
+  size?: string;
+}
+
+/**
+ * GoogleDriveBackend - Sync files in a "WordPlay" folder of the user's Drive
+ *
+ * Revisions are Drive's per-file version numbers. Drive has no conditional
+ * upload, so put() compares the version just before writing; that still
+ * catches the usual case of another device having synced in the meantime.
+ */
+export class GoogleDriveBackend implements SyncBackend {
+  readonly type = 'google-drive';
+  readonly label = 'Google Drive';
+
+  private static readonly FOLDER_NAME = 'WordPlay';
+  private static readonly FILE_FIELDS = 'id,name,version,modifiedTime,size';
+
+  private folderId: string | null = null;
+
+  isReady(): boolean {
+    return !!GoogleAuth.getCurrentUser();
+  }
+
+  private async getAccessToken(): Promise<string> {
+    await GoogleAuth.refreshTokenIfNeeded();
+    const user = GoogleAuth.getCurrentUser();
+    if (!user) throw new Error('Not authenticated with Google Drive. Please sign in to use sync features.');
+    return user.accessToken;
+  }
+
+  private async request(url: string, init: RequestInit = {}): Promise<Response> {
+    const accessToken = await this.getAccessToken();
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        ...init.headers,
+        Authorization: `Bearer ${accessToken}`,
+      },
+    });
+
+    if (response.status === 401) {
+      throw new Error('Google Drive session expired. Please sign in again to use sync features.');
+    }
+    return response;
+  }
+
+  private async getOrCreateFolder(): Promise<string> {
+    if (this.folderId) return this.folderId;
+
+    // Search for existing folder
+    const query = encodeURIComponent(`name='${GoogleDriveBackend.FOLDER_NAME}' and mimeType='application/vnd.google-apps.folder' and trashed=false`);
+    const searchResponse = await this.request(`https://www.googleapis.com/drive/v3/files?q=${query}`);
+    const searchResult = await searchResponse.json();
+
+    if (searchResult.files && searchResult.files.length > 0) {
+      this.folderId = searchResult.files[0].id as string;
+      return this.folderId;
+    }
+
+    // Create new folder
+    const createResponse = await this.request('https://www.googleapis.com/drive/v3/files', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        name: GoogleDriveBackend.FOLDER_NAME,
+        mimeType: 'application/vnd.google-apps.folder',
+      }),
+    });
+
+    const folder = await createResponse.json();
+    this.folderId = folder.id as string;
+    return this.folderId;
+  }
+
+  private async findFile(name: string): Promise<DriveFile | null> {
+    const folderId = await this.getOrCreateFolder();
+    const query = encodeURIComponent(`name='${name.replace(/'/g, "\\'")}' and '${folderId}' in parents and trashed=false`);
+    const response = await this.request(
+      `https://www.googleapis.com/drive/v3/files?q=${query}&fields=files(${GoogleDriveBackend.FILE_FIELDS})`
+    );
+
+    const result = await response.json();
+    return result.files && result.files.length > 0 ? result.files[0] : null;
+  }
+
+  async get(name: string): Promise<SyncFile | null> {
+    const file = await this.findFile(name);
+    if (!file) return null;
+
+    const response = await this.request(`https://www.googleapis.com/drive/v3/files/${file.id}?alt=media`);
+    if (!response.ok) {
+      throw new Error(`Google Drive download failed: ${response.statusText}`);
+    }
+
+    return { content: await response.text(), revision: file.version };
+  }
+
+  async put(name: string, content: string, expectedRevision?: string | null): Promise<string> {
+    const existing = await this.findFile(name);
+    if (expectedRevision !== undefined && (existing ? existing.version : null) !== expectedRevision) {
+      throw new SyncRevisionConflictError(name);
+    }
+
+    // Parents are only allowed when creating the file
+    const fileMetadata = existing
+      ? { name, mimeType: 'application/json' }
+      : { name, mimeType: 'application/json', parents: [await this.getOrCreateFolder()] };
+
+    const form = new FormData();
+    form.append('metadata', new Blob([JSON.stringify(fileMetadata)], { type: 'application/json' }));
+    form.append('file', new Blob([content], { type: 'application/json' }));
+
+    const response = await this.request(
+      existing
+        ? `https://www.googleapis.com/upload/drive/v3/files/${existing.id}?uploadType=multipart&fields=${GoogleDriveBackend.FILE_FIELDS}`
+        : `https://www.googleapis.com/upload/drive/v3/files?uploadType=multipart&fields=${GoogleDriveBackend.FILE_FIELDS}`,
+      {
+        method: existing ? 'PATCH' : 'POST',
+        body: form,
+      }
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      console.error('Upload error:', errorData);
+      throw new Error(errorData.error?.message || `Google Drive upload failed: ${response.statusText}`);
+    }
+
+    const file: DriveFile = await response.json();
+    return file.version;
+  }
+
+  async list(): Promise<SyncFileInfo[]> {
+    const folderId = await this.getOrCreateFolder();
+    const query = encodeURIComponent(`'${folderId}' in parents and trashed=false`);
+    const response = await this.request(
+      `https://www.googleapis.com/drive/v3/files?q=${query}&fields=files(${GoogleDriveBackend.FILE_FIELDS})&pageSize=1000`
+    );
+
+    const result = await response.json();
+    return (result.files || []).map((file: DriveFile) => ({
+      name: file.name,
+      revision: file.version,
+      modifiedTime: file.modifiedTime ? new Date(file.modifiedTime) : null,
+      size: file.size ? parseInt(file.size) : undefined,
+    }));
+  }
+
+  async revision(name: string): Promise<string | null> {
+    const file = await this.findFile(name);
+    return file ? file.version : null;
+  }
+
+  async delete(name: string): Promise<void> {
+    const file = await this.findFile(name);
+    if (!file) return;
+
+    const response = await this.request(`https://www.googleapis.com/drive/v3/files/${file.id}`, { method: 'DELETE' });
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`Google Drive delete failed: ${response.statusText}`);
+    }
+  }
+}
@@ -1,4 +1,19 @@
-import { UserProgress, TestResult, FlashcardSession, TestSession } from '../types';
+import { UserProgress, TestResult, FlashcardSession, TestSession, ReviewEvent } from '../types';
+import {
+  StorageBackend,
+  StoreName,
+  StoreRecords,
+  StoreSnapshot,
+  STORE_NAMES,
+  TestResultQuery,
+  MemoryStorageBackend,
+  LocalStorageBackend,
+  IndexedDBStorageBackend
+} from './StorageBackend';
+import { DataSchema, UpgradeSummary } from './DataSchema';
+import { ReviewLog } from './ReviewLog';
+import { GameificationService } from './GameificationService';
+import { StreakService } from './StreakService';
 
 export class ProgressTracker {
   private static syncCallback: (() => void) | null = null;
@@ -7,114 +22,252 @@ export class ProgressTracker {
     this.syncCallback = callback;
   }
 
+  // SyncQueue coalesces these into one sync per burst of saves
   private static triggerSync(): void {
-    if (this.syncCallback) {
-      // Debounce sync calls to avoid too many API calls
-      setTimeout(() => {
-        this.syncCallback?.();
-      }, 1000);
-    }
+    this.syncCallback?.();
   }
-  private static readonly STORAGE_KEYS = {
-    USER_PROGRESS: 'wordplay-user-progress',
-    TEST_RESULTS: 'wordplay-test-results',
-    FLASHCARD_SESSIONS: 'wordplay-flashcard-sessions',
-    TEST_SESSIONS: 'wordplay-test-sessions'
+
+  private static blockedCallback: (() => void) | null = null;
+
+  // Called while another tab holds an older version of the database open
+  static setBlockedCallback(callback: (() => void) | null): void {
+    this.blockedCallback = callback;
+  }
+
+  // Set once IndexedDB has opened on this device, so a later failure to open
+  // it is an error rather than a reason to start over from localStorage
+  private static readonly STORAGE_MARKER_KEY = 'wordplay-storage';
+
+  private static backend: StorageBackend = new MemoryStorageBackend();
+  private static pendingWrites: Promise<void> = Promise.resolve();
+  private static loaded = false;
+
+  // Everything is read from this cache so the getters can stay synchronous;
+  // writes update it first and then go to the backend in order.
+  private static cache: { [S in StoreName]: StoreRecords[S][] } = {
+    userProgress: [],
+    testResults: [],
+    flashcardSessions: [],
+    testSessions: [],
+    reviewEvents: []
   };
 
+  /**
+   * Opens storage (IndexedDB where available, otherwise the original
+   * localStorage keys), moves any localStorage data into IndexedDB and loads
+   * the cache. Must finish before the app renders; if it rejects, the cache
+   * is empty and nothing should be shown or synced on top of it.
+   *
+   * localStorage is only a fallback on devices where IndexedDB has never
+   * worked. Once progress lives in IndexedDB, failing to open it rejects
+   * instead, since the localStorage keys are empty by then.
+   */
+  static async initialize(backend?: StorageBackend): Promise<void> {
+    this.loaded = false;
+
+    if (backend) {
+      await this.load(backend);
+    } else if (IndexedDBStorageBackend.isSupported()) {
+      const indexedDBBackend = new IndexedDBStorageBackend(() => this.blockedCallback?.());
+      try {
+        await this.migrateFromLocalStorage(indexedDBBackend);
+        await this.load(indexedDBBackend);
+        localStorage.setItem(this.STORAGE_MARKER_KEY, indexedDBBackend.name);
+      } catch (error) {
+        if (localStorage.getItem(this.STORAGE_MARKER_KEY) === indexedDBBackend.name) throw error;
+        console.error('IndexedDB unavailable, using localStorage:', error);
+        await this.load(new LocalStorageBackend());
+      }
+    } else {
+      await this.load(new LocalStorageBackend());
+    }
+
+    this.loaded = true;
+  }
+
+  // Read every store, and switch to the backend only once all of them loaded
+  private static async load(backend: StorageBackend): Promise<void> {
+    const cache = { ...this.cache };
+    for (const store of STORE_NAMES) {
+      (cache as any)[store] = await backend.getAll(store);
+    }
+    this.backend = backend;
+    this.cache = cache;
+  }
+
+  // False until initialize() has loaded the stored progress
+  static isLoaded(): boolean {
+    return this.loaded;
+  }
+
+  static getStorageName(): string {
+    return this.backend.name;
+  }
+
+  // Copies the legacy localStorage stores into IndexedDB in one transaction and
+  // removes the keys only once it has committed, so a failed migration leaves
+  // localStorage intact for the fallback backend and simply reruns next time
+  private static async migrateFromLocalStorage(target: StorageBackend): Promise<void> {
+    const stores = STORE_NAMES.filter(store => localStorage.getItem(LocalStorageBackend.STORAGE_KEYS[store]) !== null);
+    if (stores.length === 0) return;
+
+    const snapshot: StoreSnapshot = {};
+    stores.forEach(store => {
+      (snapshot as any)[store] = LocalStorageBackend.read(store);
+    });
+
+    await target.replaceStores(snapshot);
+    stores.forEach(store => localStorage.removeItem(LocalStorageBackend.STORAGE_KEYS[store]));
+  }
+
+  private static persist(write: (backend: StorageBackend) => Promise<void>): void {
+    const backend = this.backend;
+    this.pendingWrites = this.pendingWrites
+      .then(() => write(backend))
+      .catch(error => console.error('Error saving progress data:', error));
+  }
+
+  // Resolves once every write issued so far has reached storage
+  static whenSaved(): Promise<void> {
+    return this.pendingWrites;
+  }
+
+  private static copy<T>(records: T[]): T[] {
+    return records.map(record => ({ ...record }));
+  }
+
   static getUserProgress(): UserProgress[] {
-    const data = localStorage.getItem(this.STORAGE_KEYS.USER_PROGRESS);
-    return data ? JSON.parse(data).map((p: any) => ({
-      ...p,
-      nextReview: new Date(p.nextReview),
-      lastReviewed: new Date(p.lastReviewed)
-    })) : [];
+    return this.copy(this.cache.userProgress);
   }
 
   static saveUserProgress(progress: UserProgress[]): void {
-    localStorage.setItem(this.STORAGE_KEYS.USER_PROGRESS, JSON.stringify(progress));
+    const records = this.copy(progress);
+    this.cache.userProgress = records;
+    this.persist(backend => backend.replaceAll('userProgress', records));
     this.triggerSync();
   }
 
   static getProgressForWord(wordId: string): UserProgress | undefined {
-    const allProgress = this.getUserProgress();
-    return allProgress.find(p => p.wordId === wordId);
+    const progress = this.cache.userProgress.find(p => p.wordId === wordId);
+    return progress ? { ...progress } : undefined;
   }
 
   static updateWordProgress(wordProgress: UserProgress): void {
-    const allProgress = this.getUserProgress();
-    const existingIndex = allProgress.findIndex(p => p.wordId === wordProgress.wordId);
+    const record = { ...wordProgress };
+    const allProgress = [...this.cache.userProgress];
+    const existingIndex = allProgress.findIndex(p => p.wordId === record.wordId);
     
     if (existingIndex >= 0) {
-      allProgress[existingIndex] = wordProgress;
+      allProgress[existingIndex] = record;
     } else {
-      allProgress.push(wordProgress);
+      allProgress.push(record);
     }
     
-    this.saveUserProgress(allProgress);
+    this.cache.userProgress = allProgress;
+    this.persist(backend => backend.put('userProgress', [record]));
+    this.triggerSync();
   }
 
   static getTestResults(): TestResult[] {
-    const data = localStorage.getItem(this.STORAGE_KEYS.TEST_RESULTS);
-    return data ? JSON.parse(data).map((r: any) => ({
-      ...r,
-      timestamp: new Date(r.timestamp)
-    })) : [];
+    return this.copy(this.cache.testResults);
+  }
+
+  /**
+   * Indexed lookup of test results, e.g. one word's history or a date range,
+   * without copying the whole history.
+   */
+  static async queryTestResults(query: TestResultQuery): Promise<TestResult[]> {
+    await this.pendingWrites;
+    return this.backend.queryTestResults(query);
   }
 
   static saveTestResult(result: TestResult): void {
-    const results = this.getTestResults();
-    results.push(result);
-    localStorage.setItem(this.STORAGE_KEYS.TEST_RESULTS, JSON.stringify(results));
+    const record = { ...result };
+    this.cache.testResults = [...this.cache.testResults, record];
+    this.persist(backend => backend.put('testResults', [record]));
+    this.triggerSync();
+  }
+
+  static saveTestResults(results: TestResult[]): void {
+    const records = this.copy(results);
+    this.cache.testResults = records;
+    this.persist(backend => backend.replaceAll('testResults', records));
     this.triggerSync();
   }
 
   static getFlashcardSessions(): FlashcardSession[] {
-    const data = localStorage.getItem(this.STORAGE_KEYS.FLASHCARD_SESSIONS);
-    return data ? JSON.parse(data).map((s: any) => ({
-      ...s,
-      startTime: new Date(s.startTime),
-      endTime: s.endTime ? new Date(s.endTime) : undefined
-    })) : [];
+    return this.copy(this.cache.flashcardSessions);
   }
 
   static saveFlashcardSession(session: FlashcardSession): void {
-    const sessions = this.getFlashcardSessions();
-    const existingIndex = sessions.findIndex(s => s.id === session.id);
+    const record = { ...session };
+    const sessions = [...this.cache.flashcardSessions];
+    const existingIndex = sessions.findIndex(s => s.id === record.id);
 
     if (existingIndex >= 0) {
-      sessions[existingIndex] = session;
+      sessions[existingIndex] = record;
     } else {
-      sessions.push(session);
+      sessions.push(record);
     }
 
-    localStorage.setItem(this.STORAGE_KEYS.FLASHCARD_SESSIONS, JSON.stringify(sessions));
+    this.cache.flashcardSessions = sessions;
+    this.persist(backend => backend.put('flashcardSessions', [record]));
     this.triggerSync();
   }
 
   static getTestSessions(): TestSession[] {
-    const data = localStorage.getItem(this.STORAGE_KEYS.TEST_SESSIONS);
-    return data ? JSON.parse(data).map((s: any) => ({
-      ...s,
-      startTime: new Date(s.startTime),
-      endTime: s.endTime ? new Date(s.endTime) : undefined
-    })) : [];
+    return this.copy(this.cache.testSessions);
   }
 
   static saveTestSession(session: TestSession): void {
-    const sessions = this.getTestSessions();
-    const existingIndex = sessions.findIndex(s => s.id === session.id);
+    const record = { ...session };
+    const sessions = [...this.cache.testSessions];
+    const existingIndex = sessions.findIndex(s => s.id === record.id);
 
     if (existingIndex >= 0) {
-      sessions[existingIndex] = session;
+      sessions[existingIndex] = record;
     } else {
-      sessions.push(session);
+      sessions.push(record);
     }
 
-    localStorage.setItem(this.STORAGE_KEYS.TEST_SESSIONS, JSON.stringify(sessions));
+    this.cache.testSessions = sessions;
+    this.persist(backend => backend.put('testSessions', [record]));
     this.triggerSync();
   }
 
+  static getReviewEvents(): ReviewEvent[] {
+    return this.copy(this.cache.reviewEvents);
+  }
+
+  /**
+   * Append review log events. Events are immutable and identified by id, so
+   * ones already stored are skipped; returns the events that were new.
+   */
+  static addReviewEvents(events: ReviewEvent[]): ReviewEvent[] {
+    const known = new Set(this.cache.reviewEvents.map(e => e.id));
+    const added = events.filter(e => !known.has(e.id)).map(e => ({ ...e }));
+    if (added.length === 0) return [];
+
+    this.cache.reviewEvents = [...this.cache.reviewEvents, ...added];
+    this.persist(backend => backend.put('reviewEvents', added));
+    return added;
+  }
+
+  /**
+   * Store progress recomputed by sync. Unlike updateWordProgress this doesn't
+   * schedule another sync, since the change came from the sync itself.
+   */
+  static applySyncedProgress(records: UserProgress[]): void {
+    if (records.length === 0) return;
+
+    const byId = new Map(this.cache.userProgress.map(p => [p.wordId, p]));
+    const copies = this.copy(records);
+    copies.forEach(record => byId.set(record.wordId, record));
+
+    this.cache.userProgress = Array.from(byId.values());
+    this.persist(backend => backend.put('userProgress', copies));
+  }
+
   static getWeakWords(limit: number = 10): UserProgress[] {
     const allProgress = this.getUserProgress();
     return allProgress
@@ -141,7 +294,7 @@ export class ProgressTracker {
     
     const totalTimeSpent = testResults.reduce((sum, r) => sum + r.timeSpent, 0);
     
-    const streakData = this.calculateStreaks(testResults);
+    const streak = StreakService.getStreak();
     
     const masteredWords = progress.filter(p => p.masteryLevel >= masteryThreshold).length;
     
@@ -149,129 +302,92 @@ export class ProgressTracker {
       totalWordsStudied,
       averageAccuracy: Math.round(averageAccuracy * 100) / 100,
       totalTimeSpent,
-      currentStreak: streakData.currentStreak,
-      bestStreak: streakData.bestStreak,
+      currentStreak: streak.current,
+      bestStreak: streak.best,
       masteredWords
     };
   }
 
-  private static calculateStreaks(testResults: TestResult[]): { currentStreak: number; bestStreak: number } {
-    if (testResults.length === 0) {
-      return { currentStreak: 0, bestStreak: 0 };
-    }
+  static exportData(): string {
+    return JSON.stringify(DataSchema.stamp({
+      userProgress: this.getUserProgress(),
+      testResults: this.getTestResults(),
+      flashcardSessions: this.getFlashcardSessions(),
+      testSessions: this.getTestSessions(),
+      gamification: GameificationService.exportState(),
+      exportDate: new Date().toISOString()
+    }), null, 2);
+  }
 
-    // Group test results by date
-    const dailyResults = new Map<string, { correct: number; total: number }>();
-    
-    testResults.forEach(result => {
-      const dateStr = this.getDateString(result.timestamp);
-      const dayData = dailyResults.get(dateStr) || { correct: 0, total: 0 };
-      dayData.total++;
-      if (result.correct) dayData.correct++;
-      dailyResults.set(dateStr, dayData);
-    });
+  /**
+   * Upgrade, validate and store a backup or sync payload. Stores missing from
+   * the payload are left alone; the rest are replaced in one transaction, so a
+   * file that fails validation or storage leaves local data untouched.
+   * Gamification state, when present, replaces the local state afterwards.
+   * Throws DataSchemaError listing the bad fields.
+   */
+  static async importData(jsonData: string): Promise<UpgradeSummary> {
+    const { data, summary } = await DataSchema.parse(jsonData);
 
-    // Convert to sorted array of dates with success status
-    const dailyActivity = Array.from(dailyResults.entries())
-      .map(([date, data]) => ({
-        date,
-        hasActivity: data.total > 0,
-        accuracyMeetsThreshold: data.correct / data.total >= 0.6 // Consider a day successful if 60%+ accuracy
-      }))
-      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-
-    let bestStreak = 0;
-    let currentStreak = 0;
-    let tempStreak = 0;
-
-    // Calculate best streak
-    for (const day of dailyActivity) {
-      if (day.hasActivity && day.accuracyMeetsThreshold) {
-        tempStreak++;
-        bestStreak = Math.max(bestStreak, tempStreak);
-      } else if (day.hasActivity) {
-        tempStreak = 0;
-      }
-      // Don't break streak for days with no activity
-    }
+    const snapshot: StoreSnapshot = {};
+    STORE_NAMES.forEach(store => {
+      if (data[store]) (snapshot as any)[store] = data[store];
+    });
 
-    // Calculate current streak (from most recent day backwards)
-    const today = this.getDateString(new Date());
-    let currentDate = new Date();
-    
-    while (currentStreak === 0 || this.getDateString(currentDate) >= (dailyActivity[0]?.date || today)) {
-      const dateStr = this.getDateString(currentDate);
-      const dayData = dailyActivity.find(d => d.date === dateStr);
-      
-      if (dayData) {
-        if (dayData.hasActivity && dayData.accuracyMeetsThreshold) {
-          currentStreak++;
-        } else if (dayData.hasActivity) {
-          // Had activity but poor performance - break streak
-          break;
-        }
-        // No activity for this day - continue checking previous days
-      }
-      
-      // Move to previous day
-      currentDate.setDate(currentDate.getDate() - 1);
-      
-      // Prevent infinite loop
-      if (this.getDateString(currentDate) < (dailyActivity[0]?.date || today)) {
-        break;
-      }
+    await this.pendingWrites;
+    await this.backend.replaceStores(snapshot);
+    Object.assign(this.cache, snapshot);
+    ReviewLog.afterImport(snapshot);
+    if (data.gamification) {
+      GameificationService.importState(data.gamification);
     }
 
-    return { currentStreak, bestStreak };
+    return summary;
   }
 
-  private static getDateString(date: Date): string {
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const day = String(date.getDate()).padStart(2, '0');
-    return `${year}-${month}-${day}`;
-  }
+  /**
+   * Add the records of a sync payload that aren't stored yet, matched by
+   * `getKey`. The check runs against the cache once earlier writes have
+   * landed and only ever adds, so records saved while a sync is running are
+   * kept. Returns how many records were added.
+   */
+  static async mergeRecords(snapshot: StoreSnapshot, getKey: (record: any) => string): Promise<number> {
+    await this.pendingWrites;
 
-  static exportData(): string {
-    return JSON.stringify({
-      userProgress: this.getUserProgress(),
-      testResults: this.getTestResults(),
-      flashcardSessions: this.getFlashcardSessions(),
-      testSessions: this.getTestSessions(),
-      exportDate: new Date().toISOString()
-    }, null, 2);
-  }
+    const additions: StoreSnapshot = {};
+    let added = 0;
+    STORE_NAMES.forEach(store => {
+      if (!snapshot[store]) return;
+      const known = new Set<string>((this.cache[store] as any[]).map(getKey));
+      const records = (snapshot[store] as any[]).filter(record => {
+        const key = getKey(record);
+        if (known.has(key)) return false;
+        known.add(key);
+        return true;
+      });
+      if (records.length === 0) return;
+      (additions as any)[store] = records;
+      (this.cache as any)[store] = [...this.cache[store], ...records];
+      added += records.length;
+    });
 
-  static importData(jsonData: string): boolean {
-    try {
-      const data = JSON.parse(jsonData);
-      
-      if (data.userProgress) {
-        localStorage.setItem(this.STORAGE_KEYS.USER_PROGRESS, JSON.stringify(data.userProgress));
-      }
-      
-      if (data.testResults) {
-        localStorage.setItem(this.STORAGE_KEYS.TEST_RESULTS, JSON.stringify(data.testResults));
+    const backend = this.backend;
+    const write = this.pendingWrites.then(async () => {
+      for (const store of STORE_NAMES) {
+        if (additions[store]) await backend.put(store, additions[store] as any);
       }
-      
-      if (data.flashcardSessions) {
-        localStorage.setItem(this.STORAGE_KEYS.FLASHCARD_SESSIONS, JSON.stringify(data.flashcardSessions));
-      }
-      
-      if (data.testSessions) {
-        localStorage.setItem(this.STORAGE_KEYS.TEST_SESSIONS, JSON.stringify(data.testSessions));
-      }
-      
-      return true;
-    } catch (error) {
-      console.error('Error importing data:', error);
-      return false;
-    }
+    });
+    this.pendingWrites = write.catch(error => console.error('Error saving progress data:', error));
+    await write;
+
+    return added;
   }
 
   static clearAllData(): void {
-    Object.values(this.STORAGE_KEYS).forEach(key => {
-      localStorage.removeItem(key);
+    STORE_NAMES.forEach(store => {
+      (this.cache as any)[store] = [];
+      this.persist(backend => backend.clear(store));
+      localStorage.removeItem(LocalStorageBackend.STORAGE_KEYS[store]);
     });
   }
-}
\ No newline at end of file
+}
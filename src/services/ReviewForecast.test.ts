@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { UserProgress } from '../types';
+import { ReviewForecast, ReviewFunction } from './ReviewForecast';
+
+const NOW = new Date(2026, 0, 1, 9, 0); // 1 January 2026, 09:00 local time
+
+const atDay = (day: number): Date => new Date(2026, 0, 1 + day, 9, 0);
+
+const makeProgress = (wordId: string, nextReview: Date, interval = 1): UserProgress => ({
+  wordId,
+  easeFactor: 2.5,
+  repetitions: 0,
+  interval,
+  nextReview,
+  totalSeen: 0,
+  correctCount: 0,
+  accuracy: 0,
+  lastReviewed: NOW,
+  masteryLevel: 0
+});
+
+// Every review keeps the card's interval unchanged
+const fixedInterval: ReviewFunction = (progress, _quality, reviewedAt) => {
+  const nextReview = new Date(reviewedAt);
+  nextReview.setDate(nextReview.getDate() + progress.interval);
+  return { ...progress, nextReview, lastReviewed: reviewedAt };
+};
+
+const reviewDays = (forecast: { reviews: number }[]) =>
+  forecast.flatMap((day, index) => (day.reviews > 0 ? [index] : []));
+
+describe('ReviewForecast.forecast', () => {
+  it('replays each card through the review function', () => {
+    const forecast = ReviewForecast.forecast([makeProgress('a', NOW, 7)], {
+      days: 30,
+      review: fixedInterval,
+      now: NOW
+    });
+
+    expect(forecast).toHaveLength(30);
+    expect(forecast[0].date).toBe('2026-01-01');
+    expect(reviewDays(forecast)).toEqual([0, 7, 14, 21, 28]);
+  });
+
+  it('passes the assumed grade to every review', () => {
+    const grades: number[] = [];
+    ReviewForecast.forecast([makeProgress('a', NOW, 10)], {
+      days: 30,
+      assumedQuality: 2,
+      review: (progress, quality, reviewedAt) => {
+        grades.push(quality);
+        return fixedInterval(progress, quality, reviewedAt);
+      },
+      now: NOW
+    });
+
+    expect(grades).toEqual([2, 2, 2]);
+  });
+
+  it('puts overdue cards on today', () => {
+    const progress = [makeProgress('a', atDay(-5), 40), makeProgress('b', atDay(3), 40)];
+    const forecast = ReviewForecast.forecast(progress, { days: 10, review: fixedInterval, now: NOW });
+
+    expect(forecast[0].reviews).toBe(1);
+    expect(forecast[3].reviews).toBe(1);
+    expect(ReviewForecast.summarize(forecast, progress, NOW).overdue).toBe(1);
+  });
+
+  it('moves forward at least a day when a review schedules the card for the same day', () => {
+    const sameDay: ReviewFunction = (progress, _quality, reviewedAt) => ({ ...progress, nextReview: reviewedAt });
+    const forecast = ReviewForecast.forecast([makeProgress('a', NOW)], { days: 5, review: sameDay, now: NOW });
+
+    expect(forecast.map(day => day.reviews)).toEqual([1, 1, 1, 1, 1]);
+  });
+
+  it('introduces simulated new cards until the available ones run out', () => {
+    const forecast = ReviewForecast.forecast([], {
+      days: 6,
+      newCardsPerDay: 2,
+      availableNewCards: 3,
+      review: fixedInterval,
+      newCard: makeProgress('forecast', NOW, 2),
+      now: NOW
+    });
+
+    expect(forecast.map(day => day.newCards)).toEqual([2, 1, 0, 0, 0, 0]);
+    // Day 0 cards come back on days 2 and 4, the day 1 card on days 3 and 5
+    expect(forecast.map(day => day.newCardReviews)).toEqual([2, 1, 2, 1, 2, 1]);
+    expect(forecast.map(day => day.total)).toEqual([2, 1, 2, 1, 2, 1]);
+  });
+
+  it('adds no new cards without a starting record', () => {
+    const forecast = ReviewForecast.forecast([], { days: 5, newCardsPerDay: 10, review: fixedInterval, now: NOW });
+    expect(forecast.every(day => day.total === 0 && day.newCards === 0)).toBe(true);
+  });
+});
+
+describe('ReviewForecast.summarize', () => {
+  it('totals the forecast and finds the busiest day', () => {
+    const forecast = ReviewForecast.forecast(
+      [makeProgress('a', NOW, 2), makeProgress('b', NOW, 3)],
+      { days: 6, review: fixedInterval, now: NOW }
+    );
+    const summary = ReviewForecast.summarize(forecast, [], NOW);
+
+    expect(summary.totalReviews).toBe(5);
+    expect(summary.averagePerDay).toBe(0.8);
+    expect(summary.peakDay?.date).toBe('2026-01-01');
+    expect(summary.peakDay?.total).toBe(2);
+  });
+
+  it('handles an empty forecast', () => {
+    expect(ReviewForecast.summarize([])).toEqual({ totalReviews: 0, averagePerDay: 0, peakDay: null, overdue: 0 });
+  });
+});
+
+describe('ReviewForecast.getMonthCalendar', () => {
+  it('lays the month out in Sunday-first weeks with relative intensity', () => {
+    const forecast = ReviewForecast.forecast(
+      [makeProgress('a', NOW, 30), makeProgress('b', NOW, 30), makeProgress('c', atDay(1), 30)],
+      { days: 30, review: fixedInterval, now: NOW }
+    );
+    // January 2026 starts on a Thursday
+    const weeks = ReviewForecast.getMonthCalendar(forecast, 2026, 0);
+
+    expect(weeks).toHaveLength(5);
+    expect(weeks.every(week => week.length === 7)).toBe(true);
+    expect(weeks[0][0]).toMatchObject({ date: '2025-12-28', inMonth: false, total: 0, intensity: 0 });
+    expect(weeks[0][4]).toMatchObject({ date: '2026-01-01', dayOfMonth: 1, inMonth: true, total: 2, intensity: 4 });
+    expect(weeks[0][5]).toMatchObject({ date: '2026-01-02', total: 1, intensity: 2 });
+  });
+});
@@ -0,0 +1,194 @@
+import { UserProgress, Quality } from '../types';
+
+// Grades one review of a card, as a scheduler would (e.g. SchedulerService.updateUserProgress)
+export type ReviewFunction = (progress: UserProgress, quality: Quality, reviewedAt: Date) => UserProgress;
+
+export interface ForecastDay {
+  date: string; // YYYY-MM-DD, local time
+  reviews: number; // reviews of cards already in the collection
+  newCardReviews: number; // reviews generated by simulated new cards
+  newCards: number; // new cards introduced on this day
+  total: number;
+}
+
+export interface ForecastOptions {
+  days: number;
+  newCardsPerDay?: number;
+  availableNewCards?: number; // stop introducing cards once these run out
+  review: ReviewFunction;
+  newCard?: UserProgress; // starting record of a simulated new card; none are added without it
+  assumedQuality?: Quality; // grade assumed for every future review
+  now?: Date;
+}
+
+export interface ForecastSummary {
+  totalReviews: number;
+  averagePerDay: number;
+  peakDay: ForecastDay | null;
+  overdue: number;
+}
+
+export interface CalendarCell {
+  date: string;
+  dayOfMonth: number;
+  inMonth: boolean;
+  total: number;
+  intensity: 0 | 1 | 2 | 3 | 4;
+}
+
+/**
+ * ReviewForecast - Projects future review load from the current schedule
+ *
+ * Every card is replayed through its own scheduler, assuming each future review
+ * is answered with the same grade, to count how many reviews land on each day.
+ * Pure functions over UserProgress and the given review function, so it runs
+ * without storage or React.
+ */
+export class ReviewForecast {
+  private static readonly DAY_MS = 1000 * 60 * 60 * 24;
+
+  static getDateString(date: Date): string {
+    const year = date.getFullYear();
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${year}-${month}-${day}`;
+  }
+
+  private static startOfDay(date: Date): Date {
+    const start = new Date(date);
+    start.setHours(0, 0, 0, 0);
+    return start;
+  }
+
+  private static dayIndex(date: Date, today: Date): number {
+    return Math.round((this.startOfDay(date).getTime() - today.getTime()) / this.DAY_MS);
+  }
+
+  private static addDays(date: Date, days: number): Date {
+    const result = new Date(date);
+    result.setDate(result.getDate() + days);
+    return result;
+  }
+
+  // Walk one card forward through its scheduler and return the day index of each review
+  private static projectReviews(
+    progress: UserProgress,
+    firstDay: number,
+    days: number,
+    today: Date,
+    quality: Quality,
+    review: ReviewFunction
+  ): number[] {
+    const reviewDays: number[] = [];
+    let current = progress;
+    let day = firstDay;
+
+    while (day < days) {
+      reviewDays.push(day);
+      const reviewedAt = this.addDays(today, day);
+      current = review(current, quality, reviewedAt);
+      // Always move forward at least one day so a lapse can't loop forever
+      day = Math.max(day + 1, this.dayIndex(current.nextReview, today));
+    }
+
+    return reviewDays;
+  }
+
+  static forecast(allProgress: UserProgress[], options: ForecastOptions): ForecastDay[] {
+    const {
+      days,
+      newCardsPerDay = 0,
+      availableNewCards = Infinity,
+      review,
+      newCard,
+      assumedQuality = 4,
+      now = new Date()
+    } = options;
+    const today = this.startOfDay(now);
+
+    const forecast: ForecastDay[] = Array.from({ length: days }, (_, i) => ({
+      date: this.getDateString(this.addDays(today, i)),
+      reviews: 0,
+      newCardReviews: 0,
+      newCards: 0,
+      total: 0
+    }));
+
+    allProgress.forEach(progress => {
+      // Overdue cards pile onto today
+      const firstDay = Math.max(0, this.dayIndex(new Date(progress.nextReview), today));
+      this.projectReviews(progress, firstDay, days, today, assumedQuality, review)
+        .forEach(day => forecast[day].reviews++);
+    });
+
+    if (newCardsPerDay > 0 && newCard) {
+      let remaining = availableNewCards;
+
+      for (let day = 0; day < days && remaining > 0; day++) {
+        const introduced = Math.min(newCardsPerDay, remaining);
+        remaining -= introduced;
+        forecast[day].newCards = introduced;
+
+        // Every new card introduced on the same day follows the same path
+        this.projectReviews(newCard, day, days, today, assumedQuality, review)
+          .forEach(reviewDay => {
+            forecast[reviewDay].newCardReviews += introduced;
+          });
+      }
+    }
+
+    forecast.forEach(entry => {
+      entry.total = entry.reviews + entry.newCardReviews;
+    });
+
+    return forecast;
+  }
+
+  static summarize(forecast: ForecastDay[], allProgress: UserProgress[] = [], now: Date = new Date()): ForecastSummary {
+    const totalReviews = forecast.reduce((sum, day) => sum + day.total, 0);
+    const peakDay = forecast.reduce<ForecastDay | null>(
+      (peak, day) => (!peak || day.total > peak.total ? day : peak),
+      null
+    );
+    const today = this.startOfDay(now);
+    const overdue = allProgress.filter(p => new Date(p.nextReview).getTime() < today.getTime()).length;
+
+    return {
+      totalReviews,
+      averagePerDay: forecast.length > 0 ? Math.round((totalReviews / forecast.length) * 10) / 10 : 0,
+      peakDay,
+      overdue
+    };
+  }
+
+  /**
+   * Lay a forecast out as a month calendar (weeks starting on Sunday).
+   * Days outside the forecast window have a total of 0.
+   */
+  static getMonthCalendar(forecast: ForecastDay[], year: number, month: number): CalendarCell[][] {
+    const totals = new Map(forecast.map(day => [day.date, day.total]));
+    const maxTotal = Math.max(1, ...forecast.map(day => day.total));
+
+    const firstOfMonth = new Date(year, month, 1);
+    const gridStart = this.addDays(firstOfMonth, -firstOfMonth.getDay());
+    const lastOfMonth = new Date(year, month + 1, 0);
+    const weekCount = Math.ceil((firstOfMonth.getDay() + lastOfMonth.getDate()) / 7);
+
+    return Array.from({ length: weekCount }, (_, week) =>
+      Array.from({ length: 7 }, (_, weekday) => {
+        const date = this.addDays(gridStart, week * 7 + weekday);
+        const dateString = this.getDateString(date);
+        const total = totals.get(dateString) || 0;
+        const intensity = total === 0 ? 0 : Math.min(4, Math.ceil((total / maxTotal) * 4));
+
+        return {
+          date: dateString,
+          dayOfMonth: date.getDate(),
+          inMonth: date.getMonth() === month,
+          total,
+          intensity: intensity as CalendarCell['intensity']
+        };
+      })
+    );
+  }
+}
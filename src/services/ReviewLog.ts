@@ -0,0 +1,247 @@
+import { Quality, ReviewEvent, SchedulerType, SyncConflict, UserProgress } from '../types';
+import { ProgressTracker } from './ProgressTracker';
+import { SchedulerService } from './Scheduler';
+import { StoreSnapshot } from './StorageBackend';
+
+interface ReviewLogState {
+  clock: number; // highest Lamport clock seen or issued
+  seq: number; // last sequence number issued by this device
+  baselineCaptured: boolean;
+}
+
+export interface ReplayResult {
+  progress: UserProgress[];
+  conflicts: SyncConflict[];
+}
+
+/**
+ * ReviewLog - Append-only history of reviews, shared between devices
+ *
+ * Every review is stored as an event stamped with the device ID and a Lamport
+ * clock. Sync only exchanges events, and a word's progress is rebuilt by
+ * replaying its events through the scheduler in (clock, timestamp, device,
+ * seq) order, so every device arrives at the same result no matter in which
+ * order the events reached it.
+ *
+ * Progress that predates the log is captured once per device as clock-0 'set'
+ * events. When two devices bring different starting states for the same word
+ * that is reported as a conflict until someone resolves it with a later 'set'.
+ */
+export class ReviewLog {
+  private static readonly STATE_KEY = 'wordplay-review-log';
+  private static readonly DEVICE_ID_KEY = 'wordplay-device-id';
+
+  static getDeviceId(): string {
+    let deviceId = localStorage.getItem(this.DEVICE_ID_KEY);
+    if (!deviceId) {
+      deviceId = `device-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+      localStorage.setItem(this.DEVICE_ID_KEY, deviceId);
+    }
+    return deviceId;
+  }
+
+  private static getState(): ReviewLogState {
+    const stored = localStorage.getItem(this.STATE_KEY);
+    return stored ? JSON.parse(stored) : { clock: 0, seq: 0, baselineCaptured: false };
+  }
+
+  private static saveState(state: ReviewLogState): void {
+    localStorage.setItem(this.STATE_KEY, JSON.stringify(state));
+  }
+
+  /**
+   * Capture current progress as this device's starting point. Runs once, and
+   * only after word IDs have been migrated (DataManager.loadWords).
+   */
+  static ensureBaseline(): void {
+    const state = this.getState();
+    if (state.baselineCaptured) return;
+
+    const deviceId = this.getDeviceId();
+    const events: ReviewEvent[] = ProgressTracker.getUserProgress().map(progress => {
+      state.seq++;
+      return {
+        id: `${deviceId}:${state.seq}`,
+        deviceId,
+        seq: state.seq,
+        clock: 0,
+        type: 'set',
+        wordId: progress.wordId,
+        timestamp: new Date(progress.lastReviewed),
+        progress
+      };
+    });
+
+    ProgressTracker.addReviewEvents(events);
+    this.saveState({ ...state, baselineCaptured: true });
+  }
+
+  private static append(entries: Pick<ReviewEvent, 'type' | 'wordId' | 'timestamp' | 'quality' | 'scheduler' | 'maxInterval' | 'progress'>[]): ReviewEvent[] {
+    this.ensureBaseline();
+
+    const state = this.getState();
+    const deviceId = this.getDeviceId();
+    const events = entries.map(entry => {
+      state.seq++;
+      state.clock++;
+      return { ...entry, id: `${deviceId}:${state.seq}`, deviceId, seq: state.seq, clock: state.clock };
+    });
+
+    this.saveState(state);
+    return ProgressTracker.addReviewEvents(events);
+  }
+
+  static recordReview(wordId: string, quality: Quality, scheduler: SchedulerType, timestamp: Date, maxInterval?: number): void {
+    this.append([{ type: 'review', wordId, timestamp, quality, scheduler, ...(maxInterval ? { maxInterval } : {}) }]);
+  }
+
+  // Record progress that replaces the history so far (resets, conflict resolutions, restores)
+  static recordSet(records: UserProgress[]): void {
+    const timestamp = new Date();
+    this.append(records.map(progress => ({ type: 'set', wordId: progress.wordId, timestamp, progress })));
+  }
+
+  /**
+   * Replace progress for some words everywhere: stores it locally and records
+   * 'set' events so other devices pick it up on their next sync.
+   */
+  static setProgress(records: UserProgress[]): void {
+    if (records.length === 0) return;
+
+    this.recordSet(records);
+    const byId = new Map(ProgressTracker.getUserProgress().map(p => [p.wordId, p]));
+    records.forEach(record => byId.set(record.wordId, record));
+    ProgressTracker.saveUserProgress(Array.from(byId.values()));
+  }
+
+  // Keep the log consistent with data restored by ProgressTracker.importData
+  static afterImport(snapshot: StoreSnapshot): void {
+    if (snapshot.reviewEvents) {
+      const state = this.getState();
+      const deviceId = this.getDeviceId();
+      snapshot.reviewEvents.forEach(event => {
+        state.clock = Math.max(state.clock, event.clock);
+        if (event.deviceId === deviceId) state.seq = Math.max(state.seq, event.seq);
+      });
+      this.saveState({ ...state, baselineCaptured: true });
+    } else if (snapshot.userProgress) {
+      // A backup or download without a log: its progress becomes the new state
+      this.recordSet(snapshot.userProgress);
+    }
+  }
+
+  static getOwnEvents(): ReviewEvent[] {
+    const deviceId = this.getDeviceId();
+    return ProgressTracker.getReviewEvents().filter(event => event.deviceId === deviceId);
+  }
+
+  /**
+   * Add events from other devices. Returns how many were new and the IDs of
+   * words whose history changed and therefore need replaying.
+   */
+  static receive(events: ReviewEvent[]): { events: number; wordIds: string[] } {
+    const added = ProgressTracker.addReviewEvents(events);
+    if (added.length === 0) return { events: 0, wordIds: [] };
+
+    // Lamport clock: anything recorded from now on sorts after what we've seen
+    const state = this.getState();
+    state.clock = Math.max(state.clock, ...added.map(event => event.clock));
+    this.saveState(state);
+
+    return { events: added.length, wordIds: [...new Set(added.map(event => event.wordId))] };
+  }
+
+  private static compare(a: ReviewEvent, b: ReviewEvent): number {
+    return a.clock - b.clock ||
+      new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime() ||
+      a.deviceId.localeCompare(b.deviceId) ||
+      a.seq - b.seq;
+  }
+
+  private static fold(wordId: string, events: ReviewEvent[], start: UserProgress | null = null): UserProgress | null {
+    return events.reduce<UserProgress | null>((progress, event) => {
+      if (event.type === 'set') {
+        return event.progress ? { ...event.progress, wordId } : progress;
+      }
+
+      const scheduler = event.scheduler || 'sm2';
+      const start = progress || SchedulerService.initializeUserProgress(wordId, scheduler);
+      return SchedulerService.updateUserProgress(start, event.quality as Quality, scheduler, new Date(event.timestamp), event.maxInterval);
+    }, start);
+  }
+
+  private static hasSignificantDifference(a: UserProgress, b: UserProgress): boolean {
+    return a.repetitions !== b.repetitions ||
+      a.masteryLevel !== b.masteryLevel ||
+      a.correctCount !== b.correctCount;
+  }
+
+  // Recompute progress for the given words from their full event history
+  static replay(wordIds: string[]): ReplayResult {
+    const result: ReplayResult = { progress: [], conflicts: [] };
+    if (wordIds.length === 0) return result;
+
+    const wanted = new Set(wordIds);
+    const eventsByWord = new Map<string, ReviewEvent[]>();
+    ProgressTracker.getReviewEvents().forEach(event => {
+      if (!wanted.has(event.wordId)) return;
+      const list = eventsByWord.get(event.wordId) || [];
+      list.push(event);
+      eventsByWord.set(event.wordId, list);
+    });
+
+    eventsByWord.forEach((events, wordId) => {
+      events.sort((a, b) => this.compare(a, b));
+
+      const progress = this.fold(wordId, events);
+      if (progress) result.progress.push(progress);
+
+      const competing = this.getCompetingBaselines(events);
+      if (competing && this.hasSignificantDifference(competing.own, competing.other)) {
+        result.conflicts.push({
+          wordId,
+          localData: this.fold(wordId, competing.later, competing.own)!,
+          remoteData: this.fold(wordId, competing.later, competing.other)!,
+          conflictType: 'both-modified'
+        });
+      }
+    });
+
+    return result;
+  }
+
+  // A word's events, oldest first
+  private static getWordEvents(wordId: string): ReviewEvent[] {
+    return ProgressTracker.getReviewEvents()
+      .filter(event => event.wordId === wordId)
+      .sort((a, b) => this.compare(a, b));
+  }
+
+  // Competing starting states are a conflict until a later 'set' settles them
+  private static getCompetingBaselines(sortedEvents: ReviewEvent[]): { own: UserProgress; other: UserProgress; later: ReviewEvent[] } | null {
+    const deviceId = this.getDeviceId();
+    const baselines = sortedEvents.filter(event => event.clock === 0 && event.type === 'set');
+    const settled = sortedEvents.some(event => event.clock > 0 && event.type === 'set');
+    const own = baselines.find(event => event.deviceId === deviceId);
+    const other = baselines.filter(event => event.deviceId !== deviceId).pop();
+
+    if (settled || !own?.progress || !other?.progress) return null;
+    return { own: own.progress, other: other.progress, later: sortedEvents.filter(event => event.clock > 0) };
+  }
+
+  /**
+   * Progress for a conflicted word with its two starting states combined by
+   * `merge`, followed by every review since - so reviews made after the
+   * conflict arose are counted once. Null when the word has no open conflict.
+   */
+  static rebuildFromBaselines(wordId: string, merge: (own: UserProgress, other: UserProgress) => UserProgress): UserProgress | null {
+    const competing = this.getCompetingBaselines(this.getWordEvents(wordId));
+    if (!competing) return null;
+    return this.fold(wordId, competing.later, merge(competing.own, competing.other));
+  }
+
+  // True once a 'set' after the starting states has decided the word's progress
+  static isSettled(wordId: string): boolean {
+    return ProgressTracker.getReviewEvents().some(event => event.wordId === wordId && event.clock > 0 && event.type === 'set');
+  }
+}
@@ -3,7 +3,8 @@ import { UserProgress, Quality, SM2Result } from '../types';
 export class SM2Algorithm {
   static calculateNextReview(
     userProgress: UserProgress,
-    quality: Quality
+    quality: Quality,
+    now: Date = new Date()
   ): SM2Result {
     let { easeFactor, repetitions, interval } = userProgress;
 
@@ -26,7 +27,7 @@ export class SM2Algorithm {
       easeFactor = 1.3;
     }
 
-    const nextReview = new Date();
+    const nextReview = new Date(now);
     nextReview.setDate(nextReview.getDate() + interval);
 
     return {
@@ -48,15 +49,17 @@ export class SM2Algorithm {
       correctCount: 0,
       accuracy: 0,
       lastReviewed: new Date(),
-      masteryLevel: 0
+      masteryLevel: 0,
+      scheduler: 'sm2'
     };
   }
 
   static updateUserProgress(
     userProgress: UserProgress,
-    quality: Quality
+    quality: Quality,
+    now: Date = new Date()
   ): UserProgress {
-    const sm2Result = this.calculateNextReview(userProgress, quality);
+    const sm2Result = this.calculateNextReview(userProgress, quality, now);
     const totalSeen = userProgress.totalSeen + 1;
     const correctCount = quality >= 3 ? userProgress.correctCount + 1 : userProgress.correctCount;
     const accuracy = correctCount / totalSeen;
@@ -69,8 +72,30 @@ export class SM2Algorithm {
       totalSeen,
       correctCount,
       accuracy,
-      lastReviewed: new Date(),
-      masteryLevel
+      lastReviewed: now,
+      masteryLevel,
+      scheduler: 'sm2'
+    };
+  }
+
+  // Convert a record produced by another scheduler (FSRS) into SM-2 terms.
+  // The due date is kept so switching schedulers doesn't reshuffle the review pile.
+  static migrateUserProgress(userProgress: UserProgress): UserProgress {
+    if ((userProgress.scheduler || 'sm2') === 'sm2') {
+      return userProgress;
+    }
+
+    const difficulty = userProgress.difficulty ?? 5;
+    const easeFactor = Math.max(1.3, Math.min(3.0, 3.0 - (difficulty - 1) * (1.7 / 9)));
+    const interval = userProgress.stability !== undefined
+      ? Math.max(1, Math.round(userProgress.stability))
+      : userProgress.interval;
+
+    return {
+      ...userProgress,
+      easeFactor: Math.round(easeFactor * 100) / 100,
+      interval,
+      scheduler: 'sm2'
     };
   }
 
@@ -0,0 +1,112 @@
+import { UserProgress, Quality, SchedulerType } from '../types';
+import { SM2Algorithm } from './SRS';
+import { FSRSAlgorithm } from './FSRS';
+import { ProgressTracker } from './ProgressTracker';
+import { ReviewLog } from './ReviewLog';
+
+export interface Scheduler {
+  initializeUserProgress(wordId: string): UserProgress;
+  updateUserProgress(userProgress: UserProgress, quality: Quality, now?: Date): UserProgress;
+  migrateUserProgress(userProgress: UserProgress): UserProgress;
+}
+
+export interface SchedulerOption {
+  id: SchedulerType;
+  name: string;
+  description: string;
+}
+
+export class SchedulerService {
+  private static readonly STORAGE_KEY = 'wordplay-scheduler';
+
+  private static readonly SCHEDULERS: Record<SchedulerType, Scheduler> = {
+    sm2: SM2Algorithm,
+    fsrs: FSRSAlgorithm
+  };
+
+  static readonly OPTIONS: SchedulerOption[] = [
+    { id: 'sm2', name: 'SM-2 (Classic)', description: 'Fixed ease multiplier per word, the original SuperMemo algorithm' },
+    { id: 'fsrs', name: 'FSRS (Memory Model)', description: 'Tracks stability and difficulty per word to spread reviews out and reduce daily load' }
+  ];
+
+  static getActiveSchedulerType(): SchedulerType {
+    const stored = localStorage.getItem(this.STORAGE_KEY);
+    return stored === 'fsrs' ? 'fsrs' : 'sm2';
+  }
+
+  static getScheduler(type: SchedulerType = this.getActiveSchedulerType()): Scheduler {
+    return this.SCHEDULERS[type];
+  }
+
+  /**
+   * Switch the active scheduler and convert every stored record to it.
+   * Returns the number of records that were migrated.
+   */
+  static setActiveSchedulerType(type: SchedulerType): number {
+    localStorage.setItem(this.STORAGE_KEY, type);
+
+    const scheduler = this.getScheduler(type);
+    const allProgress = ProgressTracker.getUserProgress();
+    let migrated = 0;
+
+    const updatedProgress = allProgress.map(progress => {
+      if ((progress.scheduler || 'sm2') === type) return progress;
+      migrated++;
+      return scheduler.migrateUserProgress(progress);
+    });
+
+    if (migrated > 0) {
+      ProgressTracker.saveUserProgress(updatedProgress);
+    }
+
+    return migrated;
+  }
+
+  static initializeUserProgress(wordId: string, type?: SchedulerType): UserProgress {
+    return this.getScheduler(type).initializeUserProgress(wordId);
+  }
+
+  static updateUserProgress(
+    userProgress: UserProgress,
+    quality: Quality,
+    type?: SchedulerType,
+    now: Date = new Date(),
+    maxInterval?: number
+  ): UserProgress {
+    const scheduler = this.getScheduler(type);
+    // Records written by another scheduler (e.g. synced from another device) are converted first
+    const updated = scheduler.updateUserProgress(scheduler.migrateUserProgress(userProgress), quality, now);
+    return maxInterval ? this.capInterval(updated, maxInterval, now) : updated;
+  }
+
+  // A deck's interval cap only brings the next review forward; the algorithm's
+  // own state (ease, stability, difficulty) is left as it is, so the word's
+  // record stays valid in every deck it belongs to
+  private static capInterval(progress: UserProgress, maxInterval: number, now: Date): UserProgress {
+    if (progress.interval <= maxInterval) return progress;
+    const nextReview = new Date(now);
+    nextReview.setDate(nextReview.getDate() + maxInterval);
+    return { ...progress, interval: maxInterval, nextReview };
+  }
+
+  // Load, grade and persist a single word's progress, and log the review for sync.
+  // `maxInterval` is the interval cap of the deck the word was studied in.
+  static reviewWord(wordId: string, quality: Quality, maxInterval?: number): UserProgress {
+    const type = this.getActiveSchedulerType();
+    const now = new Date();
+    const userProgress = ProgressTracker.getProgressForWord(wordId) || this.initializeUserProgress(wordId, type);
+    const updatedProgress = this.updateUserProgress(userProgress, quality, type, now, maxInterval);
+    // Logged first: the log's starting state must not already include this review
+    ReviewLog.recordReview(wordId, quality, type, now, maxInterval);
+    ProgressTracker.updateWordProgress(updatedProgress);
+    return updatedProgress;
+  }
+
+  static getDueWords(allProgress: UserProgress[]): UserProgress[] {
+    return SM2Algorithm.getDueWords(allProgress);
+  }
+
+  static getNewWords(allProgress: UserProgress[], allWordIds: string[], limit?: number): string[] {
+    return SM2Algorithm.getNewWords(allProgress, allWordIds, limit);
+  }
+}
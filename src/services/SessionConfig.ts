@@ -0,0 +1,76 @@
+import { TestResult } from '../types';
+
+export type FlashcardSessionType = 'due' | 'new' | 'weak' | 'random';
+export type ConfigurableTestType = Exclude<TestResult['testType'], 'flashcard'>;
+
+// Everything a practice mode can ask of a flashcard session or a test
+export interface SessionParams {
+  sessionType?: FlashcardSessionType;
+  maxCards?: number;
+  timeLimit?: number; // seconds; flashcards end when it runs out
+  streakMode?: boolean; // flashcards end on the first miss
+  testType?: ConfigurableTestType;
+  questionCount?: number;
+}
+
+export interface QuickPracticeMode {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  type: 'flashcard' | 'test';
+  params: SessionParams;
+}
+
+/**
+ * SessionConfig - Session parameters carried in the URL
+ *
+ * Practice modes link to the ordinary flashcard and test routes with their
+ * params in the query string (e.g. `/flashcards/random?maxCards=25&streakMode=1`),
+ * so a configured session can be reloaded or bookmarked. Route wrappers read
+ * them back and pass them on as props; values that don't parse are dropped
+ * and the Settings defaults apply.
+ */
+export class SessionConfig {
+  static getPath(mode: QuickPracticeMode): string {
+    const { sessionType, testType, ...params } = mode.params;
+    const path = mode.type === 'test'
+      ? `/tests/${testType || 'match'}`
+      : `/flashcards/${sessionType || 'random'}`;
+    return path + this.toSearch(params);
+  }
+
+  static toSearch(params: SessionParams): string {
+    const search = new URLSearchParams();
+    if (params.maxCards) search.set('maxCards', String(params.maxCards));
+    if (params.timeLimit) search.set('timeLimit', String(params.timeLimit));
+    if (params.streakMode) search.set('streakMode', '1');
+    if (params.questionCount) search.set('questionCount', String(params.questionCount));
+    const query = search.toString();
+    return query ? `?${query}` : '';
+  }
+
+  static readFlashcardParams(search: URLSearchParams): Pick<SessionParams, 'maxCards' | 'timeLimit' | 'streakMode'> {
+    const params: Pick<SessionParams, 'maxCards' | 'timeLimit' | 'streakMode'> = {};
+    const maxCards = this.readCount(search, 'maxCards');
+    const timeLimit = this.readCount(search, 'timeLimit');
+    if (maxCards) params.maxCards = maxCards;
+    if (timeLimit) params.timeLimit = timeLimit;
+    if (search.get('streakMode') === '1') params.streakMode = true;
+    return params;
+  }
+
+  static readTestParams(search: URLSearchParams): Pick<SessionParams, 'questionCount' | 'timeLimit'> {
+    const params: Pick<SessionParams, 'questionCount' | 'timeLimit'> = {};
+    const questionCount = this.readCount(search, 'questionCount');
+    const timeLimit = this.readCount(search, 'timeLimit');
+    if (questionCount) params.questionCount = questionCount;
+    if (timeLimit) params.timeLimit = timeLimit;
+    return params;
+  }
+
+  private static readCount(search: URLSearchParams, name: string): number | undefined {
+    const value = Number(search.get(name));
+    return Number.isInteger(value) && value > 0 ? value : undefined;
+  }
+}
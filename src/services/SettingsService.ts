@@ -0,0 +1,131 @@
+export interface UserSettings {
+  flashcardSettings: {
+    maxCardsPerSession: number;
+    showMeaningFirst: boolean;
+    autoRevealTime: number; // seconds before the answer is shown, 0 = manual
+    autoAdvanceTime: number; // seconds the answer stays up before the next card, 0 = manual
+    practiceMode: 'spaced' | 'random' | 'sequential';
+    answerMode: 'self-rate' | 'typed'; // typed: type the answer and get a suggested rating
+  };
+  testSettings: {
+    defaultTimeLimit: number; // minutes
+    questionCount: number;
+    showHints: boolean;
+    immediateSpanback: boolean;
+  };
+  appearanceSettings: {
+    fontSize: 'small' | 'medium' | 'large';
+    theme: 'light' | 'dark' | 'high-contrast' | 'auto';
+    animations: boolean;
+  };
+  studySettings: {
+    dailyGoal: number; // cards per day
+    reminderTime: string; // HH:MM format
+    weekendStudy: boolean;
+  };
+}
+
+export type SettingsGroup = keyof UserSettings;
+
+export const DEFAULT_SETTINGS: UserSettings = {
+  flashcardSettings: {
+    maxCardsPerSession: 20,
+    showMeaningFirst: false,
+    autoRevealTime: 0,
+    autoAdvanceTime: 0,
+    practiceMode: 'spaced',
+    answerMode: 'self-rate'
+  },
+  testSettings: {
+    defaultTimeLimit: 10,
+    questionCount: 10,
+    showHints: true,
+    immediateSpanback: true
+  },
+  appearanceSettings: {
+    fontSize: 'medium',
+    theme: 'light',
+    animations: true
+  },
+  studySettings: {
+    dailyGoal: 20,
+    reminderTime: '19:00',
+    weekendStudy: true
+  }
+};
+
+/**
+ * SettingsService - The user's preferences from the Settings page
+ *
+ * Settings are read synchronously from a cached copy of `wordplay-settings`.
+ * Stored values are merged over the defaults group by group, so settings
+ * added in a later version get their default instead of `undefined`.
+ * Components read them through SettingsContext, which re-renders on change.
+ */
+export class SettingsService {
+  private static readonly STORAGE_KEY = 'wordplay-settings';
+
+  private static cache: UserSettings | null = null;
+  private static listeners = new Set<(settings: UserSettings) => void>();
+
+  static get(): UserSettings {
+    if (!this.cache) {
+      this.cache = this.load();
+    }
+    return this.cache;
+  }
+
+  private static load(): UserSettings {
+    const stored = localStorage.getItem(this.STORAGE_KEY);
+    if (!stored) return DEFAULT_SETTINGS;
+
+    try {
+      const parsed = JSON.parse(stored);
+      const merged = { ...DEFAULT_SETTINGS };
+      (Object.keys(DEFAULT_SETTINGS) as SettingsGroup[]).forEach(group => {
+        merged[group] = { ...DEFAULT_SETTINGS[group], ...parsed[group] } as any;
+      });
+      return merged;
+    } catch (error) {
+      console.error('Error parsing settings:', error);
+      return DEFAULT_SETTINGS;
+    }
+  }
+
+  private static save(settings: UserSettings): void {
+    this.cache = settings;
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(settings));
+    this.listeners.forEach(listener => listener(settings));
+  }
+
+  static update<G extends SettingsGroup, K extends keyof UserSettings[G]>(
+    group: G,
+    key: K,
+    value: UserSettings[G][K]
+  ): void {
+    const settings = this.get();
+    this.save({
+      ...settings,
+      [group]: { ...settings[group], [key]: value }
+    });
+  }
+
+  static reset(): void {
+    this.save(DEFAULT_SETTINGS);
+  }
+
+  // Drop the stored settings (clear all data); the defaults apply again
+  static clear(): void {
+    localStorage.removeItem(this.STORAGE_KEY);
+    this.cache = null;
+    const settings = this.get();
+    this.listeners.forEach(listener => listener(settings));
+  }
+
+  static subscribe(listener: (settings: UserSettings) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
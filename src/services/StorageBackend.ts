@@ -0,0 +1,328 @@
+import { UserProgress, TestResult, FlashcardSession, TestSession, ReviewEvent } from '../types';
+
+export interface StoreRecords {
+  userProgress: UserProgress;
+  testResults: TestResult;
+  flashcardSessions: FlashcardSession;
+  testSessions: TestSession;
+  reviewEvents: ReviewEvent;
+}
+
+export type StoreName = keyof StoreRecords;
+
+export const STORE_NAMES: StoreName[] = ['userProgress', 'testResults', 'flashcardSessions', 'testSessions', 'reviewEvents'];
+
+export type StoreSnapshot = { [S in StoreName]?: StoreRecords[S][] };
+
+export interface TestResultQuery {
+  wordId?: string;
+  testType?: TestResult['testType'];
+  from?: Date; // inclusive
+  to?: Date; // exclusive
+}
+
+/**
+ * StorageBackend - Where ProgressTracker keeps its records
+ *
+ * Test results are append-only and have no natural key; every other store is
+ * keyed (progress by wordId, sessions by id) so put() replaces existing records.
+ */
+export interface StorageBackend {
+  readonly name: string;
+  getAll<S extends StoreName>(store: S): Promise<StoreRecords[S][]>;
+  put<S extends StoreName>(store: S, records: StoreRecords[S][]): Promise<void>;
+  replaceAll<S extends StoreName>(store: S, records: StoreRecords[S][]): Promise<void>;
+  // Replace several stores at once; either all of them change or none do
+  replaceStores(snapshot: StoreSnapshot): Promise<void>;
+  clear(store: StoreName): Promise<void>;
+  queryTestResults(query: TestResultQuery): Promise<TestResult[]>;
+}
+
+const KEY_PATHS: Record<StoreName, string | null> = {
+  userProgress: 'wordId',
+  testResults: null,
+  flashcardSessions: 'id',
+  testSessions: 'id',
+  reviewEvents: 'id'
+};
+
+export function matchesTestResultQuery(result: TestResult, query: TestResultQuery): boolean {
+  const time = new Date(result.timestamp).getTime();
+  return (!query.wordId || result.wordId === query.wordId) &&
+    (!query.testType || result.testType === query.testType) &&
+    (!query.from || time >= query.from.getTime()) &&
+    (!query.to || time < query.to.getTime());
+}
+
+// Turn the ISO date strings of JSON-parsed records back into Dates
+export function reviveRecords<S extends StoreName>(store: S, records: any[]): StoreRecords[S][] {
+  return records.map(record => {
+    switch (store) {
+      case 'userProgress':
+        return { ...record, nextReview: new Date(record.nextReview), lastReviewed: new Date(record.lastReviewed) };
+      case 'testResults':
+        return { ...record, timestamp: new Date(record.timestamp) };
+      case 'reviewEvents':
+        return {
+          ...record,
+          timestamp: new Date(record.timestamp),
+          progress: record.progress ? reviveRecords('userProgress', [record.progress])[0] : undefined
+        };
+      default:
+        return { ...record, startTime: new Date(record.startTime), endTime: record.endTime ? new Date(record.endTime) : undefined };
+    }
+  });
+}
+
+/**
+ * Keeps everything in memory. Used when nothing persistent is available and
+ * for running the app's logic outside a browser.
+ */
+export class MemoryStorageBackend implements StorageBackend {
+  readonly name: string = 'memory';
+  protected data: Record<StoreName, any[]> = {
+    userProgress: [],
+    testResults: [],
+    flashcardSessions: [],
+    testSessions: [],
+    reviewEvents: []
+  };
+
+  protected async onChange(_store: StoreName): Promise<void> {}
+
+  async getAll<S extends StoreName>(store: S): Promise<StoreRecords[S][]> {
+    return [...this.data[store]];
+  }
+
+  async put<S extends StoreName>(store: S, records: StoreRecords[S][]): Promise<void> {
+    const keyPath = KEY_PATHS[store];
+    if (!keyPath) {
+      this.data[store] = [...this.data[store], ...records];
+    } else {
+      const byKey = new Map(this.data[store].map(record => [(record as any)[keyPath], record]));
+      records.forEach(record => byKey.set((record as any)[keyPath], record));
+      this.data[store] = Array.from(byKey.values());
+    }
+    await this.onChange(store);
+  }
+
+  async replaceAll<S extends StoreName>(store: S, records: StoreRecords[S][]): Promise<void> {
+    this.data[store] = [...records];
+    await this.onChange(store);
+  }
+
+  async replaceStores(snapshot: StoreSnapshot): Promise<void> {
+    const stores = STORE_NAMES.filter(store => snapshot[store]);
+    stores.forEach(store => {
+      this.data[store] = [...snapshot[store]!];
+    });
+    for (const store of stores) {
+      await this.onChange(store);
+    }
+  }
+
+  async clear(store: StoreName): Promise<void> {
+    this.data[store] = [];
+    await this.onChange(store);
+  }
+
+  async queryTestResults(query: TestResultQuery): Promise<TestResult[]> {
+    return this.data.testResults.filter(result => matchesTestResultQuery(result, query));
+  }
+}
+
+/**
+ * The original storage: one JSON array per store in localStorage.
+ * Kept as the fallback for browsers where IndexedDB is unavailable.
+ */
+export class LocalStorageBackend extends MemoryStorageBackend {
+  readonly name: string = 'localStorage';
+
+  static readonly STORAGE_KEYS: Record<StoreName, string> = {
+    userProgress: 'wordplay-user-progress',
+    testResults: 'wordplay-test-results',
+    flashcardSessions: 'wordplay-flashcard-sessions',
+    testSessions: 'wordplay-test-sessions',
+    reviewEvents: 'wordplay-review-events'
+  };
+
+  constructor() {
+    super();
+    STORE_NAMES.forEach(store => {
+      this.data[store] = LocalStorageBackend.read(store);
+    });
+  }
+
+  static read<S extends StoreName>(store: S): StoreRecords[S][] {
+    const data = localStorage.getItem(this.STORAGE_KEYS[store]);
+    return data ? reviveRecords(store, JSON.parse(data)) : [];
+  }
+
+  // Writing one key can fail (quota), so put back everything written so far
+  async replaceStores(snapshot: StoreSnapshot): Promise<void> {
+    const previous = STORE_NAMES.map(store => ({ store, records: this.data[store], raw: localStorage.getItem(LocalStorageBackend.STORAGE_KEYS[store]) }));
+    try {
+      await super.replaceStores(snapshot);
+    } catch (error) {
+      previous.forEach(({ store, records, raw }) => {
+        this.data[store] = records;
+        const key = LocalStorageBackend.STORAGE_KEYS[store];
+        if (raw === null) {
+          localStorage.removeItem(key);
+        } else {
+          localStorage.setItem(key, raw);
+        }
+      });
+      throw error;
+    }
+  }
+
+  protected async onChange(store: StoreName): Promise<void> {
+    localStorage.setItem(LocalStorageBackend.STORAGE_KEYS[store], JSON.stringify(this.data[store]));
+  }
+}
+
+/**
+ * IndexedDB storage with indexes on test results, so per-word, per-type and
+ * date-range lookups don't have to scan the whole history.
+ */
+export class IndexedDBStorageBackend implements StorageBackend {
+  readonly name = 'indexedDB';
+
+  private static readonly DB_NAME = 'wordplay';
+  private static readonly DB_VERSION = 2; // 2: reviewEvents
+
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  // onBlocked runs while an older tab keeps the database open during an
+  // upgrade; the open waits for that tab to close instead of failing
+  constructor(private readonly onBlocked?: () => void) {}
+
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(IndexedDBStorageBackend.DB_NAME, IndexedDBStorageBackend.DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          STORE_NAMES.forEach(store => {
+            if (db.objectStoreNames.contains(store)) return;
+            const keyPath = KEY_PATHS[store];
+            const objectStore = keyPath
+              ? db.createObjectStore(store, { keyPath })
+              : db.createObjectStore(store, { autoIncrement: true });
+
+            if (store === 'testResults') {
+              objectStore.createIndex('wordId', 'wordId');
+              objectStore.createIndex('timestamp', 'timestamp');
+              objectStore.createIndex('testType', 'testType');
+            }
+            if (store === 'reviewEvents') {
+              objectStore.createIndex('wordId', 'wordId');
+            }
+          });
+        };
+
+        request.onsuccess = () => {
+          const db = request.result;
+          // Let a newer version of the app in another tab upgrade the database
+          db.onversionchange = () => {
+            db.close();
+            this.dbPromise = null;
+          };
+          resolve(db);
+        };
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+        request.onblocked = () => this.onBlocked?.();
+      });
+    }
+    return this.dbPromise;
+  }
+
+  // Run work inside a transaction and resolve once it has committed
+  private async transaction<T>(
+    store: StoreName,
+    mode: IDBTransactionMode,
+    work: (objectStore: IDBObjectStore) => IDBRequest<T> | void
+  ): Promise<T | undefined> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(store, mode);
+      const request = work(tx.objectStore(store));
+      tx.oncomplete = () => resolve(request ? request.result : undefined);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error || new Error('IndexedDB transaction aborted'));
+    });
+  }
+
+  async getAll<S extends StoreName>(store: S): Promise<StoreRecords[S][]> {
+    return (await this.transaction(store, 'readonly', objectStore => objectStore.getAll())) || [];
+  }
+
+  async put<S extends StoreName>(store: S, records: StoreRecords[S][]): Promise<void> {
+    await this.transaction(store, 'readwrite', objectStore => {
+      records.forEach(record => objectStore.put(record));
+    });
+  }
+
+  async replaceAll<S extends StoreName>(store: S, records: StoreRecords[S][]): Promise<void> {
+    await this.transaction(store, 'readwrite', objectStore => {
+      objectStore.clear();
+      records.forEach(record => objectStore.put(record));
+    });
+  }
+
+  async replaceStores(snapshot: StoreSnapshot): Promise<void> {
+    const stores = STORE_NAMES.filter(store => snapshot[store]);
+    if (stores.length === 0) return;
+
+    const db = await this.open();
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(stores, 'readwrite');
+      stores.forEach(store => {
+        const objectStore = tx.objectStore(store);
+        objectStore.clear();
+        snapshot[store]!.forEach(record => objectStore.put(record));
+      });
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error || new Error('IndexedDB transaction aborted'));
+    });
+  }
+
+  async clear(store: StoreName): Promise<void> {
+    await this.transaction(store, 'readwrite', objectStore => {
+      objectStore.clear();
+    });
+  }
+
+  async queryTestResults(query: TestResultQuery): Promise<TestResult[]> {
+    const results = await this.transaction<TestResult[]>('testResults', 'readonly', objectStore => {
+      // Narrow with the most selective index, then filter the rest in memory
+      if (query.wordId) {
+        return objectStore.index('wordId').getAll(IDBKeyRange.only(query.wordId));
+      }
+      if (query.from || query.to) {
+        const range = query.from && query.to
+          ? IDBKeyRange.bound(query.from, query.to, false, true)
+          : query.from
+            ? IDBKeyRange.lowerBound(query.from)
+            : IDBKeyRange.upperBound(query.to!, true);
+        return objectStore.index('timestamp').getAll(range);
+      }
+      if (query.testType) {
+        return objectStore.index('testType').getAll(IDBKeyRange.only(query.testType));
+      }
+      return objectStore.getAll();
+    });
+
+    return (results || []).filter(result => matchesTestResultQuery(result, query));
+  }
+}
@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import { StreakRules, StreakService } from './StreakService';
+
+const UTC: StreakRules = { dailyGoal: 1, weekendStudy: true, timeZone: 'UTC' };
+
+// `count` answers at noon UTC on each of the given days
+const answersOn = (days: string[], count = 1) =>
+  days.flatMap(day => Array.from({ length: count }, () => ({ timestamp: new Date(`${day}T12:00:00Z`) })));
+
+// `length` consecutive days starting at `first`
+const dayRange = (first: string, length: number) =>
+  Array.from({ length }, (_, i) => StreakService.addDays(first, i));
+
+describe('StreakService.calculate', () => {
+  it('puts a late-evening answer on the local day when a time zone is set', () => {
+    // 23:30 on 5 March in New York is already 6 March in UTC
+    const results = [
+      { timestamp: new Date('2024-03-06T04:30:00Z') },
+      { timestamp: new Date('2024-03-06T15:00:00Z') }
+    ];
+    const now = new Date('2024-03-06T17:00:00Z');
+
+    const newYork = StreakService.calculate(results, { ...UTC, timeZone: 'America/New_York' }, now);
+    expect(newYork.current).toBe(2);
+    expect(newYork.todayProgress).toBe(1);
+
+    const utc = StreakService.calculate(results, UTC, now);
+    expect(utc.current).toBe(1);
+    expect(utc.todayProgress).toBe(2);
+  });
+
+  it('steps calendar days across DST transitions', () => {
+    expect(StreakService.addDays('2024-03-09', 1)).toBe('2024-03-10');
+    expect(StreakService.addDays('2024-03-10', 1)).toBe('2024-03-11');
+    expect(StreakService.addDays('2024-10-27', 1)).toBe('2024-10-28');
+    expect(StreakService.addDays('2024-11-04', -1)).toBe('2024-11-03');
+
+    // Evening answers around the US spring-forward night still land on consecutive days
+    const results = ['2024-03-10T03:00:00Z', '2024-03-11T02:00:00Z', '2024-03-12T02:00:00Z']
+      .map(timestamp => ({ timestamp: new Date(timestamp) }));
+    const streak = StreakService.calculate(
+      results,
+      { ...UTC, timeZone: 'America/New_York' },
+      new Date('2024-03-12T02:30:00Z')
+    );
+    expect(streak.current).toBe(3);
+  });
+
+  it('only counts a day once it reaches the daily goal', () => {
+    const rules = { ...UTC, dailyGoal: 3 };
+    const now = new Date('2024-03-06T18:00:00Z');
+
+    const belowGoal = StreakService.calculate(
+      [...answersOn(['2024-03-04'], 3), ...answersOn(['2024-03-05'], 2)],
+      rules,
+      now
+    );
+    expect(belowGoal.current).toBe(0);
+    expect(belowGoal.best).toBe(1);
+
+    const atGoal = StreakService.calculate(answersOn(['2024-03-04', '2024-03-05'], 3), rules, now);
+    expect(atGoal.current).toBe(2);
+  });
+
+  it('does not break the streak while today is still below the goal', () => {
+    const streak = StreakService.calculate(
+      [...answersOn(['2024-03-04', '2024-03-05'], 3), ...answersOn(['2024-03-06'], 1)],
+      { ...UTC, dailyGoal: 3 },
+      new Date('2024-03-06T18:00:00Z')
+    );
+    expect(streak.current).toBe(2);
+    expect(streak.todayProgress).toBe(1);
+    expect(streak.todayComplete).toBe(false);
+  });
+
+  it('skips weekend days below the goal when weekend study is off', () => {
+    // Friday 8 March and Monday 11 March 2024
+    const results = answersOn(['2024-03-08', '2024-03-11']);
+    const monday = new Date('2024-03-11T18:00:00Z');
+
+    expect(StreakService.calculate(results, { ...UTC, weekendStudy: false }, monday).current).toBe(2);
+    expect(StreakService.calculate(results, UTC, monday).current).toBe(1);
+
+    const saturday = StreakService.calculate(
+      answersOn(['2024-03-08']),
+      { ...UTC, weekendStudy: false },
+      new Date('2024-03-09T18:00:00Z')
+    );
+    expect(saturday.restDay).toBe(true);
+    expect(saturday.current).toBe(1);
+  });
+
+  it('earns a freeze every seven goal days', () => {
+    const sixDays = StreakService.calculate(answersOn(dayRange('2024-03-01', 6)), UTC, new Date('2024-03-06T18:00:00Z'));
+    expect(sixDays.freezes).toBe(0);
+    expect(sixDays.nextFreezeIn).toBe(1);
+
+    const sevenDays = StreakService.calculate(answersOn(dayRange('2024-03-01', 7)), UTC, new Date('2024-03-07T18:00:00Z'));
+    expect(sevenDays.freezes).toBe(1);
+    expect(sevenDays.nextFreezeIn).toBe(StreakService.FREEZE_EVERY_DAYS);
+  });
+
+  it('caps freezes at MAX_FREEZES', () => {
+    const streak = StreakService.calculate(answersOn(dayRange('2024-03-01', 35)), UTC, new Date('2024-04-04T18:00:00Z'));
+    expect(streak.current).toBe(35);
+    expect(streak.freezes).toBe(StreakService.MAX_FREEZES);
+  });
+
+  it('spends a freeze on a missed day instead of resetting', () => {
+    const week = answersOn(dayRange('2024-03-01', 7));
+
+    // Missed 8 March, today (9 March) not studied yet
+    const frozen = StreakService.calculate(week, UTC, new Date('2024-03-09T18:00:00Z'));
+    expect(frozen.current).toBe(7);
+    expect(frozen.frozen).toBe(true);
+    expect(frozen.freezes).toBe(0);
+
+    // Studied again on 9 March
+    const resumed = StreakService.calculate([...week, ...answersOn(['2024-03-09'])], UTC, new Date('2024-03-09T18:00:00Z'));
+    expect(resumed.current).toBe(8);
+    expect(resumed.frozen).toBe(false);
+
+    // A second missed day with no freeze left resets the streak
+    const broken = StreakService.calculate(week, UTC, new Date('2024-03-10T18:00:00Z'));
+    expect(broken.current).toBe(0);
+    expect(broken.best).toBe(7);
+  });
+
+  it('ignores answers with future timestamps', () => {
+    const streak = StreakService.calculate(
+      [...answersOn(['2024-03-05']), ...answersOn(['2024-03-07', '2024-03-08'], 5)],
+      UTC,
+      new Date('2024-03-06T18:00:00Z')
+    );
+    expect(streak.current).toBe(1);
+    expect(streak.best).toBe(1);
+    expect(streak.todayProgress).toBe(0);
+  });
+});
@@ -0,0 +1,140 @@
+import { TestResult } from '../types';
+import { ProgressTracker } from './ProgressTracker';
+import { SettingsService } from './SettingsService';
+
+export interface StreakRules {
+  dailyGoal: number; // answers needed for a day to count
+  weekendStudy: boolean; // false = Saturdays and Sundays are optional
+  timeZone?: string; // IANA zone for day boundaries; the device's zone by default
+}
+
+export interface StreakData {
+  current: number;
+  best: number;
+  todayProgress: number; // answers so far today
+  dailyGoal: number;
+  todayComplete: boolean;
+  restDay: boolean; // today is an optional weekend day
+  frozen: boolean; // a freeze has covered a missed day since the last goal day
+  freezes: number; // freezes available
+  maxFreezes: number;
+  nextFreezeIn: number; // goal days until the next freeze is earned
+}
+
+/**
+ * StreakService - The one learning streak
+ *
+ * A day counts when its flashcard ratings and test answers reach the daily
+ * goal from Settings. Days are calendar days in the device's time zone (or
+ * `rules.timeZone`), so a late-evening review belongs to that evening, not
+ * to the UTC date.
+ *
+ * The streak is replayed from the answer history, so every synced device
+ * agrees on it and the rules apply the same way to old days:
+ * - a day that reaches the goal adds one
+ * - today never breaks the streak; it only adds once the goal is reached
+ * - with weekend study off, a weekend day below the goal is skipped
+ * - every FREEZE_EVERY_DAYS goal days earn a freeze (up to MAX_FREEZES); a
+ *   missed day spends one automatically instead of resetting the streak
+ */
+export class StreakService {
+  static readonly FREEZE_EVERY_DAYS = 7;
+  static readonly MAX_FREEZES = 3;
+
+  private static formatters = new Map<string, Intl.DateTimeFormat>();
+
+  static getStreak(now: Date = new Date()): StreakData {
+    const { dailyGoal, weekendStudy } = SettingsService.get().studySettings;
+    return this.calculate(ProgressTracker.getTestResults(), { dailyGoal, weekendStudy }, now);
+  }
+
+  static calculate(
+    results: Pick<TestResult, 'timestamp'>[],
+    rules: StreakRules,
+    now: Date = new Date()
+  ): StreakData {
+    const goal = Math.max(1, rules.dailyGoal);
+    const today = this.dayKey(now, rules.timeZone);
+
+    const answersPerDay = new Map<string, number>();
+    results.forEach(result => {
+      const day = this.dayKey(new Date(result.timestamp), rules.timeZone);
+      answersPerDay.set(day, (answersPerDay.get(day) || 0) + 1);
+    });
+
+    // Answers dated after today (a clock that was off) are left out
+    const days = Array.from(answersPerDay.keys()).filter(day => day <= today).sort();
+
+    let current = 0;
+    let best = 0;
+    let freezes = 0;
+    let goalDaysTowardsFreeze = 0;
+    let frozen = false;
+
+    for (let day = days[0]; day && day <= today; day = this.addDays(day, 1)) {
+      if ((answersPerDay.get(day) || 0) >= goal) {
+        current++;
+        best = Math.max(best, current);
+        frozen = false;
+        goalDaysTowardsFreeze++;
+        if (goalDaysTowardsFreeze === this.FREEZE_EVERY_DAYS) {
+          freezes = Math.min(this.MAX_FREEZES, freezes + 1);
+          goalDaysTowardsFreeze = 0;
+        }
+      } else if (day === today || this.isRestDay(day, rules)) {
+        continue;
+      } else if (current > 0 && freezes > 0) {
+        freezes--;
+        frozen = true;
+      } else {
+        current = 0;
+        goalDaysTowardsFreeze = 0;
+        frozen = false;
+      }
+    }
+
+    const todayProgress = answersPerDay.get(today) || 0;
+    return {
+      current,
+      best,
+      todayProgress,
+      dailyGoal: goal,
+      todayComplete: todayProgress >= goal,
+      restDay: this.isRestDay(today, rules),
+      frozen,
+      freezes,
+      maxFreezes: this.MAX_FREEZES,
+      nextFreezeIn: this.FREEZE_EVERY_DAYS - goalDaysTowardsFreeze
+    };
+  }
+
+  // Calendar date (YYYY-MM-DD) of a moment in the given or the device's time zone
+  static dayKey(date: Date, timeZone?: string): string {
+    const zone = timeZone || '';
+    let formatter = this.formatters.get(zone);
+    if (!formatter) {
+      // en-CA formats dates as YYYY-MM-DD
+      formatter = new Intl.DateTimeFormat('en-CA', {
+        timeZone: timeZone || undefined,
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit'
+      });
+      this.formatters.set(zone, formatter);
+    }
+    return formatter.format(date);
+  }
+
+  // Day keys are plain calendar dates, so stepping them in UTC avoids DST gaps
+  static addDays(day: string, amount: number): string {
+    const date = new Date(`${day}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() + amount);
+    return date.toISOString().slice(0, 10);
+  }
+
+  private static isRestDay(day: string, rules: StreakRules): boolean {
+    if (rules.weekendStudy) return false;
+    const weekday = new Date(`${day}T00:00:00Z`).getUTCDay();
+    return weekday === 0 || weekday === 6;
+  }
+}
@@ -0,0 +1,45 @@
+import { FlashcardSession, TestResult, TestSession } from '../types';
+
+export type StudyEvent =
+  | { type: 'card-reviewed'; result: TestResult; deckId?: string }
+  | { type: 'test-completed'; session: TestSession }
+  | { type: 'session-ended'; session: FlashcardSession; sessionType: string; deckId?: string };
+
+export type StudyEventType = StudyEvent['type'];
+
+type StudyEventOf<T extends StudyEventType> = Extract<StudyEvent, { type: T }>;
+
+/**
+ * StudyEvents - What just happened in a study flow
+ *
+ * FlashcardSession and the tests emit an event after their records are
+ * saved; features that react to studying (XP, streaks, challenges,
+ * achievements) subscribe here instead of being called from every flow.
+ * A failing listener is logged and doesn't stop the others.
+ */
+export class StudyEvents {
+  private static listeners = new Set<(event: StudyEvent) => void>();
+
+  static emit(event: StudyEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`Error handling ${event.type} event:`, error);
+      }
+    });
+  }
+
+  static subscribe(listener: (event: StudyEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  static on<T extends StudyEventType>(type: T, listener: (event: StudyEventOf<T>) => void): () => void {
+    return this.subscribe(event => {
+      if (event.type === type) listener(event as StudyEventOf<T>);
+    });
+  }
+}
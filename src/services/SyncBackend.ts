@@ -0,0 +1,227 @@
+export type SyncBackendType = 'google-drive' | 'webdav' | 'memory';
+
+export interface SyncFile {
+  content: string;
+  revision: string;
+}
+
+export interface SyncFileInfo {
+  name: string;
+  revision: string;
+  modifiedTime: Date | null;
+  size?: number;
+}
+
+/**
+ * SyncBackend - A remote folder of named files
+ *
+ * Revisions are opaque strings that change whenever a file changes (Drive
+ * version, HTTP ETag, ...). put() takes the revision the caller last saw so
+ * concurrent writers are detected instead of silently overwritten:
+ *   undefined - write unconditionally
+ *   null      - only create; fail if the file already exists
+ *   string    - only replace that exact revision
+ */
+export interface SyncBackend {
+  readonly type: SyncBackendType;
+  readonly label: string;
+  isReady(): boolean; // signed in / configured
+  get(name: string): Promise<SyncFile | null>;
+  put(name: string, content: string, expectedRevision?: string | null): Promise<string>;
+  list(): Promise<SyncFileInfo[]>;
+  revision(name: string): Promise<string | null>;
+  delete(name: string): Promise<void>; // no error if the file is already gone
+}
+
+/**
+ * Thrown by put() when the remote file changed since expectedRevision was read.
+ */
+export class SyncRevisionConflictError extends Error {
+  constructor(name: string) {
+    super(`${name} was changed by another device during sync`);
+    this.name = 'SyncRevisionConflictError';
+  }
+}
+
+/**
+ * Keeps files in memory; for tests and for trying the sync flow without a server.
+ */
+export class MemorySyncBackend implements SyncBackend {
+  readonly type = 'memory';
+  readonly label = 'In-memory (testing)';
+
+  private files = new Map<string, { content: string; revision: number; modifiedTime: Date }>();
+
+  isReady(): boolean {
+    return true;
+  }
+
+  async get(name: string): Promise<SyncFile | null> {
+    const file = this.files.get(name);
+    return file ? { content: file.content, revision: String(file.revision) } : null;
+  }
+
+  async put(name: string, content: string, expectedRevision?: string | null): Promise<string> {
+    const existing = this.files.get(name);
+    if (expectedRevision !== undefined && (existing ? String(existing.revision) : null) !== expectedRevision) {
+      throw new SyncRevisionConflictError(name);
+    }
+
+    const revision = (existing?.revision || 0) + 1;
+    this.files.set(name, { content, revision, modifiedTime: new Date() });
+    return String(revision);
+  }
+
+  async list(): Promise<SyncFileInfo[]> {
+    return Array.from(this.files.entries()).map(([name, file]) => ({
+      name,
+      revision: String(file.revision),
+      modifiedTime: file.modifiedTime,
+      size: file.content.length
+    }));
+  }
+
+  async revision(name: string): Promise<string | null> {
+    const file = this.files.get(name);
+    return file ? String(file.revision) : null;
+  }
+
+  async delete(name: string): Promise<void> {
+    this.files.delete(name);
+  }
+}
+
+export interface WebDAVConfig {
+  url: string; // folder URL, e.g. https://cloud.example.org/remote.php/dav/files/me/WordPlay/
+  username?: string;
+  password?: string;
+}
+
+/**
+ * WebDAV backend for self-hosted servers (Nextcloud, Apache mod_dav,
+ * `rclone serve webdav`, ...). Revisions are ETags, and conditional
+ * requests (If-Match / If-None-Match) guard against concurrent writers.
+ * The server must allow CORS from the app's origin. Browsers hide the ETag
+ * header unless the server exposes it (Access-Control-Expose-Headers), in
+ * which case the revision is the Last-Modified date and writes are guarded
+ * with If-Unmodified-Since instead, to the nearest second.
+ */
+export class WebDAVSyncBackend implements SyncBackend {
+  readonly type = 'webdav';
+  readonly label = 'WebDAV server';
+
+  constructor(private readonly config: WebDAVConfig) {}
+
+  isReady(): boolean {
+    return !!this.config.url;
+  }
+
+  private get folderUrl(): string {
+    return this.config.url.endsWith('/') ? this.config.url : `${this.config.url}/`;
+  }
+
+  private fileUrl(name: string): string {
+    return this.folderUrl + encodeURIComponent(name);
+  }
+
+  private async request(url: string, init: RequestInit = {}): Promise<Response> {
+    const headers = new Headers(init.headers);
+    if (this.config.username) {
+      headers.set('Authorization', `Basic ${btoa(unescape(encodeURIComponent(`${this.config.username}:${this.config.password || ''}`)))}`);
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(url, { ...init, headers, cache: 'no-store' });
+    } catch {
+      throw new Error('Could not reach the WebDAV server. Check the URL and that it allows requests from this site (CORS).');
+    }
+
+    if (response.status === 401 || response.status === 403) {
+      throw new Error('The WebDAV server rejected the username or password.');
+    }
+    return response;
+  }
+
+  private static getRevision(response: Response): string {
+    return response.headers.get('ETag') || response.headers.get('Last-Modified') || '';
+  }
+
+  // Entity tags are quoted (`"abc"` or `W/"abc"`); anything else is an HTTP date
+  private static isEntityTag(revision: string): boolean {
+    return revision.startsWith('"') || revision.startsWith('W/');
+  }
+
+  async get(name: string): Promise<SyncFile | null> {
+    const response = await this.request(this.fileUrl(name));
+    if (response.status === 404) return null;
+    if (!response.ok) throw new Error(`WebDAV download failed: ${response.status} ${response.statusText}`);
+    return { content: await response.text(), revision: WebDAVSyncBackend.getRevision(response) };
+  }
+
+  async put(name: string, content: string, expectedRevision?: string | null): Promise<string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (expectedRevision === null) {
+      headers['If-None-Match'] = '*';
+    } else if (expectedRevision && WebDAVSyncBackend.isEntityTag(expectedRevision)) {
+      headers['If-Match'] = expectedRevision;
+    } else if (expectedRevision) {
+      headers['If-Unmodified-Since'] = expectedRevision;
+    }
+
+    let response = await this.request(this.fileUrl(name), { method: 'PUT', headers, body: content });
+
+    // The folder doesn't exist yet
+    if (response.status === 409 || response.status === 404) {
+      await this.request(this.folderUrl, { method: 'MKCOL' });
+      response = await this.request(this.fileUrl(name), { method: 'PUT', headers, body: content });
+    }
+
+    if (response.status === 412) throw new SyncRevisionConflictError(name);
+    if (!response.ok) throw new Error(`WebDAV upload failed: ${response.status} ${response.statusText}`);
+
+    // Not every server returns the new ETag on PUT
+    return WebDAVSyncBackend.getRevision(response) || (await this.revision(name)) || '';
+  }
+
+  async list(): Promise<SyncFileInfo[]> {
+    const response = await this.request(this.folderUrl, {
+      method: 'PROPFIND',
+      headers: { Depth: '1', 'Content-Type': 'application/xml' },
+      body: '<?xml version="1.0"?><d:propfind xmlns:d="DAV:"><d:prop><d:getetag/><d:getlastmodified/><d:getcontentlength/><d:resourcetype/></d:prop></d:propfind>'
+    });
+    if (response.status === 404) return [];
+    if (!response.ok) throw new Error(`WebDAV listing failed: ${response.status} ${response.statusText}`);
+
+    const xml = new DOMParser().parseFromString(await response.text(), 'application/xml');
+    const text = (element: Element, tag: string) => element.getElementsByTagNameNS('DAV:', tag)[0]?.textContent || '';
+
+    return Array.from(xml.getElementsByTagNameNS('DAV:', 'response'))
+      .filter(entry => entry.getElementsByTagNameNS('DAV:', 'collection').length === 0)
+      .map(entry => {
+        const href = decodeURIComponent(text(entry, 'href'));
+        const modified = text(entry, 'getlastmodified');
+        const size = text(entry, 'getcontentlength');
+        return {
+          name: href.substring(href.lastIndexOf('/') + 1),
+          revision: text(entry, 'getetag') || modified,
+          modifiedTime: modified ? new Date(modified) : null,
+          size: size ? parseInt(size) : undefined
+        };
+      });
+  }
+
+  async revision(name: string): Promise<string | null> {
+    const response = await this.request(this.fileUrl(name), { method: 'HEAD' });
+    if (response.status === 404) return null;
+    if (!response.ok) throw new Error(`WebDAV request failed: ${response.status} ${response.statusText}`);
+    return WebDAVSyncBackend.getRevision(response);
+  }
+
+  async delete(name: string): Promise<void> {
+    const response = await this.request(this.fileUrl(name), { method: 'DELETE' });
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`WebDAV delete failed: ${response.status} ${response.statusText}`);
+    }
+  }
+}
@@ -0,0 +1,237 @@
+import { DataSchema } from './DataSchema';
+import { SyncBackend, SyncFile, SyncFileInfo } from './SyncBackend';
+
+/**
+ * Readable without the passphrase, so a device can tell what it's looking at
+ * (and which key to derive) before decrypting.
+ */
+export interface EncryptionHeader {
+  wordplayEncrypted: 1;
+  schemaVersion: number;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  cipher: { name: 'AES-GCM'; iv: string };
+}
+
+interface EncryptedEnvelope extends EncryptionHeader {
+  data: string; // base64 ciphertext of the plain JSON payload
+}
+
+interface EncryptionConfig {
+  enabled: boolean;
+  salt: string;
+  iterations: number;
+}
+
+/**
+ * Thrown when an encrypted sync file is read before the passphrase was entered
+ * on this device.
+ */
+export class SyncPassphraseRequiredError extends Error {
+  constructor() {
+    super('Your synced data is encrypted. Enter your sync passphrase to continue.');
+    this.name = 'SyncPassphraseRequiredError';
+  }
+}
+
+/**
+ * Thrown when the entered passphrase can't decrypt a sync file.
+ */
+export class SyncPassphraseError extends Error {
+  constructor() {
+    super('The sync passphrase is wrong - it doesn\'t match the one used to encrypt your synced data.');
+    this.name = 'SyncPassphraseError';
+  }
+}
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  // Chunked so large payloads don't overflow the argument list
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string): Uint8Array<ArrayBuffer> => {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+/**
+ * SyncEncryption - Optional end-to-end encryption of sync files
+ *
+ * Files are encrypted with AES-GCM under a key derived from the user's
+ * passphrase with PBKDF2, entirely in the browser; the sync provider only
+ * ever sees ciphertext. The passphrase is kept in memory for the session and
+ * never stored or uploaded, so each device asks for it once per visit.
+ */
+export class SyncEncryption {
+  private static readonly CONFIG_KEY = 'wordplay-sync-encryption';
+  private static readonly ITERATIONS = 310000;
+
+  private static passphrase: string | null = null;
+  private static keys = new Map<string, Promise<CryptoKey>>();
+
+  private static getConfig(): EncryptionConfig | null {
+    const stored = localStorage.getItem(this.CONFIG_KEY);
+    return stored ? JSON.parse(stored) : null;
+  }
+
+  private static saveConfig(config: EncryptionConfig): void {
+    localStorage.setItem(this.CONFIG_KEY, JSON.stringify(config));
+  }
+
+  static isEnabled(): boolean {
+    return !!this.getConfig()?.enabled;
+  }
+
+  static hasPassphrase(): boolean {
+    return this.passphrase !== null;
+  }
+
+  static setPassphrase(passphrase: string): void {
+    this.passphrase = passphrase;
+    this.keys.clear();
+  }
+
+  // Encrypt everything uploaded from now on with a new key
+  static enable(passphrase: string): void {
+    if (!passphrase) throw new Error('Enter a passphrase');
+    this.setPassphrase(passphrase);
+    this.saveConfig({
+      enabled: true,
+      salt: toBase64(crypto.getRandomValues(new Uint8Array(16))),
+      iterations: this.ITERATIONS
+    });
+  }
+
+  // Upload plaintext from now on; encrypted files can still be read with the passphrase
+  static disable(): void {
+    const config = this.getConfig();
+    if (config) this.saveConfig({ ...config, enabled: false });
+  }
+
+  private static deriveKey(salt: string, iterations: number): Promise<CryptoKey> {
+    if (this.passphrase === null) throw new SyncPassphraseRequiredError();
+
+    const cacheKey = `${iterations}:${salt}`;
+    let key = this.keys.get(cacheKey);
+    if (!key) {
+      const passphrase = this.passphrase;
+      key = (async () => {
+        const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+        return crypto.subtle.deriveKey(
+          { name: 'PBKDF2', hash: 'SHA-256', salt: fromBase64(salt), iterations },
+          material,
+          { name: 'AES-GCM', length: 256 },
+          false,
+          ['encrypt', 'decrypt']
+        );
+      })();
+      this.keys.set(cacheKey, key);
+    }
+    return key;
+  }
+
+  private static parseEnvelope(content: string): EncryptedEnvelope | null {
+    // Cheap check first; plaintext payloads are much larger than this prefix
+    if (!content.includes('"wordplayEncrypted"')) return null;
+    try {
+      const parsed = JSON.parse(content);
+      return parsed && parsed.wordplayEncrypted === 1 ? parsed : null;
+    } catch {
+      return null;
+    }
+  }
+
+  static isEncrypted(content: string): boolean {
+    return this.parseEnvelope(content) !== null;
+  }
+
+  static async encrypt(content: string): Promise<string> {
+    const config = this.getConfig();
+    if (!config?.enabled) return content;
+
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const key = await this.deriveKey(config.salt, config.iterations);
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(content));
+
+    const envelope: EncryptedEnvelope = {
+      wordplayEncrypted: 1,
+      schemaVersion: DataSchema.CURRENT_VERSION,
+      kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: config.iterations, salt: config.salt },
+      cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+      data: toBase64(new Uint8Array(ciphertext))
+    };
+    return JSON.stringify(envelope);
+  }
+
+  // Plaintext passes through unchanged, so files from before encryption still read
+  static async decrypt(content: string): Promise<string> {
+    const envelope = this.parseEnvelope(content);
+    if (!envelope) return content;
+
+    DataSchema.assertSupported(envelope.schemaVersion);
+
+    const key = await this.deriveKey(envelope.kdf.salt, envelope.kdf.iterations);
+    let plaintext: ArrayBuffer;
+    try {
+      plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(envelope.cipher.iv) }, key, fromBase64(envelope.data));
+    } catch {
+      // AES-GCM authentication fails for a wrong key (or a tampered file)
+      throw new SyncPassphraseError();
+    }
+
+    // Another device turned encryption on; keep our uploads encrypted too,
+    // unless it was turned off here on purpose
+    if (!this.getConfig()) {
+      this.saveConfig({ enabled: true, salt: envelope.kdf.salt, iterations: envelope.kdf.iterations });
+    }
+    return new TextDecoder().decode(plaintext);
+  }
+}
+
+/**
+ * Wraps a SyncBackend so file contents are encrypted on the way out and
+ * decrypted on the way in. Names, revisions and listings pass through.
+ */
+export class EncryptedSyncBackend implements SyncBackend {
+  constructor(private readonly inner: SyncBackend) {}
+
+  get type() {
+    return this.inner.type;
+  }
+
+  get label() {
+    return this.inner.label;
+  }
+
+  isReady(): boolean {
+    return this.inner.isReady();
+  }
+
+  async get(name: string): Promise<SyncFile | null> {
+    const file = await this.inner.get(name);
+    return file ? { ...file, content: await SyncEncryption.decrypt(file.content) } : null;
+  }
+
+  async put(name: string, content: string, expectedRevision?: string | null): Promise<string> {
+    return this.inner.put(name, await SyncEncryption.encrypt(content), expectedRevision);
+  }
+
+  list(): Promise<SyncFileInfo[]> {
+    return this.inner.list();
+  }
+
+  revision(name: string): Promise<string | null> {
+    return this.inner.revision(name);
+  }
+
+  delete(name: string): Promise<void> {
+    return this.inner.delete(name);
+  }
+}
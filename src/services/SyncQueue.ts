@@ -0,0 +1,182 @@
+import { ProgressTracker } from './ProgressTracker';
+import { SyncService } from './SyncService';
+import { SyncPassphraseError, SyncPassphraseRequiredError } from './SyncEncryption';
+
+export interface SyncQueueState {
+  pending: boolean; // local changes not synced yet
+  running: boolean;
+  online: boolean;
+  failedAttempts: number;
+  retryAt: Date | null;
+}
+
+/**
+ * SyncQueue - Background auto-sync
+ *
+ * Every save requests a sync; a burst of saves is coalesced into one sync
+ * once the data has been quiet for DEBOUNCE_MS (but never held back longer
+ * than MAX_WAIT_MS). Failed syncs are retried with exponential backoff.
+ * While the device is offline nothing is attempted: the queue waits for the
+ * browser's `online` event. The pending flag is persisted so changes made
+ * offline are still synced after a reload.
+ */
+export class SyncQueue {
+  private static readonly PENDING_KEY = 'wordplay-sync-pending';
+  private static readonly DEBOUNCE_MS = 2000;
+  private static readonly MAX_WAIT_MS = 30000;
+  private static readonly RETRY_BASE_MS = 5000;
+  private static readonly RETRY_MAX_MS = 10 * 60 * 1000;
+
+  private static started = false;
+  private static running = false;
+  private static timer: ReturnType<typeof setTimeout> | null = null;
+  private static firstRequestAt: number | null = null;
+  private static failedAttempts = 0;
+  private static retryAt: Date | null = null;
+  private static listeners = new Set<() => void>();
+
+  static start(): void {
+    if (this.started) return;
+    this.started = true;
+
+    ProgressTracker.setSyncCallback(() => this.request());
+    window.addEventListener('online', this.handleOnline);
+    window.addEventListener('offline', this.handleOffline);
+
+    // Changes left over from an earlier visit
+    if (this.isPending()) {
+      this.schedule(this.DEBOUNCE_MS);
+    }
+  }
+
+  static stop(): void {
+    if (!this.started) return;
+    this.started = false;
+
+    ProgressTracker.setSyncCallback(null);
+    window.removeEventListener('online', this.handleOnline);
+    window.removeEventListener('offline', this.handleOffline);
+    this.clearTimer();
+  }
+
+  static subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  static getState(): SyncQueueState {
+    return {
+      pending: this.isPending(),
+      running: this.running,
+      online: navigator.onLine,
+      failedAttempts: this.failedAttempts,
+      retryAt: this.retryAt,
+    };
+  }
+
+  private static isEnabled(): boolean {
+    return SyncService.isAutoSyncEnabled() && SyncService.isReady();
+  }
+
+  private static isPending(): boolean {
+    return localStorage.getItem(this.PENDING_KEY) === 'true';
+  }
+
+  private static setPending(pending: boolean): void {
+    if (pending) {
+      localStorage.setItem(this.PENDING_KEY, 'true');
+    } else {
+      localStorage.removeItem(this.PENDING_KEY);
+    }
+  }
+
+  // Called on every save
+  static request(): void {
+    if (!this.isEnabled()) return;
+
+    this.setPending(true);
+    const now = Date.now();
+    if (this.firstRequestAt === null) this.firstRequestAt = now;
+
+    // A scheduled retry or the sync in progress will pick the change up
+    if (!this.retryAt && !this.running) {
+      this.schedule(Math.min(this.DEBOUNCE_MS, Math.max(0, this.firstRequestAt + this.MAX_WAIT_MS - now)));
+    }
+    this.notify();
+  }
+
+  /**
+   * Sync pending changes now. Does nothing while offline or when a sync is
+   * already running (that one reschedules itself if changes arrived meanwhile).
+   */
+  static async flush(): Promise<void> {
+    this.clearTimer();
+    if (this.running || !this.isPending() || !this.isEnabled()) return;
+    if (!navigator.onLine) {
+      this.notify();
+      return;
+    }
+
+    const trigger = this.failedAttempts > 0 ? 'retry' : 'auto';
+    this.running = true;
+    this.retryAt = null;
+    this.firstRequestAt = null;
+    // Cleared before syncing so saves made during the sync mark it pending again
+    this.setPending(false);
+    this.notify();
+
+    try {
+      console.log(`🔄 Auto-syncing to ${SyncService.getBackend().label}...`);
+      await SyncService.sync('merge', trigger);
+      this.failedAttempts = 0;
+    } catch (error) {
+      console.error('Auto-sync failed:', error);
+      this.setPending(true);
+      this.failedAttempts++;
+      // Retrying can't help until the passphrase is entered in Settings
+      const needsPassphrase = error instanceof SyncPassphraseRequiredError || error instanceof SyncPassphraseError;
+      if (navigator.onLine && !needsPassphrase) {
+        const delay = Math.min(this.RETRY_MAX_MS, this.RETRY_BASE_MS * 2 ** (this.failedAttempts - 1));
+        this.retryAt = new Date(Date.now() + delay);
+        this.schedule(delay);
+      }
+    } finally {
+      this.running = false;
+      if (this.isPending() && !this.retryAt && this.failedAttempts === 0) {
+        this.schedule(this.DEBOUNCE_MS);
+      }
+      this.notify();
+    }
+  }
+
+  private static schedule(delay: number): void {
+    this.clearTimer();
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.flush();
+    }, delay);
+  }
+
+  private static clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Back online: retry right away instead of waiting out the backoff
+  private static handleOnline = () => {
+    SyncQueue.retryAt = null;
+    SyncQueue.flush();
+  };
+
+  private static handleOffline = () => {
+    SyncQueue.notify();
+  };
+
+  private static notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
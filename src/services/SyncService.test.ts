@@ -0,0 +1,200 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ReviewEvent, TestResult } from '../types';
+import { DataSchema } from './DataSchema';
+import { ProgressTracker } from './ProgressTracker';
+import { ReviewLog } from './ReviewLog';
+import { MemoryStorageBackend, StoreName, StoreRecords, StoreSnapshot } from './StorageBackend';
+import { MemorySyncBackend } from './SyncBackend';
+import { SyncService } from './SyncService';
+
+vi.hoisted(() => {
+  const items = new Map<string, string>();
+  (globalThis as any).localStorage = {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => items.set(key, String(value)),
+    removeItem: (key: string) => items.delete(key),
+    clear: () => items.clear()
+  };
+  // No bundled word list outside the browser
+  (globalThis as any).fetch = async () => ({ text: async () => '[]' });
+});
+
+const DATA_FILE = 'wordplay-data.json';
+
+const answer = (wordId: string, timestamp: string): TestResult => ({
+  testType: 'flashcard',
+  wordId,
+  correct: true,
+  timeSpent: 1000,
+  timestamp: new Date(timestamp),
+  quality: 4
+});
+
+const review = (deviceId: string, seq: number): ReviewEvent => ({
+  id: `${deviceId}:${seq}`,
+  deviceId,
+  seq,
+  clock: seq,
+  type: 'review',
+  wordId: `word-${seq}`,
+  timestamp: new Date('2026-01-01T10:00:00Z'),
+  quality: 4,
+  scheduler: 'sm2'
+});
+
+// Runs `onWrite` once, as the first write carrying a record for `wordId`
+// starts and before it is stored
+class HookedStorageBackend extends MemoryStorageBackend {
+  private watch: { wordId: string; onWrite: () => void } | null = null;
+
+  whenWriting(wordId: string, onWrite: () => void) {
+    this.watch = { wordId, onWrite };
+  }
+
+  async put<S extends StoreName>(store: S, records: StoreRecords[S][]): Promise<void> {
+    this.check(records);
+    await super.put(store, records);
+  }
+
+  async replaceStores(snapshot: StoreSnapshot): Promise<void> {
+    this.check(Object.values(snapshot).flat());
+    await super.replaceStores(snapshot);
+  }
+
+  private check(records: any[]) {
+    const watch = this.watch;
+    if (watch && records.some(record => record?.wordId === watch.wordId)) {
+      this.watch = null;
+      watch.onWrite();
+    }
+  }
+}
+
+describe('SyncService merge', () => {
+  let storage: HookedStorageBackend;
+  let remote: MemorySyncBackend;
+
+  beforeEach(async () => {
+    localStorage.clear();
+    storage = new HookedStorageBackend();
+    await ProgressTracker.initialize(storage);
+    remote = new MemorySyncBackend();
+    SyncService.useBackend(remote);
+  });
+
+  it('adds remote answers to the local ones', async () => {
+    ProgressTracker.saveTestResult(answer('alpha', '2026-01-01T10:00:00Z'));
+    await remote.put(DATA_FILE, JSON.stringify(DataSchema.stamp({
+      testResults: [answer('remote', '2026-01-01T09:00:00Z'), answer('alpha', '2026-01-01T10:00:00Z')]
+    })));
+
+    await SyncService.sync('merge');
+
+    expect(ProgressTracker.getTestResults().map(result => result.wordId).sort()).toEqual(['alpha', 'remote']);
+    const uploaded = JSON.parse((await remote.get(DATA_FILE))!.content);
+    expect(uploaded.testResults).toHaveLength(2);
+  });
+
+  it('keeps an answer saved while the merge is in flight', async () => {
+    await remote.put(DATA_FILE, JSON.stringify(DataSchema.stamp({
+      testResults: [answer('remote', '2026-01-01T09:00:00Z')]
+    })));
+
+    // One answer is saved as the sync downloads the file, another while the
+    // merged records are being written
+    const get = remote.get.bind(remote);
+    remote.get = async (name: string) => {
+      if (name === DATA_FILE) {
+        ProgressTracker.saveTestResult(answer('during-download', '2026-01-01T10:00:00Z'));
+      }
+      return get(name);
+    };
+    storage.whenWriting('remote', () => {
+      ProgressTracker.saveTestResult(answer('during-write', '2026-01-01T11:00:00Z'));
+    });
+
+    await SyncService.sync('merge');
+    await ProgressTracker.whenSaved();
+
+    const expected = ['during-download', 'during-write', 'remote'];
+    expect(ProgressTracker.getTestResults().map(result => result.wordId).sort()).toEqual(expected);
+    expect((await storage.getAll('testResults')).map(result => result.wordId).sort()).toEqual(expected);
+  });
+});
+
+describe('SyncService event segments', () => {
+  let remote: MemorySyncBackend;
+  let written: string[];
+  let read: string[];
+
+  beforeEach(async () => {
+    localStorage.clear();
+    await ProgressTracker.initialize(new MemoryStorageBackend());
+    remote = new MemorySyncBackend();
+    SyncService.useBackend(remote);
+
+    written = [];
+    read = [];
+    const put = remote.put.bind(remote);
+    const get = remote.get.bind(remote);
+    remote.put = (name, content, expectedRevision) => {
+      written.push(name);
+      return put(name, content, expectedRevision);
+    };
+    remote.get = name => {
+      read.push(name);
+      return get(name);
+    };
+  });
+
+  const eventFiles = (names: string[]) => names.filter(name => name.startsWith('wordplay-events-'));
+
+  it('uploads only the events after the last sync as a new segment', async () => {
+    const deviceId = ReviewLog.getDeviceId();
+    ReviewLog.recordReview('alpha', 4, 'sm2', new Date());
+    ReviewLog.recordReview('beta', 4, 'sm2', new Date());
+    await SyncService.sync('merge');
+    ReviewLog.recordReview('gamma', 2, 'sm2', new Date());
+    await SyncService.sync('merge');
+
+    expect(eventFiles(written)).toEqual([`wordplay-events-${deviceId}.1-2.json`, `wordplay-events-${deviceId}.3-3.json`]);
+    const segment = JSON.parse((await remote.get(`wordplay-events-${deviceId}.3-3.json`))!.content);
+    expect(segment.reviewEvents.map((event: ReviewEvent) => event.wordId)).toEqual(['gamma']);
+  });
+
+  it('uploads the whole log again when forced to a cleared folder', async () => {
+    const deviceId = ReviewLog.getDeviceId();
+    ReviewLog.recordReview('alpha', 4, 'sm2', new Date());
+    await SyncService.sync('merge');
+    await remote.delete(`wordplay-events-${deviceId}.1-1.json`);
+    ReviewLog.recordReview('beta', 4, 'sm2', new Date());
+
+    await SyncService.sync('upload');
+
+    expect(eventFiles(written).slice(1)).toEqual([`wordplay-events-${deviceId}.1-2.json`]);
+  });
+
+  it('only fetches segments after the last seq seen from each device', async () => {
+    const segment = (events: ReviewEvent[]) => JSON.stringify(DataSchema.stamp({ deviceId: 'device-other', reviewEvents: events }));
+    await remote.put('wordplay-events-device-other.1-2.json', segment([review('device-other', 1), review('device-other', 2)]));
+    await SyncService.sync('merge');
+    await remote.put('wordplay-events-device-other.3-3.json', segment([review('device-other', 3)]));
+    read = [];
+
+    await SyncService.sync('merge');
+
+    expect(eventFiles(read)).toEqual(['wordplay-events-device-other.3-3.json']);
+    expect(ProgressTracker.getReviewEvents().filter(event => event.deviceId === 'device-other')).toHaveLength(3);
+  });
+
+  it('still reads the single-file log of older versions', async () => {
+    await remote.put('wordplay-events-device-old.json', JSON.stringify(DataSchema.stamp({
+      deviceId: 'device-old',
+      reviewEvents: [review('device-old', 1)]
+    })));
+
+    await SyncService.sync('merge');
+
+    expect(ProgressTracker.getReviewEvents().map(event => event.id)).toContain('device-old:1');
+  });
+});
@@ -0,0 +1,545 @@
+import { ProgressTracker } from './ProgressTracker';
+import { STORE_NAMES, StoreName } from './StorageBackend';
+import { DataSchema } from './DataSchema';
+import { SyncBackend, SyncBackendType, SyncRevisionConflictError, WebDAVConfig, WebDAVSyncBackend, MemorySyncBackend } from './SyncBackend';
+import { GoogleDriveBackend } from './GoogleDriveBackend';
+import { ReviewLog } from './ReviewLog';
+import { GameificationService } from './GameificationService';
+import { SyncSnapshots } from './SyncSnapshots';
+import { EncryptedSyncBackend, SyncEncryption } from './SyncEncryption';
+import { DataManager } from '../data/DataManager';
+import { SyncConflict, SyncMetadata } from '../types';
+
+export interface SyncStatus {
+  lastSyncTime: Date | null;
+  isSyncing: boolean;
+  error: string | null;
+  conflicts?: SyncConflict[];
+  recordCount?: number;
+  checksum?: string;
+}
+
+export type SyncDirection = 'upload' | 'download' | 'merge';
+export type SyncTrigger = 'manual' | 'auto' | 'retry';
+
+interface TransferCounts {
+  sent: number; // records written to the backend
+  received: number; // records taken from the backend
+}
+
+// One sync attempt, as shown in the sync log
+export interface SyncLogEntry extends TransferCounts {
+  time: Date;
+  direction: SyncDirection;
+  trigger: SyncTrigger;
+  durationMs: number;
+  error: string | null;
+}
+
+interface EventSyncState {
+  revisions: Record<string, string>; // last revision read per single-file log from older versions
+  seenSeq?: Record<string, number>; // highest seq read from each other device's segments
+  uploadedSeq: number; // highest own event seq already uploaded
+  encrypted?: boolean; // whether that upload was encrypted
+}
+
+// One file of a device's event log, holding the events firstSeq..lastSeq
+interface EventSegment {
+  deviceId: string;
+  firstSeq: number;
+  lastSeq: number;
+}
+
+export interface SyncBackendConfig {
+  type: SyncBackendType;
+  webdav?: WebDAVConfig;
+}
+
+/**
+ * SyncService - Optional Cloud Backup Feature
+ *
+ * Cross-device sync on top of a SyncBackend (Google Drive or a WebDAV
+ * server). The app works completely offline without it - all data is stored
+ * locally. Merging and conflict detection live here once, independent of
+ * where the files are kept.
+ *
+ * Remote layout: each device appends its reviews (see ReviewLog) as
+ * `wordplay-events-<deviceId>.<firstSeq>-<lastSeq>.json` segments that are
+ * never rewritten, and test results and sessions are merged into the shared
+ * `wordplay-data.json`. Older versions kept the whole log in one
+ * `wordplay-events-<deviceId>.json`, which is still read.
+ */
+export class SyncService {
+  private static readonly FILE_NAME = 'wordplay-data.json';
+  private static readonly SYNC_STATUS_KEY = 'wordplay-sync-status';
+  private static readonly SYNC_METADATA_KEY = 'wordplay-sync-metadata';
+  private static readonly BACKEND_KEY = 'wordplay-sync-backend';
+  private static readonly EVENT_SYNC_KEY = 'wordplay-event-sync';
+  private static readonly SYNC_LOG_KEY = 'wordplay-sync-log';
+  private static readonly MAX_LOG_ENTRIES = 50;
+  private static readonly EVENTS_FILE_PREFIX = 'wordplay-events-';
+  private static readonly EVENT_SEGMENT_PATTERN = /^wordplay-events-(.+)\.(\d+)-(\d+)\.json$/;
+  private static readonly MAX_SEGMENT_EVENTS = 500;
+  private static readonly MAX_MERGE_ATTEMPTS = 3;
+  // Stores merged through the shared file rather than the event logs
+  private static readonly SNAPSHOT_STORES: readonly StoreName[] = ['testResults', 'flashcardSessions', 'testSessions'];
+
+  private static backend: SyncBackend | null = null;
+
+  static getBackendConfig(): SyncBackendConfig {
+    const stored = localStorage.getItem(this.BACKEND_KEY);
+    return stored ? JSON.parse(stored) : { type: 'google-drive' };
+  }
+
+  static setBackendConfig(config: SyncBackendConfig): void {
+    localStorage.setItem(this.BACKEND_KEY, JSON.stringify(config));
+    this.backend = null;
+    // What we've seen and uploaded refers to the previous destination
+    localStorage.removeItem(this.EVENT_SYNC_KEY);
+  }
+
+  // Swap in a backend directly, e.g. a MemorySyncBackend in tests
+  static useBackend(backend: SyncBackend | null): void {
+    this.backend = backend && new EncryptedSyncBackend(backend);
+    localStorage.removeItem(this.EVENT_SYNC_KEY);
+  }
+
+  static getBackend(): SyncBackend {
+    if (!this.backend) {
+      const config = this.getBackendConfig();
+      let backend: SyncBackend;
+      switch (config.type) {
+        case 'webdav':
+          backend = new WebDAVSyncBackend(config.webdav || { url: '' });
+          break;
+        case 'memory':
+          backend = new MemorySyncBackend();
+          break;
+        default:
+          backend = new GoogleDriveBackend();
+      }
+      // Encrypts only when enabled; always reads encrypted files
+      this.backend = new EncryptedSyncBackend(backend);
+    }
+    return this.backend;
+  }
+
+  static isReady(): boolean {
+    return this.getBackend().isReady();
+  }
+
+  private static calculateChecksum(data: string): string {
+    // Simple checksum using hash
+    let hash = 0;
+    for (let i = 0; i < data.length; i++) {
+      const char = data.charCodeAt(i);
+      hash = ((hash << 5) - hash) + char;
+      hash = hash & hash; // Convert to 32-bit integer
+    }
+    return Math.abs(hash).toString(36);
+  }
+
+  private static getSyncMetadata(): SyncMetadata | null {
+    const metadata = localStorage.getItem(this.SYNC_METADATA_KEY);
+    if (!metadata) return null;
+    const parsed = JSON.parse(metadata);
+    return {
+      ...parsed,
+      lastSyncTime: parsed.lastSyncTime ? new Date(parsed.lastSyncTime) : null,
+    };
+  }
+
+  private static saveSyncMetadata(metadata: SyncMetadata): void {
+    localStorage.setItem(this.SYNC_METADATA_KEY, JSON.stringify(metadata));
+  }
+
+  // Local data plus sync metadata, ready to be written to the backend
+  private static buildPayload(): { content: string; metadata: SyncMetadata; records: number } {
+    const data = ProgressTracker.exportData();
+    const parsedData = JSON.parse(data);
+    // The review log travels in per-device event files instead
+    delete parsedData.reviewEvents;
+
+    const metadata: SyncMetadata = {
+      lastSyncTime: new Date(),
+      dataChecksum: this.calculateChecksum(data),
+      recordCount: parsedData.userProgress?.length || 0,
+      deviceId: ReviewLog.getDeviceId(),
+      syncVersion: (this.getSyncMetadata()?.syncVersion || 0) + 1,
+    };
+
+    return {
+      content: JSON.stringify({ ...parsedData, syncMetadata: metadata }),
+      metadata,
+      records: this.countRecords(parsedData),
+    };
+  }
+
+  private static countRecords(data: any, stores: readonly StoreName[] = STORE_NAMES): number {
+    return stores.reduce((sum, store) => sum + (Array.isArray(data?.[store]) ? data[store].length : 0), 0);
+  }
+
+  private static recordSuccess(metadata: SyncMetadata): void {
+    this.saveSyncMetadata(metadata);
+    this.updateSyncStatus({
+      ...this.getSyncStatus(),
+      lastSyncTime: new Date(),
+      isSyncing: false,
+      error: null,
+      recordCount: metadata.recordCount,
+      checksum: metadata.dataChecksum,
+    });
+    console.log(`✅ Synced ${metadata.recordCount} records to ${this.getBackend().label}`);
+  }
+
+  private static recordFailure(error: unknown, fallback: string): void {
+    const errorMessage = error instanceof Error ? error.message : fallback;
+    this.updateSyncStatus({ ...this.getSyncStatus(), lastSyncTime: null, isSyncing: false, error: errorMessage });
+  }
+
+  // A failed snapshot shouldn't fail the sync that has already succeeded
+  private static async captureSnapshot(content: string): Promise<void> {
+    try {
+      await SyncSnapshots.capture(this.getBackend(), content);
+    } catch (error) {
+      console.warn('Could not save a sync snapshot:', error);
+    }
+  }
+
+  // Run one attempt and add it to the sync log, with whatever was transferred before a failure
+  private static async track<T>(
+    direction: SyncDirection,
+    trigger: SyncTrigger,
+    run: (counts: TransferCounts) => Promise<T>
+  ): Promise<T> {
+    const started = new Date();
+    const counts: TransferCounts = { sent: 0, received: 0 };
+    const log = (error: unknown) => this.appendSyncLog({
+      time: started,
+      direction,
+      trigger,
+      ...counts,
+      durationMs: Date.now() - started.getTime(),
+      error: error === null ? null : (error instanceof Error ? error.message : String(error)),
+    });
+
+    try {
+      // Never merge or upload an empty cache left by a storage failure
+      if (!ProgressTracker.isLoaded()) {
+        throw new Error('Your saved progress could not be loaded on this device. Reload the app before syncing.');
+      }
+      const result = await run(counts);
+      log(null);
+      return result;
+    } catch (error) {
+      log(error);
+      throw error;
+    }
+  }
+
+  // Overwrite the remote file with local data
+  static async upload(trigger: SyncTrigger = 'manual'): Promise<void> {
+    await this.track('upload', trigger, async counts => {
+      try {
+        counts.sent += await this.uploadOwnEvents(this.getBackend(), true);
+        const { content, metadata, records } = this.buildPayload();
+        await this.getBackend().put(this.FILE_NAME, content);
+        counts.sent += records;
+        this.recordSuccess(metadata);
+        await this.captureSnapshot(content);
+      } catch (error) {
+        this.recordFailure(error, 'Upload failed');
+        throw error;
+      }
+    });
+  }
+
+  // Replace local data with the remote file; false when there is none
+  static async download(trigger: SyncTrigger = 'manual'): Promise<boolean> {
+    return this.track('download', trigger, async counts => {
+      try {
+        const file = await this.getBackend().get(this.FILE_NAME);
+        if (!file) {
+          console.log(`No backup file found in ${this.getBackend().label}`);
+          return false;
+        }
+
+        // Older files are upgraded; anything malformed is rejected before local data changes
+        await ProgressTracker.importData(file.content);
+        counts.received += this.countRecords(JSON.parse(file.content));
+        this.updateSyncStatus({ ...this.getSyncStatus(), lastSyncTime: new Date(), isSyncing: false, error: null });
+
+        return true;
+      } catch (error) {
+        this.recordFailure(error, 'Download failed');
+        throw error;
+      }
+    });
+  }
+
+  static async sync(strategy: SyncDirection = 'merge', trigger: SyncTrigger = 'manual'): Promise<void> {
+    this.updateSyncStatus({ ...this.getSyncStatus(), isSyncing: true, error: null });
+
+    try {
+      if (strategy === 'upload') {
+        await this.upload(trigger);
+      } else if (strategy === 'download') {
+        await this.download(trigger);
+      } else {
+        // Merge strategy: compare timestamps and merge data
+        await this.track('merge', trigger, counts => this.mergeData(counts));
+      }
+    } finally {
+      const status = this.getSyncStatus();
+      this.updateSyncStatus({ ...status, isSyncing: false });
+    }
+  }
+
+  private static getEventSyncState(): EventSyncState {
+    const stored = localStorage.getItem(this.EVENT_SYNC_KEY);
+    return stored ? JSON.parse(stored) : { revisions: {}, uploadedSeq: 0 };
+  }
+
+  private static saveEventSyncState(state: EventSyncState): void {
+    localStorage.setItem(this.EVENT_SYNC_KEY, JSON.stringify(state));
+  }
+
+  // The single-file log written by older versions
+  private static getLegacyEventsFile(deviceId: string): string {
+    return `${this.EVENTS_FILE_PREFIX}${deviceId}.json`;
+  }
+
+  private static getSegmentFile(segment: EventSegment): string {
+    return `${this.EVENTS_FILE_PREFIX}${segment.deviceId}.${segment.firstSeq}-${segment.lastSeq}.json`;
+  }
+
+  private static parseSegmentFile(name: string): EventSegment | null {
+    const match = this.EVENT_SEGMENT_PATTERN.exec(name);
+    return match ? { deviceId: match[1], firstSeq: Number(match[2]), lastSeq: Number(match[3]) } : null;
+  }
+
+  /**
+   * Upload this device's events after the last uploaded seq as new segments.
+   * Only this device writes its segments, so no revision check is needed.
+   * A forced upload goes by the segments actually on the backend instead of
+   * what was recorded, so a cleared folder gets the whole log again.
+   * Returns how many events were uploaded.
+   */
+  private static async uploadOwnEvents(backend: SyncBackend, force = false): Promise<number> {
+    const state = this.getEventSyncState();
+    const deviceId = ReviewLog.getDeviceId();
+    const encrypted = SyncEncryption.isEnabled();
+    const reencrypt = !!state.encrypted !== encrypted;
+
+    if (force || reencrypt) {
+      const ownFiles = (await backend.list())
+        .map(file => file.name)
+        .filter(name => name === this.getLegacyEventsFile(deviceId) || this.parseSegmentFile(name)?.deviceId === deviceId);
+
+      // Turning encryption on or off rewrites what was uploaded before
+      if (reencrypt) {
+        for (const name of ownFiles) {
+          const file = await backend.get(name);
+          if (file) await backend.put(name, file.content);
+        }
+        state.encrypted = encrypted;
+      }
+
+      if (force) {
+        const lastSeqs = ownFiles.flatMap(name => this.parseSegmentFile(name)?.lastSeq ?? []);
+        // Segments follow an old single-file log, which holds everything up to the seq recorded for it
+        state.uploadedSeq = lastSeqs.length > 0 ? Math.max(...lastSeqs)
+          : ownFiles.length > 0 ? state.uploadedSeq : 0;
+      }
+      this.saveEventSyncState(state);
+    }
+
+    const events = ReviewLog.getOwnEvents()
+      .filter(event => event.seq > state.uploadedSeq)
+      .sort((a, b) => a.seq - b.seq);
+
+    for (let i = 0; i < events.length; i += this.MAX_SEGMENT_EVENTS) {
+      const chunk = events.slice(i, i + this.MAX_SEGMENT_EVENTS);
+      const lastSeq = chunk[chunk.length - 1].seq;
+      const name = this.getSegmentFile({ deviceId, firstSeq: chunk[0].seq, lastSeq });
+      await backend.put(name, JSON.stringify(DataSchema.stamp({ deviceId, reviewEvents: chunk })));
+      // Recorded per segment so a failed sync resumes after the last one written
+      state.uploadedSeq = lastSeq;
+      this.saveEventSyncState(state);
+    }
+    return events.length;
+  }
+
+  /**
+   * Pull review events from other devices' segments after the last seq seen
+   * from each, replay the affected words and push this device's new events.
+   * Returns conflicts between the devices' starting states.
+   */
+  private static async exchangeEvents(backend: SyncBackend, counts: TransferCounts): Promise<SyncConflict[]> {
+    // Word IDs must be migrated before the log's starting state is captured
+    await DataManager.loadWords();
+    ReviewLog.ensureBaseline();
+
+    const state = this.getEventSyncState();
+    const seenSeq = state.seenSeq || {};
+    const deviceId = ReviewLog.getDeviceId();
+    const changedWords = new Set<string>();
+
+    const files = await backend.list();
+    for (const file of files) {
+      if (!file.name.startsWith(this.EVENTS_FILE_PREFIX)) continue;
+      const segment = this.parseSegmentFile(file.name);
+      if (segment) {
+        if (segment.deviceId === deviceId || segment.lastSeq <= (seenSeq[segment.deviceId] || 0)) continue;
+      } else if (file.name === this.getLegacyEventsFile(deviceId) || state.revisions[file.name] === file.revision) {
+        continue;
+      }
+
+      const remote = await backend.get(file.name);
+      if (!remote) continue;
+
+      const { data } = await DataSchema.parse(remote.content);
+      const received = ReviewLog.receive(data.reviewEvents || []);
+      received.wordIds.forEach(wordId => changedWords.add(wordId));
+      counts.received += received.events;
+      if (segment) {
+        seenSeq[segment.deviceId] = Math.max(seenSeq[segment.deviceId] || 0, segment.lastSeq);
+      } else {
+        state.revisions[file.name] = remote.revision;
+      }
+    }
+
+    const { progress, conflicts } = ReviewLog.replay([...changedWords]);
+    ProgressTracker.applySyncedProgress(progress);
+    this.saveEventSyncState({ ...state, seenSeq });
+
+    counts.sent += await this.uploadOwnEvents(backend);
+    return conflicts;
+  }
+
+  // Keep unresolved conflicts from earlier syncs next to newly found ones
+  private static recordConflicts(found: SyncConflict[]): void {
+    const status = this.getSyncStatus();
+    const byWord = new Map<string, SyncConflict>();
+    (status.conflicts || [])
+      .filter(conflict => !ReviewLog.isSettled(conflict.wordId))
+      .forEach(conflict => byWord.set(conflict.wordId, conflict));
+    found.forEach(conflict => byWord.set(conflict.wordId, conflict));
+
+    this.updateSyncStatus({ ...status, conflicts: Array.from(byWord.values()) });
+    if (found.length > 0) {
+      console.warn(`⚠️  Found ${found.length} sync conflicts`);
+    }
+  }
+
+  /**
+   * Exchange review events, then merge the shared snapshot (test results,
+   * sessions and gamification) and write it back - conditionally on the
+   * revision that was read, so a device syncing at the same moment makes us
+   * merge again instead of losing its changes. Progress itself comes from replaying the events.
+   */
+  private static async mergeData(counts: TransferCounts): Promise<void> {
+    try {
+      const backend = this.getBackend();
+      this.recordConflicts(await this.exchangeEvents(backend, counts));
+
+      for (let attempt = 1; ; attempt++) {
+        const remote = await backend.get(this.FILE_NAME);
+        let newRemoteRecords = 0;
+        let newLocalRecords = 0;
+
+        if (remote) {
+          const { data: remoteData } = await DataSchema.parse(remote.content);
+
+          if (remoteData.gamification) {
+            GameificationService.mergeState(remoteData.gamification);
+          }
+
+          // Remote records are added to what is stored by then, so answers
+          // saved while this sync is running are kept; progress was already
+          // replayed from the events
+          newRemoteRecords = await ProgressTracker.mergeRecords({
+            testResults: remoteData.testResults || [],
+            flashcardSessions: remoteData.flashcardSessions || [],
+            testSessions: remoteData.testSessions || []
+          }, record => this.getRecordKey(record));
+
+          const merged = ProgressTracker.getTestResults().length
+            + ProgressTracker.getFlashcardSessions().length
+            + ProgressTracker.getTestSessions().length;
+          newLocalRecords = merged - this.countRecords(remoteData, this.SNAPSHOT_STORES);
+        }
+
+        // Upload merged data (or local data when there was no remote file yet)
+        const { content, metadata, records } = this.buildPayload();
+        try {
+          await backend.put(this.FILE_NAME, content, remote ? remote.revision : null);
+          counts.received += newRemoteRecords;
+          counts.sent += remote ? newLocalRecords : records;
+          this.recordSuccess(metadata);
+          await this.captureSnapshot(content);
+          return;
+        } catch (error) {
+          if (!(error instanceof SyncRevisionConflictError) || attempt >= this.MAX_MERGE_ATTEMPTS) throw error;
+          console.warn('Remote data changed during sync, merging again');
+        }
+      }
+    } catch (error) {
+      this.recordFailure(error, 'Sync failed');
+      throw error;
+    }
+  }
+
+  // Identity of a shared record. Test results have no id, so the same answer is
+  // the same word, test and moment (remote ones arrive as Dates, local ones as strings)
+  static getRecordKey(item: any): string {
+    return item.id || (item.timestamp
+      ? `${new Date(item.timestamp).toISOString()}|${item.wordId}|${item.testType}`
+      : JSON.stringify(item));
+  }
+
+  // Newest first
+  static getSyncLog(): SyncLogEntry[] {
+    const stored = localStorage.getItem(this.SYNC_LOG_KEY);
+    if (!stored) return [];
+    return JSON.parse(stored).map((entry: any) => ({ ...entry, time: new Date(entry.time) }));
+  }
+
+  private static appendSyncLog(entry: SyncLogEntry): void {
+    const log = [entry, ...this.getSyncLog()].slice(0, this.MAX_LOG_ENTRIES);
+    localStorage.setItem(this.SYNC_LOG_KEY, JSON.stringify(log));
+  }
+
+  static clearSyncLog(): void {
+    localStorage.removeItem(this.SYNC_LOG_KEY);
+  }
+
+  static getSyncStatus(): SyncStatus {
+    const status = localStorage.getItem(this.SYNC_STATUS_KEY);
+    if (!status) {
+      return { lastSyncTime: null, isSyncing: false, error: null };
+    }
+
+    const parsed = JSON.parse(status);
+    return {
+      ...parsed,
+      lastSyncTime: parsed.lastSyncTime ? new Date(parsed.lastSyncTime) : null,
+    };
+  }
+
+  static updateSyncStatus(status: SyncStatus): void {
+    localStorage.setItem(this.SYNC_STATUS_KEY, JSON.stringify(status));
+  }
+
+  static enableAutoSync(): void {
+    localStorage.setItem('wordplay-auto-sync', 'true');
+  }
+
+  static disableAutoSync(): void {
+    localStorage.removeItem('wordplay-auto-sync');
+  }
+
+  static isAutoSyncEnabled(): boolean {
+    return localStorage.getItem('wordplay-auto-sync') === 'true';
+  }
+}
@@ -0,0 +1,265 @@
+import { SyncMetadata, UserProgress } from '../types';
+import { BackupData, DataSchema } from './DataSchema';
+import { ProgressTracker } from './ProgressTracker';
+import { StoreName, STORE_NAMES } from './StorageBackend';
+import { SyncBackend, SyncRevisionConflictError } from './SyncBackend';
+import { SyncService } from './SyncService';
+
+export interface SnapshotInfo {
+  name: string;
+  day: string; // YYYY-MM-DD, local time
+  createdAt: Date;
+  counts: Partial<Record<StoreName, number>>;
+  metadata: SyncMetadata | null;
+}
+
+export interface SnapshotStoreDiff {
+  store: StoreName;
+  snapshot: number;
+  local: number;
+  onlyInSnapshot: number;
+  onlyLocal: number;
+  changed: number; // in both but different (progress only)
+}
+
+export interface SnapshotDiff {
+  stores: SnapshotStoreDiff[];
+  changedWordIds: string[];
+}
+
+/**
+ * SyncSnapshots - Rolling copies of the shared sync file
+ *
+ * The first successful sync of each day also writes the synced data to
+ * `wordplay-snapshot-<day>.json`. Snapshots are kept daily for DAILY_DAYS,
+ * then one per week until MAX_AGE_DAYS, so a bad merge or a mistaken upload
+ * never destroys the only cloud copy. A small index file keeps the metadata
+ * so the list can be shown without downloading every snapshot.
+ */
+export class SyncSnapshots {
+  private static readonly FILE_PREFIX = 'wordplay-snapshot-';
+  private static readonly INDEX_FILE = 'wordplay-snapshots.json';
+  static readonly DAILY_DAYS = 14;
+  static readonly MAX_AGE_DAYS = 92;
+
+  private static dayKey(date: Date): string {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  }
+
+  private static parseDay(day: string): Date {
+    const [year, month, date] = day.split('-').map(Number);
+    return new Date(year, month - 1, date);
+  }
+
+  private static fileName(day: string): string {
+    return `${this.FILE_PREFIX}${day}.json`;
+  }
+
+  private static dayFromFileName(name: string): string | null {
+    const match = name.match(/^wordplay-snapshot-(\d{4}-\d{2}-\d{2})\.json$/);
+    return match ? match[1] : null;
+  }
+
+  // Monday of the day's week, so each week has one key
+  private static weekKey(day: string): string {
+    const date = this.parseDay(day);
+    date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+    return this.dayKey(date);
+  }
+
+  /**
+   * Days to keep out of `days`: everything from the last DAILY_DAYS, then the
+   * newest snapshot of each week up to MAX_AGE_DAYS.
+   */
+  static selectRetained(days: string[], today: Date = new Date()): Set<string> {
+    const todayStart = this.parseDay(this.dayKey(today)).getTime();
+    const ageInDays = (day: string) => Math.round((todayStart - this.parseDay(day).getTime()) / 86400000);
+
+    const retained = new Set<string>();
+    const weeksKept = new Set<string>();
+    [...days].sort().reverse().forEach(day => {
+      const age = ageInDays(day);
+      if (age < this.DAILY_DAYS) {
+        retained.add(day);
+      } else if (age <= this.MAX_AGE_DAYS && !weeksKept.has(this.weekKey(day))) {
+        weeksKept.add(this.weekKey(day));
+        retained.add(day);
+      }
+    });
+    return retained;
+  }
+
+  private static countRecords(data: any): Partial<Record<StoreName, number>> {
+    const counts: Partial<Record<StoreName, number>> = {};
+    STORE_NAMES.forEach(store => {
+      if (Array.isArray(data?.[store])) counts[store] = data[store].length;
+    });
+    return counts;
+  }
+
+  private static describe(name: string, content: string): SnapshotInfo | null {
+    const day = this.dayFromFileName(name);
+    if (!day) return null;
+
+    const data = JSON.parse(content);
+    const metadata: SyncMetadata | null = data.syncMetadata
+      ? { ...data.syncMetadata, lastSyncTime: new Date(data.syncMetadata.lastSyncTime) }
+      : null;
+    return {
+      name,
+      day,
+      createdAt: metadata?.lastSyncTime || this.parseDay(day),
+      counts: this.countRecords(data),
+      metadata
+    };
+  }
+
+  private static async readIndex(backend: SyncBackend): Promise<SnapshotInfo[]> {
+    const file = await backend.get(this.INDEX_FILE);
+    if (!file) return [];
+    try {
+      return (JSON.parse(file.content).snapshots || []).map((info: any) => ({
+        ...info,
+        createdAt: new Date(info.createdAt),
+        metadata: info.metadata ? { ...info.metadata, lastSyncTime: new Date(info.metadata.lastSyncTime) } : null
+      }));
+    } catch {
+      // A damaged index is rebuilt from the snapshot files
+      return [];
+    }
+  }
+
+  private static async writeIndex(backend: SyncBackend, snapshots: SnapshotInfo[]): Promise<void> {
+    await backend.put(this.INDEX_FILE, JSON.stringify({ snapshots }));
+  }
+
+  /**
+   * Keep `content` (a sync payload that was just uploaded) as today's snapshot
+   * unless there is one already, then drop snapshots past the retention rules.
+   */
+  static async capture(backend: SyncBackend, content: string, now: Date = new Date()): Promise<void> {
+    const day = this.dayKey(now);
+    const name = this.fileName(day);
+
+    const files = await backend.list();
+    if (files.some(file => file.name === name)) return;
+
+    try {
+      await backend.put(name, content, null);
+    } catch (error) {
+      // Another device took today's snapshot first
+      if (error instanceof SyncRevisionConflictError) return;
+      throw error;
+    }
+
+    const info = this.describe(name, content)!;
+    const index = (await this.readIndex(backend)).filter(entry => entry.name !== name);
+    const days = [...files.map(file => this.dayFromFileName(file.name)).filter((d): d is string => !!d), day];
+    const retained = this.selectRetained(days, now);
+
+    for (const file of files) {
+      const fileDay = this.dayFromFileName(file.name);
+      if (fileDay && !retained.has(fileDay)) {
+        await backend.delete(file.name);
+      }
+    }
+
+    await this.writeIndex(backend, [info, ...index.filter(entry => retained.has(entry.day))]);
+    console.log(`📸 Saved snapshot ${name}`);
+  }
+
+  // Snapshots on the current sync backend, newest first
+  static async list(): Promise<SnapshotInfo[]> {
+    const backend = SyncService.getBackend();
+    const files = await backend.list();
+    const index = await this.readIndex(backend);
+    const byName = new Map(index.map(entry => [entry.name, entry]));
+
+    const snapshots: SnapshotInfo[] = [];
+    let indexChanged = false;
+    for (const file of files) {
+      if (!this.dayFromFileName(file.name)) continue;
+
+      let info = byName.get(file.name);
+      if (!info) {
+        // Written by a device that couldn't update the index
+        const remote = await backend.get(file.name);
+        info = remote ? this.describe(file.name, remote.content) || undefined : undefined;
+        indexChanged = indexChanged || !!info;
+      }
+      if (info) snapshots.push(info);
+    }
+
+    snapshots.sort((a, b) => b.day.localeCompare(a.day));
+    if (indexChanged || snapshots.length !== index.length) {
+      await this.writeIndex(backend, snapshots);
+    }
+    return snapshots;
+  }
+
+  private static async load(name: string): Promise<{ content: string; data: BackupData }> {
+    const file = await SyncService.getBackend().get(name);
+    if (!file) throw new Error('This snapshot no longer exists.');
+    const { data } = await DataSchema.parse(file.content);
+    return { content: file.content, data };
+  }
+
+  private static hasProgressChanged(a: UserProgress, b: UserProgress): boolean {
+    return a.repetitions !== b.repetitions ||
+      a.totalSeen !== b.totalSeen ||
+      a.correctCount !== b.correctCount ||
+      a.masteryLevel !== b.masteryLevel ||
+      new Date(a.nextReview).getTime() !== new Date(b.nextReview).getTime();
+  }
+
+  // Compare a snapshot with the data on this device
+  static async diff(name: string): Promise<SnapshotDiff> {
+    const { data } = await this.load(name);
+    const local = JSON.parse(ProgressTracker.exportData());
+    const result: SnapshotDiff = { stores: [], changedWordIds: [] };
+
+    STORE_NAMES.forEach(store => {
+      const snapshotRecords: any[] = data[store] || [];
+      if (store === 'reviewEvents' && snapshotRecords.length === 0) return;
+
+      const localRecords: any[] = local[store] || [];
+      const key = (record: any) => (store === 'userProgress' ? record.wordId : SyncService.getRecordKey(record));
+      const localByKey = new Map(localRecords.map(record => [key(record), record]));
+      const snapshotKeys = new Set(snapshotRecords.map(key));
+
+      const storeDiff: SnapshotStoreDiff = {
+        store,
+        snapshot: snapshotRecords.length,
+        local: localRecords.length,
+        onlyInSnapshot: 0,
+        onlyLocal: localRecords.filter(record => !snapshotKeys.has(key(record))).length,
+        changed: 0
+      };
+
+      snapshotRecords.forEach(record => {
+        const localRecord = localByKey.get(key(record));
+        if (!localRecord) {
+          storeDiff.onlyInSnapshot++;
+        } else if (store === 'userProgress' && this.hasProgressChanged(record, localRecord)) {
+          storeDiff.changed++;
+          result.changedWordIds.push(record.wordId);
+        }
+      });
+
+      result.stores.push(storeDiff);
+    });
+
+    return result;
+  }
+
+  /**
+   * Replace local data with a snapshot and upload it, so the restored state
+   * becomes the shared copy (and, through the review log, reaches other devices).
+   */
+  static async restore(name: string): Promise<void> {
+    const { content } = await this.load(name);
+    await ProgressTracker.importData(content);
+    await SyncService.upload();
+  }
+}
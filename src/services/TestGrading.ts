@@ -0,0 +1,156 @@
+import { Quality, TestResult, TestSession } from '../types';
+import { fuzzyMatchScore, levenshteinDistance } from '../utils/fuzzyMatch';
+import { ProgressTracker } from './ProgressTracker';
+import { SchedulerService } from './Scheduler';
+import { StudyEvents } from './StudyEvents';
+
+export type GradedTestType = Exclude<TestResult['testType'], 'flashcard'>;
+
+export type TestGradeWeights = Record<GradedTestType, number>;
+
+export interface TypedAnswerGrade {
+  answer: string; // the accepted answer closest to what was typed
+  score: number; // fuzzyMatchScore against that answer
+  distance: number; // levenshteinDistance to that answer
+  quality: Quality; // suggested rating; the user can pick another
+}
+
+/**
+ * TestGrading - Turns test answers into spaced-repetition grades
+ *
+ * Each test type maps its own outcome onto a 0-5 Quality. The grade is then
+ * scaled by a per-test-type weight (0 = tests never touch the schedule,
+ * 1 = a test answer counts as much as a flashcard review).
+ */
+export class TestGrading {
+  private static readonly STORAGE_KEY = 'wordplay-test-grade-weights';
+
+  static readonly DEFAULT_WEIGHTS: TestGradeWeights = {
+    match: 0.6,
+    sentence: 1,
+    'synonym-antonym': 0.8
+  };
+
+  static gradeMatchAnswer(correct: boolean, timeSpent: number): Quality {
+    if (!correct) return 1;
+    if (timeSpent < 3000) return 5;
+    if (timeSpent < 6000) return 4;
+    return 3;
+  }
+
+  static gradeSentenceAnswer(matchType: 'exact' | 'fuzzy' | 'partial' | 'wrong'): Quality {
+    switch (matchType) {
+      case 'exact': return 5;
+      case 'fuzzy': return 4;
+      case 'partial': return 2;
+      default: return 1;
+    }
+  }
+
+  static gradeSynonymAntonymAnswer(overallScore: number): Quality {
+    if (overallScore >= 0.9) return 5;
+    if (overallScore >= 0.7) return 4;
+    if (overallScore >= 0.5) return 3;
+    if (overallScore > 0) return 2;
+    return 1;
+  }
+
+  /**
+   * Grade a typed flashcard answer against each accepted answer and keep the
+   * closest. Exact is Perfect, one typo Easy, two typos Good; anything
+   * further (including a partial answer) is a miss.
+   */
+  static gradeTypedAnswer(typed: string, answers: string[]): TypedAnswerGrade {
+    const best = answers
+      .map(answer => ({
+        answer,
+        score: fuzzyMatchScore(typed, answer),
+        distance: levenshteinDistance(typed, answer)
+      }))
+      .sort((a, b) => b.score - a.score || a.distance - b.distance)[0];
+
+    let quality: Quality = 1;
+    if (best.score === 1) quality = 5;
+    else if (best.score === 0.5) quality = best.distance <= 1 ? 4 : 3;
+
+    return { ...best, quality };
+  }
+
+  // A meaning like "কমানো বা হ্রাস পাওয়া" also accepts each alternative on its own
+  static getAcceptedAnswers(text: string): string[] {
+    const parts = text.split(/\s+বা\s+|[,;/]/).map(part => part.trim()).filter(Boolean);
+    return [text.trim(), ...parts.filter(part => part !== text.trim())];
+  }
+
+  static getWeights(): TestGradeWeights {
+    const stored = localStorage.getItem(this.STORAGE_KEY);
+    if (!stored) return { ...this.DEFAULT_WEIGHTS };
+
+    try {
+      return { ...this.DEFAULT_WEIGHTS, ...JSON.parse(stored) };
+    } catch (error) {
+      console.error('Error parsing test grade weights:', error);
+      return { ...this.DEFAULT_WEIGHTS };
+    }
+  }
+
+  static saveWeights(weights: TestGradeWeights): void {
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(weights));
+  }
+
+  // Pull the grade towards the pass/fail boundary (3) as the weight drops,
+  // without ever moving it across: a miss stays a miss at any weight
+  static applyWeight(quality: Quality, weight: number): Quality {
+    const weighted = Math.round(3 + (quality - 3) * Math.max(0, Math.min(1, weight)));
+    return (quality < 3 ? Math.max(0, Math.min(2, weighted)) : Math.max(3, Math.min(5, weighted))) as Quality;
+  }
+
+  /**
+   * Feed a graded test answer into the word's schedule.
+   *
+   * Misses always reschedule the word so it comes back sooner. Correct answers
+   * only count once the word is due, otherwise an easy multiple-choice hit
+   * would push an unreviewed word further out than a real review would.
+   */
+  static applyToSchedule(testType: GradedTestType, wordId: string, quality: Quality): boolean {
+    const weight = this.getWeights()[testType];
+    if (weight <= 0) return false;
+
+    const weighted = this.applyWeight(quality, weight);
+    const progress = ProgressTracker.getProgressForWord(wordId);
+    const isDue = progress !== undefined && progress.nextReview <= new Date();
+
+    if (quality >= 3 && !isDue) return false;
+
+    SchedulerService.reviewWord(wordId, weighted);
+    return true;
+  }
+
+  /**
+   * Save a finished test and announce it. `correctAnswers` should use the
+   * same pass mark as the test's saved answers; the score is the percentage
+   * of all questions, so unanswered ones (time ran out) count as misses.
+   */
+  static recordSession(
+    testType: GradedTestType,
+    startTime: Date,
+    endTime: Date,
+    totalQuestions: number,
+    correctAnswers: number
+  ): TestSession {
+    const session: TestSession = {
+      id: `${testType}-${startTime.getTime()}`,
+      testType,
+      startTime,
+      endTime,
+      totalQuestions,
+      correctAnswers,
+      score: totalQuestions > 0 ? Math.round((correctAnswers / totalQuestions) * 100) : 0,
+      timeSpent: endTime.getTime() - startTime.getTime()
+    };
+
+    ProgressTracker.saveTestSession(session);
+    StudyEvents.emit({ type: 'test-completed', session });
+    return session;
+  }
+}
@@ -0,0 +1,207 @@
+import { UserProgress, WordRecord } from '../types';
+import { DataManager } from '../data/DataManager';
+import { DeckManager } from '../data/DeckManager';
+import { ProgressTracker } from './ProgressTracker';
+
+export type MasteryBand = 'new' | 'needs-practice' | 'learning' | 'good' | 'mastered';
+
+export interface ExportFilter {
+  deckId?: string;
+  letter?: string;
+  weakOnly?: boolean; // studied words, lowest accuracy first
+  masteryBand?: MasteryBand;
+  limit?: number;
+}
+
+export interface ExportRow {
+  wordId: string;
+  word: WordRecord;
+  progress?: UserProgress;
+  band: MasteryBand;
+}
+
+/**
+ * WordExporter - Word lists with their SRS state in shareable formats
+ *
+ * Unlike ProgressTracker.exportData (a full JSON backup), these exports are
+ * meant for people and other tools: spreadsheets, Anki and printed sheets.
+ */
+export class WordExporter {
+  // Same thresholds as the mastery meter on the flashcards
+  static readonly MASTERY_BANDS: { id: MasteryBand; label: string }[] = [
+    { id: 'new', label: 'New' },
+    { id: 'needs-practice', label: 'Needs Practice' },
+    { id: 'learning', label: 'Learning' },
+    { id: 'good', label: 'Good' },
+    { id: 'mastered', label: 'Mastered' }
+  ];
+
+  static getMasteryBand(progress?: UserProgress): MasteryBand {
+    if (!progress || progress.totalSeen === 0) return 'new';
+    if (progress.masteryLevel >= 80) return 'mastered';
+    if (progress.masteryLevel >= 60) return 'good';
+    if (progress.masteryLevel >= 40) return 'learning';
+    return 'needs-practice';
+  }
+
+  static getBandLabel(band: MasteryBand): string {
+    return this.MASTERY_BANDS.find(b => b.id === band)?.label || band;
+  }
+
+  static async selectRows(filter: ExportFilter = {}): Promise<ExportRow[]> {
+    const allWords = await DataManager.loadWords();
+    const progressById = new Map(ProgressTracker.getUserProgress().map(p => [p.wordId, p]));
+
+    const deck = filter.deckId ? DeckManager.getDeck(filter.deckId) : undefined;
+    let words = deck ? DeckManager.getDeckWords(deck, allWords) : allWords;
+
+    if (filter.letter) {
+      const letter = filter.letter.toUpperCase();
+      words = words.filter(word => word.word.charAt(0).toUpperCase() === letter);
+    }
+
+    let rows: ExportRow[] = words.map(word => {
+      const wordId = DataManager.getWordId(word);
+      const progress = progressById.get(wordId);
+      return { wordId, word, progress, band: this.getMasteryBand(progress) };
+    });
+
+    if (filter.masteryBand) {
+      rows = rows.filter(row => row.band === filter.masteryBand);
+    }
+
+    if (filter.weakOnly) {
+      // Same ordering as ProgressTracker.getWeakWords
+      rows = rows
+        .filter(row => row.progress && row.progress.totalSeen > 0)
+        .sort((a, b) => a.progress!.accuracy - b.progress!.accuracy);
+    } else {
+      rows.sort((a, b) => a.word.word.localeCompare(b.word.word));
+    }
+
+    return filter.limit && filter.limit > 0 ? rows.slice(0, filter.limit) : rows;
+  }
+
+  private static formatDate(date?: Date): string {
+    return date ? new Date(date).toISOString().split('T')[0] : '';
+  }
+
+  private static escapeCsv(value: string | number): string {
+    const text = String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  static toCsv(rows: ExportRow[]): string {
+    const header = [
+      'word', 'meaning', 'example', 'synonyms', 'antonyms',
+      'mastery_band', 'mastery_level', 'accuracy', 'times_seen', 'correct_count',
+      'interval_days', 'next_review', 'last_reviewed'
+    ];
+
+    const lines = rows.map(({ word, progress, band }) => [
+      word.word,
+      word.meaning,
+      word.example,
+      word.synonyms.join('; '),
+      word.antonyms.join('; '),
+      band,
+      progress?.masteryLevel ?? '',
+      progress ? Math.round(progress.accuracy * 100) : '',
+      progress?.totalSeen ?? '',
+      progress?.correctCount ?? '',
+      progress?.interval ?? '',
+      this.formatDate(progress?.nextReview),
+      this.formatDate(progress?.lastReviewed)
+    ].map(value => this.escapeCsv(value)).join(','));
+
+    // BOM so spreadsheet apps read the Bangla meanings as UTF-8
+    return '\uFEFF' + [header.join(','), ...lines].join('\r\n');
+  }
+
+  private static escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  /**
+   * Anki "Notes in Plain Text" format: Front, Back (HTML), Tags.
+   * Tags look like wordplay::mastery::good so they can be filtered in the browser.
+   */
+  static toAnkiTsv(rows: ExportRow[], deckName?: string): string {
+    const header = [
+      '#separator:tab',
+      '#html:true',
+      '#columns:Front\tBack\tTags',
+      '#tags column:3'
+    ];
+    if (deckName) {
+      header.push(`#deck:${deckName.replace(/[\t\r\n]/g, ' ')}`);
+    }
+
+    const clean = (text: string) => this.escapeHtml(text).replace(/[\t\r\n]+/g, ' ');
+
+    const lines = rows.map(({ word, band }) => {
+      const back = [
+        clean(word.meaning),
+        word.example && `<i>${clean(word.example)}</i>`,
+        word.synonyms.length > 0 && `Synonyms: ${clean(word.synonyms.join(', '))}`,
+        word.antonyms.length > 0 && `Antonyms: ${clean(word.antonyms.join(', '))}`
+      ].filter(Boolean).join('<br>');
+
+      return [clean(word.word), back, `wordplay wordplay::mastery::${band}`].join('\t');
+    });
+
+    return [...header, ...lines].join('\n');
+  }
+
+  static toPrintableHtml(rows: ExportRow[], title: string): string {
+    const body = rows.map(({ word, progress, band }, index) => `
+      <tr>
+        <td class="num">${index + 1}</td>
+        <td>
+          <div class="word">${this.escapeHtml(word.word)}</div>
+          <div class="band band-${band}">${this.getBandLabel(band)}${progress && progress.totalSeen > 0 ? ` · ${Math.round(progress.accuracy * 100)}%` : ''}</div>
+        </td>
+        <td>
+          <div class="meaning">${this.escapeHtml(word.meaning)}</div>
+          ${word.example ? `<div class="example">${this.escapeHtml(word.example)}</div>` : ''}
+          ${word.synonyms.length > 0 ? `<div class="related"><b>Syn:</b> ${this.escapeHtml(word.synonyms.join(', '))}</div>` : ''}
+          ${word.antonyms.length > 0 ? `<div class="related"><b>Ant:</b> ${this.escapeHtml(word.antonyms.join(', '))}</div>` : ''}
+        </td>
+      </tr>`).join('');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${this.escapeHtml(title)}</title>
+<style>
+  body { font-family: system-ui, -apple-system, "Segoe UI", sans-serif; color: #2c3e50; margin: 24px; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  .subtitle { color: #7f8c8d; font-size: 13px; margin: 0 0 16px; }
+  table { width: 100%; border-collapse: collapse; }
+  td { border-bottom: 1px solid #e1e8ed; padding: 8px; vertical-align: top; font-size: 13px; }
+  tr { page-break-inside: avoid; }
+  .num { color: #95a5a6; width: 28px; }
+  .word { font-weight: 700; font-size: 15px; }
+  .meaning { font-size: 14px; }
+  .example { font-style: italic; color: #555; margin-top: 2px; }
+  .related { color: #555; margin-top: 2px; }
+  .band { font-size: 11px; color: #7f8c8d; margin-top: 2px; }
+  .band-needs-practice { color: #c0392b; }
+  .band-mastered { color: #27ae60; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+<h1>${this.escapeHtml(title)}</h1>
+<p class="subtitle">${rows.length} words · ${new Date().toLocaleDateString()}</p>
+<table>${body}
+</table>
+</body>
+</html>`;
+  }
+}
@@ -0,0 +1,235 @@
+import { Deck, WordRecord } from '../types';
+import { DataManager } from '../data/DataManager';
+import { DeckManager } from '../data/DeckManager';
+import { detectDelimiter, parseDelimitedText, splitList, stripHtml } from '../utils/delimitedText';
+
+export type ImportFormat = 'csv' | 'tsv' | 'anki';
+
+export type ImportField = 'word' | 'meaning' | 'example' | 'synonyms' | 'antonyms';
+
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export interface ParsedImport {
+  format: ImportFormat;
+  columns: string[]; // header labels, or "Column N" when the file has no header
+  rows: string[][]; // data rows, header excluded
+  htmlFields: boolean; // Anki exports may contain HTML formatting
+}
+
+export interface ImportPreviewRow {
+  rowNumber: number;
+  word: WordRecord;
+  errors: string[];
+  duplicate: 'existing' | 'file' | null;
+  existingWordId?: string;
+}
+
+export type ImportTarget = { deckId: string } | { newDeckName: string };
+
+export interface ImportResult {
+  deck: Deck;
+  added: number; // new words created
+  linked: number; // words already in the list that were added to the deck
+  skipped: number; // rows with errors or repeated within the file
+}
+
+/**
+ * WordImporter - Brings vocabulary lists in from spreadsheets and Anki
+ *
+ * Parsing and previewing are side-effect free so the UI can re-run them as the
+ * user changes the column mapping. Only importRows() writes anything.
+ */
+export class WordImporter {
+  static readonly FIELDS: { id: ImportField; label: string; required: boolean }[] = [
+    { id: 'word', label: 'Word', required: true },
+    { id: 'meaning', label: 'Meaning', required: true },
+    { id: 'example', label: 'Example', required: false },
+    { id: 'synonyms', label: 'Synonyms', required: false },
+    { id: 'antonyms', label: 'Antonyms', required: false }
+  ];
+
+  private static readonly HEADER_ALIASES: Record<ImportField, string[]> = {
+    word: ['word', 'term', 'front', 'vocabulary', 'english'],
+    meaning: ['meaning', 'definition', 'back', 'translation', 'bangla', 'bengali'],
+    example: ['example', 'sentence', 'usage', 'example sentence'],
+    synonyms: ['synonym', 'synonyms'],
+    antonyms: ['antonym', 'antonyms']
+  };
+
+  private static readonly ANKI_SEPARATORS: Record<string, string> = {
+    tab: '\t',
+    comma: ',',
+    semicolon: ';',
+    pipe: '|',
+    space: ' '
+  };
+
+  static detectFormat(text: string, fileName = ''): ImportFormat {
+    if (/^#(separator|html|columns|notetype|deck|tags)/m.test(text)) return 'anki';
+    if (fileName.toLowerCase().endsWith('.csv')) return 'csv';
+    return detectDelimiter(text) === '\t' ? 'tsv' : 'csv';
+  }
+
+  static parse(text: string, format: ImportFormat, hasHeader: boolean): ParsedImport {
+    if (format === 'anki') {
+      return this.parseAnki(text);
+    }
+
+    const delimiter = format === 'tsv' ? '\t' : detectDelimiter(text) === ';' ? ';' : ',';
+    const allRows = parseDelimitedText(text.replace(/^\uFEFF/, ''), delimiter);
+    const width = Math.max(0, ...allRows.map(row => row.length));
+    const header = hasHeader ? allRows[0] || [] : [];
+
+    return {
+      format,
+      columns: Array.from({ length: width }, (_, i) => header[i]?.trim() || `Column ${i + 1}`),
+      rows: hasHeader ? allRows.slice(1) : allRows,
+      htmlFields: false
+    };
+  }
+
+  // Anki "Notes in Plain Text" export: optional #key:value header lines, then one note per line
+  private static parseAnki(text: string): ParsedImport {
+    const headerLines: Record<string, string> = {};
+    const body: string[] = [];
+
+    text.replace(/^\uFEFF/, '').split(/\r?\n/).forEach(line => {
+      const header = line.match(/^#([a-z ]+):(.*)$/);
+      if (header && body.length === 0) {
+        headerLines[header[1].trim()] = header[2];
+      } else {
+        body.push(line);
+      }
+    });
+
+    const delimiter = this.ANKI_SEPARATORS[headerLines.separator?.trim().toLowerCase()] ?? headerLines.separator ?? '\t';
+    const rows = parseDelimitedText(body.join('\n'), delimiter);
+    const width = Math.max(0, ...rows.map(row => row.length));
+    const named = headerLines.columns ? headerLines.columns.split(delimiter) : [];
+
+    const columns = Array.from({ length: width }, (_, i) => named[i]?.trim() || `Field ${i + 1}`);
+    // Anki marks metadata columns by 1-based index
+    (['notetype', 'deck', 'tags'] as const).forEach(key => {
+      const index = parseInt(headerLines[`${key} column`]);
+      if (index > 0 && index <= width) {
+        columns[index - 1] = key.charAt(0).toUpperCase() + key.slice(1);
+      }
+    });
+
+    return {
+      format: 'anki',
+      columns,
+      rows,
+      htmlFields: headerLines.html?.trim() !== 'false'
+    };
+  }
+
+  static guessMapping(parsed: ParsedImport): ColumnMapping {
+    const normalized = parsed.columns.map(column => column.trim().toLowerCase());
+    const metadata = new Set(['notetype', 'deck', 'tags']);
+    const used = new Set<number>();
+    const mapping: ColumnMapping = { word: null, meaning: null, example: null, synonyms: null, antonyms: null };
+
+    this.FIELDS.forEach(({ id }) => {
+      const index = normalized.findIndex((column, i) => !used.has(i) && this.HEADER_ALIASES[id].includes(column));
+      if (index >= 0) {
+        mapping[id] = index;
+        used.add(index);
+      }
+    });
+
+    // Fall back to column order: every field when no header matched, otherwise just the required ones
+    const free = normalized
+      .map((_, i) => i)
+      .filter(i => !used.has(i) && !metadata.has(normalized[i]));
+    const fallbackFields: ImportField[] = used.size === 0 ? this.FIELDS.map(field => field.id) : ['word', 'meaning'];
+    fallbackFields.forEach(id => {
+      if (mapping[id] === null && free.length > 0) {
+        mapping[id] = free.shift()!;
+      }
+    });
+
+    return mapping;
+  }
+
+  static buildPreview(parsed: ParsedImport, mapping: ColumnMapping, listDelimiter: string): ImportPreviewRow[] {
+    const seenInFile = new Set<string>();
+
+    return parsed.rows.map((row, index) => {
+      const cell = (field: ImportField) => {
+        const column = mapping[field];
+        const value = column === null ? '' : row[column] ?? '';
+        return parsed.htmlFields ? stripHtml(value) : value.trim();
+      };
+
+      const word: WordRecord = {
+        word: cell('word'),
+        meaning: cell('meaning'),
+        example: cell('example'),
+        synonyms: splitList(cell('synonyms'), listDelimiter),
+        antonyms: splitList(cell('antonyms'), listDelimiter)
+      };
+
+      const errors = DataManager.getWordErrors(word);
+      const key = word.word.toLowerCase();
+      const existing = key ? DataManager.findWordBySpelling(word.word) : undefined;
+      let duplicate: ImportPreviewRow['duplicate'] = null;
+
+      if (key && seenInFile.has(key)) {
+        duplicate = 'file';
+      } else if (existing) {
+        duplicate = 'existing';
+      }
+      if (key) seenInFile.add(key);
+
+      return {
+        rowNumber: index + 1,
+        word,
+        errors,
+        duplicate,
+        existingWordId: existing ? DataManager.getWordId(existing) : undefined
+      };
+    });
+  }
+
+  /**
+   * Add the valid rows to the word list and the target deck.
+   * Rows matching an existing word are linked to the deck instead of duplicated
+   * when linkExisting is set, otherwise skipped.
+   */
+  static importRows(rows: ImportPreviewRow[], target: ImportTarget, linkExisting: boolean): ImportResult {
+    const usable = rows.filter(row => row.errors.length === 0 && row.duplicate !== 'file');
+    const newRows = usable.filter(row => row.duplicate === null);
+    const linkedIds = linkExisting
+      ? usable.filter(row => row.duplicate === 'existing').map(row => row.existingWordId!)
+      : [];
+
+    // Create the deck first so a bad name fails before any words are written
+    const deck = 'deckId' in target
+      ? DeckManager.getDeck(target.deckId)
+      : DeckManager.createDeck(target.newDeckName);
+    if (!deck) {
+      throw new Error('Deck not found');
+    }
+
+    let addedWords: WordRecord[];
+    try {
+      addedWords = DataManager.addWords(newRows.map(row => row.word));
+    } catch (error) {
+      if ('newDeckName' in target) DeckManager.deleteDeck(deck.id);
+      throw error;
+    }
+
+    const updatedDeck = DeckManager.addWords(deck.id, [
+      ...addedWords.map(word => DataManager.getWordId(word)),
+      ...linkedIds
+    ]);
+
+    return {
+      deck: updatedDeck,
+      added: addedWords.length,
+      linked: linkedIds.length,
+      skipped: rows.length - newRows.length - linkedIds.length
+    };
+  }
+}
@@ -17,6 +17,9 @@ export interface UserProgress {
   accuracy: number;
   lastReviewed: Date;
   masteryLevel: number;
+  scheduler?: SchedulerType; // Scheduler that produced this record (defaults to 'sm2')
+  stability?: number; // FSRS memory stability in days
+  difficulty?: number; // FSRS difficulty, 1 (easy) to 10 (hard)
   lastModified?: Date; // Track when this record was last modified
   syncVersion?: number; // Version number for conflict resolution
 }
@@ -28,6 +31,7 @@ export interface TestResult {
   timeSpent: number;
   timestamp: Date;
   quality: number;
+  cram?: boolean; // answered in cram mode, which leaves the schedule alone
 }
 
 export interface MatchTestResult {
@@ -72,6 +76,8 @@ export interface TestSession {
 
 export type Quality = 0 | 1 | 2 | 3 | 4 | 5;
 
+export type SchedulerType = 'sm2' | 'fsrs';
+
 export interface SM2Result {
   easeFactor: number;
   repetitions: number;
@@ -79,6 +85,43 @@ export interface SM2Result {
   nextReview: Date;
 }
 
+export interface Deck {
+  id: string;
+  name: string;
+  wordIds: string[];
+  newCardLimit: number; // new cards per session
+  reviewLimit?: number; // due cards per session; the session length when unset
+  maxInterval?: number; // days; reviews in this deck never schedule a word further out
+  createdAt: Date;
+  lastModified: Date;
+}
+
+export interface WordOverride {
+  id: string; // ID of the bundled word being changed, or the user word's own ID
+  type: 'added' | 'edited' | 'deleted';
+  word?: WordRecord; // Full record for added and edited words
+  lastModified: Date;
+}
+
+/**
+ * One entry in the append-only review log that sync exchanges between devices.
+ * 'review' events are replayed through the scheduler; 'set' events replace a
+ * word's progress outright (starting state, resets, conflict resolutions).
+ */
+export interface ReviewEvent {
+  id: string; // `${deviceId}:${seq}`, unique across devices
+  deviceId: string;
+  seq: number; // per-device counter
+  clock: number; // Lamport clock; 0 for the starting state captured on each device
+  type: 'review' | 'set';
+  wordId: string;
+  timestamp: Date;
+  quality?: Quality; // review events
+  scheduler?: SchedulerType; // review events
+  maxInterval?: number; // review events: interval cap of the deck it was studied in
+  progress?: UserProgress; // set events
+}
+
 export interface SyncMetadata {
   lastSyncTime: Date | null;
   dataChecksum: string;
@@ -0,0 +1,80 @@
+/**
+ * Parse CSV/TSV text into rows of fields
+ * Handles quoted fields with embedded delimiters, newlines and doubled quotes
+ */
+export function parseDelimitedText(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      // Treat \r\n as a single line break
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+}
+
+/**
+ * Guess the delimiter from the first few lines
+ * Prefers tabs, since spreadsheet TSV exports rarely contain stray tabs
+ */
+export function detectDelimiter(text: string): string {
+  const sample = text.split(/\r?\n/).filter(line => line.trim() && !line.startsWith('#')).slice(0, 5);
+  const count = (char: string) => sample.reduce((sum, line) => sum + line.split(char).length - 1, 0);
+
+  if (count('\t') > 0) return '\t';
+  return count(';') > count(',') ? ';' : ',';
+}
+
+/**
+ * Convert an HTML fragment (as found in Anki fields) to plain text
+ */
+export function stripHtml(html: string): string {
+  const withBreaks = html.replace(/<br\s*\/?>/gi, ' ').replace(/<\/(div|p|li)>/gi, ' ');
+  const doc = new DOMParser().parseFromString(withBreaks, 'text/html');
+  return (doc.body.textContent || '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Split a cell holding several values ("calm; quiet, still") into a list
+ */
+export function splitList(value: string, delimiter: string): string[] {
+  return value
+    .split(delimiter)
+    .map(item => item.trim())
+    .filter(Boolean);
+}
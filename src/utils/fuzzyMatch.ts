@@ -76,6 +76,64 @@ export function fuzzyMatchScore(userAnswer: string, correctAnswer: string): numb
   return 0;
 }
 
+export interface CharacterDiff {
+  type: 'equal' | 'replace' | 'extra' | 'missing';
+  typed?: string; // the character the user typed (equal, replace, extra)
+  expected?: string; // the correct character (equal, replace, missing)
+}
+
+/**
+ * Align a typed answer with the correct spelling, character by character.
+ * Uses the same edit distance as levenshteinDistance (case-insensitive,
+ * trimmed), so the diff shows exactly the edits that distance counted.
+ */
+export function diffCharacters(typedAnswer: string, correctAnswer: string): CharacterDiff[] {
+  const typed = typedAnswer.trim();
+  const correct = correctAnswer.trim();
+  const a = typed.toLowerCase();
+  const b = correct.toLowerCase();
+
+  // costs[i][j]: edits to turn the first i typed characters into the first j correct ones
+  const costs: number[][] = [];
+  for (let i = 0; i <= a.length; i++) {
+    costs[i] = [i];
+  }
+  for (let j = 0; j <= b.length; j++) {
+    costs[0][j] = j;
+  }
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      costs[i][j] = a.charAt(i - 1) === b.charAt(j - 1)
+        ? costs[i - 1][j - 1]
+        : Math.min(costs[i - 1][j - 1], costs[i - 1][j], costs[i][j - 1]) + 1;
+    }
+  }
+
+  // Walk back from the end, preferring matches and substitutions
+  const diff: CharacterDiff[] = [];
+  let i = a.length;
+  let j = b.length;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && a.charAt(i - 1) === b.charAt(j - 1) && costs[i][j] === costs[i - 1][j - 1]) {
+      diff.push({ type: 'equal', typed: typed.charAt(i - 1), expected: correct.charAt(j - 1) });
+      i--;
+      j--;
+    } else if (i > 0 && j > 0 && costs[i][j] === costs[i - 1][j - 1] + 1) {
+      diff.push({ type: 'replace', typed: typed.charAt(i - 1), expected: correct.charAt(j - 1) });
+      i--;
+      j--;
+    } else if (i > 0 && costs[i][j] === costs[i - 1][j] + 1) {
+      diff.push({ type: 'extra', typed: typed.charAt(i - 1) });
+      i--;
+    } else {
+      diff.push({ type: 'missing', expected: correct.charAt(j - 1) });
+      j--;
+    }
+  }
+
+  return diff.reverse();
+}
+
 /**
  * Normalize string for comparison (remove punctuation, extra spaces)
  */